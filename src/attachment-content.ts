@@ -0,0 +1,193 @@
+/**
+ * Attachment Content - Turn downloaded attachments into readable text
+ *
+ * EXTRACTION:
+ * - Plain text, CSV, markdown, JSON, XML and iCalendar: decoded as UTF-8
+ * - HTML: converted to markdown with the email body converter
+ * - EML (message/rfc822): headers plus the text or HTML body
+ * - Item attachments (forwarded messages, event invites): structured
+ *   content built from the expanded Graph item
+ *
+ * Other formats (PDF, Office, images) are returned as binary only.
+ */
+
+import { base64ToBytes } from "./attachments";
+import {
+  convertBody,
+  htmlToMarkdown,
+  toEmailDetail,
+  truncateBody,
+} from "./email-content";
+import { GraphAttachment, GraphEvent, GraphMessage } from "./graph-types";
+import { parseMimeMessage } from "./mime";
+
+/** Largest file attachment returned as an embedded resource */
+export const MAX_DOWNLOAD_SIZE = 10 * 1024 * 1024;
+
+/** Graph attachment kinds, from the @odata.type discriminator */
+export type AttachmentKind = "file" | "item" | "reference";
+
+const TEXT_EXTENSIONS = [
+  "txt",
+  "md",
+  "log",
+  "csv",
+  "tsv",
+  "json",
+  "xml",
+  "ics",
+  "vcf",
+];
+const TEXT_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/ics",
+  "application/csv",
+];
+
+/**
+ * Determine the attachment kind
+ *
+ * @param attachment - Attachment as returned by Graph
+ * @returns "file", "item" or "reference"
+ */
+export function getAttachmentKind(attachment: GraphAttachment): AttachmentKind {
+  const type = attachment["@odata.type"] || "";
+  if (type.endsWith("itemAttachment")) {
+    return "item";
+  }
+  if (type.endsWith("referenceAttachment")) {
+    return "reference";
+  }
+  return "file";
+}
+
+/**
+ * Check whether a file attachment is text that can be embedded as-is
+ *
+ * @param attachment - File attachment metadata
+ * @returns true for text formats, false for binaries (including EML)
+ */
+export function isTextAttachment(attachment: GraphAttachment): boolean {
+  const { type, extension } = getFileType(attachment);
+  return (
+    type.startsWith("text/") ||
+    TEXT_TYPES.includes(type) ||
+    TEXT_EXTENSIONS.includes(extension) ||
+    extension === "html" ||
+    extension === "htm"
+  );
+}
+
+/**
+ * Extract readable text from a file attachment
+ *
+ * @param attachment - File attachment including contentBytes
+ * @returns Extracted text, undefined for unsupported formats
+ */
+export function extractFileText(
+  attachment: GraphAttachment,
+): string | undefined {
+  if (!attachment.contentBytes) {
+    return undefined;
+  }
+
+  const { type, extension } = getFileType(attachment);
+  if (type === "message/rfc822" || extension === "eml") {
+    return emlToText(base64ToBytes(attachment.contentBytes));
+  }
+  if (!isTextAttachment(attachment)) {
+    return undefined;
+  }
+
+  const text = new TextDecoder().decode(base64ToBytes(attachment.contentBytes));
+  if (type === "text/html" || extension === "html" || extension === "htm") {
+    return htmlToMarkdown(text);
+  }
+  return text;
+}
+
+/**
+ * Build structured content for an expanded item attachment
+ *
+ * @param attachment - Item attachment with item expanded
+ * @param maxLength - Maximum body length in characters
+ * @returns Message or event details, undefined if the item is missing
+ */
+export function describeItem(
+  attachment: GraphAttachment,
+  maxLength?: number,
+): Record<string, unknown> | undefined {
+  const item = attachment.item;
+  if (!item) {
+    return undefined;
+  }
+
+  const type = item["@odata.type"] || "";
+  if (type.endsWith("event")) {
+    const event = item as GraphEvent;
+    return {
+      type: "event",
+      subject: event.subject,
+      start: event.start,
+      end: event.end,
+      location: event.location?.displayName,
+      organizer: event.organizer?.emailAddress,
+      attendees: (event.attendees || []).map((a) => a.emailAddress),
+      body: event.body
+        ? truncateBody(
+            convertBody(
+              event.body.content,
+              event.body.contentType === "html",
+              "markdown",
+            ),
+            maxLength,
+          ).content
+        : undefined,
+    };
+  }
+
+  return {
+    type: type.endsWith("message")
+      ? "message"
+      : type.replace("#microsoft.graph.", ""),
+    ...toEmailDetail(item as GraphMessage, { format: "markdown", maxLength }),
+  };
+}
+
+/**
+ * Normalized MIME type and file extension
+ * @private
+ */
+function getFileType(attachment: GraphAttachment): {
+  type: string;
+  extension: string;
+} {
+  const name = (attachment.name || "").toLowerCase();
+  return {
+    type: (attachment.contentType || "").toLowerCase().split(";")[0].trim(),
+    extension: name.includes(".") ? name.split(".").pop()! : "",
+  };
+}
+
+/**
+ * Render an .eml file as a header block followed by its body
+ * @private
+ */
+function emlToText(bytes: Uint8Array): string {
+  const message = parseMimeMessage(bytes);
+  const header = ["from", "to", "cc", "date", "subject"]
+    .filter((name) => message.headers[name])
+    .map(
+      (name) =>
+        `${name[0].toUpperCase()}${name.slice(1)}: ${message.headers[name]}`,
+    );
+
+  if (message.attachments.length > 0) {
+    header.push(`Attachments: ${message.attachments.join(", ")}`);
+  }
+
+  const body =
+    message.text ?? (message.html ? htmlToMarkdown(message.html) : "");
+  return `${header.join("\n")}\n\n${body.trim()}`;
+}
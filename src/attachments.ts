@@ -0,0 +1,316 @@
+/**
+ * Attachment Inputs - Resolve tool-supplied attachments to upload-ready content
+ *
+ * INPUT FORMS:
+ * - contentBytes: Base64-encoded file content supplied inline by the client
+ * - uri: data: URI, or https: URL the server downloads before uploading
+ *
+ * URL DOWNLOADS:
+ * The server fetches https: URLs with its own network access, so a caller
+ * could otherwise make it read internal or arbitrary hosts. Only hosts an
+ * administrator lists in ATTACHMENT_URL_HOSTS are fetched, and redirects
+ * are not followed, so an allowed host cannot forward to another one.
+ * Without ATTACHMENT_URL_HOSTS only data: URIs and contentBytes work.
+ *
+ * SIZE LIMITS (Microsoft Graph):
+ * - Up to 3 MB: sent inline as a fileAttachment in the JSON request body
+ * - 3 MB to 150 MB: uploaded in chunks through createUploadSession
+ *
+ * WORKER MEMORY:
+ * Resolved attachments are held in memory until uploaded, and a Worker
+ * isolate has 128 MB. This server therefore accepts 25 MB per file and
+ * 50 MB per operation, well below Graph's 150 MB, and rejects larger
+ * input before any Graph call is made. URL downloads are streamed and
+ * aborted at the limit, so a missing Content-Length cannot bypass it.
+ */
+
+import { Env } from "./index";
+
+/** Attachment as supplied by a tool caller */
+export interface AttachmentInput {
+  name: string;
+  contentType?: string;
+  /** Base64-encoded content; mutually exclusive with uri */
+  contentBytes?: string;
+  /** data: URI or allowed https: URL; mutually exclusive with contentBytes */
+  uri?: string;
+  /** Embed in the HTML body, referenced as cid:{contentId} */
+  isInline?: boolean;
+  contentId?: string;
+}
+
+/** Attachment with its content resolved to raw bytes */
+export interface ResolvedAttachment {
+  name: string;
+  contentType: string;
+  bytes: Uint8Array;
+  isInline: boolean;
+  contentId?: string;
+}
+
+/** Largest attachment Graph accepts inline in a JSON request body */
+export const INLINE_ATTACHMENT_LIMIT = 3 * 1024 * 1024;
+
+/** Largest attachment accepted per file, see WORKER MEMORY */
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+/** Largest total of all attachments of one operation, see WORKER MEMORY */
+export const MAX_TOTAL_ATTACHMENT_SIZE = 50 * 1024 * 1024;
+
+const DEFAULT_CONTENT_TYPE = "application/octet-stream";
+
+/**
+ * Parse ATTACHMENT_URL_HOSTS, see URL DOWNLOADS
+ *
+ * @param env - Environment with the optional host list
+ * @returns Lowercase host names, space or comma separated in the variable
+ */
+export function getAttachmentUrlHosts(env: Env): string[] {
+  return (env.ATTACHMENT_URL_HOSTS || "")
+    .split(/[\s,]+/)
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Resolve the attachments of one operation, one at a time
+ *
+ * @param inputs - Attachments with contentBytes or uri
+ * @param allowedHosts - Hosts https: URIs may point to
+ * @returns Resolved attachments in input order
+ * @throws Error as resolveAttachment, or if together they exceed
+ *         MAX_TOTAL_ATTACHMENT_SIZE
+ */
+export async function resolveAttachments(
+  inputs: AttachmentInput[] | undefined,
+  allowedHosts: string[] = [],
+): Promise<ResolvedAttachment[]> {
+  const resolved: ResolvedAttachment[] = [];
+  let total = 0;
+
+  for (const input of inputs || []) {
+    const attachment = await resolveAttachment(
+      input,
+      Math.min(MAX_ATTACHMENT_SIZE, MAX_TOTAL_ATTACHMENT_SIZE - total),
+      allowedHosts,
+    );
+    total += attachment.bytes.byteLength;
+    resolved.push(attachment);
+  }
+  return resolved;
+}
+
+/**
+ * Resolve an attachment input to raw bytes
+ *
+ * @param input - Attachment with contentBytes or uri
+ * @param maxSize - Largest accepted content in bytes
+ * @param allowedHosts - Hosts https: URIs may point to
+ * @returns Attachment content and metadata
+ * @throws Error if neither or both sources are given, the URI is not
+ *         allowed or cannot be read, or the content exceeds maxSize
+ */
+export async function resolveAttachment(
+  input: AttachmentInput,
+  maxSize = MAX_ATTACHMENT_SIZE,
+  allowedHosts: string[] = [],
+): Promise<ResolvedAttachment> {
+  if (!input.contentBytes === !input.uri) {
+    throw new Error(
+      `Attachment "${input.name}" must specify exactly one of contentBytes or uri`,
+    );
+  }
+
+  let bytes: Uint8Array;
+  let contentType = input.contentType;
+
+  if (input.contentBytes) {
+    bytes = base64ToBytes(input.contentBytes);
+  } else if (input.uri!.startsWith("data:")) {
+    const parsed = parseDataUri(input.uri!);
+    bytes = parsed.bytes;
+    contentType = contentType || parsed.contentType;
+  } else if (input.uri!.startsWith("https://")) {
+    const host = new URL(input.uri!).hostname.toLowerCase();
+    if (!allowedHosts.includes(host)) {
+      throw new Error(
+        allowedHosts.length
+          ? `Attachment "${input.name}" uri host ${host} is not allowed. Allowed hosts: ${allowedHosts.join(", ")}. Send the file as contentBytes or a data: URI instead.`
+          : `Attachment "${input.name}" uri must be a data: URI; this server does not download https: URLs unless ATTACHMENT_URL_HOSTS lists their host. Send the file as contentBytes instead.`,
+      );
+    }
+
+    const response = await fetch(input.uri!, { redirect: "manual" });
+    if (response.status >= 300 && response.status < 400) {
+      await response.body?.cancel();
+      throw new Error(
+        `Failed to download attachment "${input.name}": HTTP ${response.status} redirect, which is not followed`,
+      );
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Failed to download attachment "${input.name}": HTTP ${response.status}`,
+      );
+    }
+
+    const declaredSize = Number(response.headers.get("content-length"));
+    const body = await readBodyLimited(response, maxSize);
+    if (!body) {
+      throw new Error(
+        declaredSize > maxSize
+          ? formatSizeError(input.name, declaredSize, maxSize)
+          : formatSizeError(input.name, maxSize, maxSize, true),
+      );
+    }
+
+    bytes = body;
+    contentType =
+      contentType || response.headers.get("content-type") || undefined;
+  } else {
+    throw new Error(
+      `Attachment "${input.name}" uri must be a data: URI or https: URL`,
+    );
+  }
+
+  if (bytes.byteLength > maxSize) {
+    throw new Error(formatSizeError(input.name, bytes.byteLength, maxSize));
+  }
+
+  return {
+    name: input.name,
+    contentType: contentType || DEFAULT_CONTENT_TYPE,
+    bytes,
+    isInline: !!input.isInline,
+    contentId: input.contentId,
+  };
+}
+
+/**
+ * Decode base64 (standard or base64url) to bytes
+ *
+ * @param base64 - Encoded content, whitespace tolerated
+ * @returns Decoded bytes
+ * @throws Error if the input is not valid base64
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const normalized = base64
+    .replace(/\s/g, "")
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+
+  let binary: string;
+  try {
+    binary = atob(normalized);
+  } catch {
+    throw new Error("Attachment content is not valid base64");
+  }
+
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as standard base64
+ * Processes 32KB slices to stay below the argument limit of fromCharCode.
+ *
+ * @param bytes - Raw content
+ * @returns Base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Parse an RFC 2397 data: URI
+ * @private
+ */
+function parseDataUri(uri: string): {
+  contentType?: string;
+  bytes: Uint8Array;
+} {
+  const separator = uri.indexOf(",");
+  if (separator === -1) {
+    throw new Error("Malformed data: URI in attachment");
+  }
+
+  const meta = uri.slice(5, separator).split(";");
+  const payload = uri.slice(separator + 1);
+  const isBase64 = meta.includes("base64");
+
+  return {
+    contentType: meta[0] || undefined,
+    bytes: isBase64
+      ? base64ToBytes(payload)
+      : new TextEncoder().encode(decodeURIComponent(payload)),
+  };
+}
+
+/**
+ * Read a response body, aborting once it exceeds maxSize
+ *
+ * A larger Content-Length is rejected before reading; otherwise the
+ * stream is cancelled at the limit, so an oversized body is never held
+ * in memory as a whole.
+ *
+ * @param response - Response whose body to read
+ * @param maxSize - Largest accepted body in bytes
+ * @returns Body bytes, or undefined if the body exceeds maxSize
+ */
+export async function readBodyLimited(
+  response: Response,
+  maxSize: number,
+): Promise<Uint8Array | undefined> {
+  if (Number(response.headers.get("content-length")) > maxSize) {
+    await response.body?.cancel();
+    return undefined;
+  }
+  if (!response.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxSize) {
+      await reader.cancel();
+      return undefined;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+/** @private */
+function formatSizeError(
+  name: string,
+  size: number,
+  maxSize: number,
+  partial = false,
+): string {
+  const mb = (value: number) => (value / 1024 / 1024).toFixed(1);
+  const limit =
+    maxSize < MAX_ATTACHMENT_SIZE
+      ? `the ${MAX_TOTAL_ATTACHMENT_SIZE / 1024 / 1024} MB total for all attachments leaves ${mb(maxSize)} MB`
+      : `this server accepts at most ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB per attachment`;
+  return `Attachment "${name}" is ${partial ? "over " : ""}${mb(size)} MB; ${limit}. Share larger files as a OneDrive or SharePoint link instead.`;
+}
@@ -0,0 +1,542 @@
+/**
+ * Email Content - Convert Outlook message bodies into model-friendly text
+ *
+ * HTML CLEANUP:
+ * - Drops head, style, script, conditional Office comments and hidden
+ *   elements, which carry no content but dominate newsletter markup
+ * - Drops tracking pixels (images sized 0 or 1 px, or hidden)
+ * - Keeps links, emphasis, lists, quotes and simple tables as markdown
+ *
+ * The converter is regex-based because Workers have no DOM; it targets
+ * the markup produced by mail clients, not arbitrary HTML.
+ */
+
+import { GraphMessage, GraphRecipient } from "./graph-types";
+
+/** Output format of message bodies */
+export type EmailBodyFormat = "markdown" | "text" | "html";
+
+/** Message as returned by the getEmail tool */
+export interface EmailDetail {
+  id: string;
+  subject?: string;
+  from?: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  replyTo: string[];
+  sentDateTime?: string;
+  receivedDateTime?: string;
+  conversationId?: string;
+  importance?: string;
+  isRead?: boolean;
+  webLink?: string;
+  body: string;
+  bodyFormat: EmailBodyFormat;
+  /** Characters removed by maxLength, omitted when nothing was cut */
+  truncatedCharacters?: number;
+  attachments: {
+    id: string;
+    name?: string;
+    contentType?: string;
+    size?: number;
+    isInline?: boolean;
+  }[];
+  headers?: Record<string, string>;
+}
+
+/** One message of a getConversation result */
+export interface ConversationEntry {
+  id: string;
+  from?: string;
+  to: string[];
+  cc: string[];
+  sentDateTime?: string;
+  hasAttachments?: boolean;
+  /** New content only, quoted history removed */
+  body: string;
+  truncatedCharacters?: number;
+}
+
+/**
+ * Blockquote boundaries, resolved to "> " prefixes after conversion so
+ * nested quotes in reply chains keep their depth
+ */
+const QUOTE_START = "\u0002";
+const QUOTE_END = "\u0003";
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  zwnj: "",
+  zwj: "",
+  shy: "",
+};
+
+/**
+ * Build the getEmail result from a Graph message
+ *
+ * @param message - Message with body, recipients and expanded attachments
+ * @param options - Body format and maximum body length in characters
+ * @returns Flattened message with converted, possibly truncated body
+ */
+export function toEmailDetail(
+  message: GraphMessage,
+  options: { format: EmailBodyFormat; maxLength?: number },
+): EmailDetail {
+  const isHtml = message.body?.contentType === "html";
+  const body = truncateBody(
+    convertBody(message.body?.content || "", isHtml, options.format),
+    options.maxLength,
+  );
+
+  return {
+    id: message.id,
+    subject: message.subject,
+    from: message.from ? formatRecipient(message.from) : undefined,
+    to: (message.toRecipients || []).map(formatRecipient),
+    cc: (message.ccRecipients || []).map(formatRecipient),
+    bcc: (message.bccRecipients || []).map(formatRecipient),
+    replyTo: (message.replyTo || []).map(formatRecipient),
+    sentDateTime: message.sentDateTime,
+    receivedDateTime: message.receivedDateTime,
+    conversationId: message.conversationId,
+    importance: message.importance,
+    isRead: message.isRead,
+    webLink: message.webLink,
+    body: body.content,
+    bodyFormat: isHtml ? options.format : "text",
+    truncatedCharacters: body.truncatedCharacters,
+    attachments: (message.attachments || []).map((a) => ({
+      id: a.id,
+      name: a.name,
+      contentType: a.contentType,
+      size: a.size,
+      isInline: a.isInline,
+    })),
+    headers: message.internetMessageHeaders
+      ? Object.fromEntries(
+          message.internetMessageHeaders.map((h) => [h.name, h.value]),
+        )
+      : undefined,
+  };
+}
+
+/**
+ * Convert a message body to the requested format
+ *
+ * @param content - Body content from Graph
+ * @param isHtml - Whether content is HTML
+ * @param format - Target format; plain text bodies are returned unchanged
+ * @returns Converted body
+ */
+export function convertBody(
+  content: string,
+  isHtml: boolean,
+  format: EmailBodyFormat,
+): string {
+  if (!isHtml || format === "html") {
+    return content;
+  }
+  return format === "markdown" ? htmlToMarkdown(content) : htmlToText(content);
+}
+
+/**
+ * Lines that start the quoted history appended by mail clients
+ *
+ * MATCHES:
+ * - Outlook: "-----Original Message-----", "________" rules and
+ *   "From: ... / Sent: ..." header blocks (also in bold markdown)
+ * - Gmail and Apple Mail: "On <date>, <name> wrote:"
+ */
+const QUOTE_SEPARATORS = [
+  /^-{3,}\s*Original Message\s*-{3,}$/i,
+  /^_{10,}$/,
+  /^On .{5,200} wrote:$/,
+];
+const QUOTE_HEADER_START = /^(\*\*)?From:(\*\*)?\s/i;
+const QUOTE_HEADER_FOLLOW = /^(\*\*)?(Sent|Date):(\*\*)?\s/i;
+
+/**
+ * Build a getConversation entry from a thread message
+ *
+ * @param message - Message with uniqueBody or body
+ * @param maxLength - Maximum body length in characters
+ * @returns Flattened message whose body holds only new content
+ */
+export function toConversationEntry(
+  message: GraphMessage,
+  maxLength?: number,
+): ConversationEntry {
+  const source = message.uniqueBody || message.body;
+  const body = truncateBody(
+    stripQuotedHistory(
+      convertBody(
+        source?.content || "",
+        source?.contentType === "html",
+        "markdown",
+      ),
+    ),
+    maxLength,
+  );
+
+  return {
+    id: message.id,
+    from: message.from ? formatRecipient(message.from) : undefined,
+    to: (message.toRecipients || []).map(formatRecipient),
+    cc: (message.ccRecipients || []).map(formatRecipient),
+    sentDateTime: message.sentDateTime || message.receivedDateTime,
+    hasAttachments: message.hasAttachments,
+    body: body.content,
+    truncatedCharacters: body.truncatedCharacters,
+  };
+}
+
+/**
+ * Render a conversation as a compact transcript
+ *
+ * FORMAT:
+ * Conversation: <subject> (<n> messages)
+ * Participants: <everyone who sent or received a message>
+ *
+ * [1] <sent time> | From: <sender> | To: <recipients> | Cc: <recipients>
+ * <body>
+ *
+ * @param subject - Thread subject, usually of the first message
+ * @param entries - Messages in chronological order
+ * @returns Transcript text
+ */
+export function formatConversationTranscript(
+  subject: string | undefined,
+  entries: ConversationEntry[],
+): string {
+  const participants = new Set<string>();
+  for (const entry of entries) {
+    for (const person of [entry.from, ...entry.to, ...entry.cc]) {
+      if (person) {
+        participants.add(person);
+      }
+    }
+  }
+
+  const lines = [
+    `Conversation: ${subject || "(no subject)"} (${entries.length} message${entries.length === 1 ? "" : "s"})`,
+    `Participants: ${[...participants].join(", ")}`,
+  ];
+  entries.forEach((entry, index) => {
+    const header = [
+      `[${index + 1}] ${entry.sentDateTime || "unknown time"}`,
+      `From: ${entry.from || "unknown"}`,
+    ];
+    if (entry.to.length > 0) {
+      header.push(`To: ${entry.to.join(", ")}`);
+    }
+    if (entry.cc.length > 0) {
+      header.push(`Cc: ${entry.cc.join(", ")}`);
+    }
+    if (entry.hasAttachments) {
+      header.push("Has attachments");
+    }
+    lines.push("", header.join(" | "), entry.body || "(no new content)");
+  });
+  return lines.join("\n");
+}
+
+/**
+ * Remove quoted history from a converted body
+ *
+ * Cuts at the first separator line and drops a trailing run of "> " lines.
+ * uniqueBody usually has the history removed already; this catches clients
+ * Exchange does not recognize and plain text replies.
+ *
+ * @param text - Markdown or plain text body
+ * @returns Body without quoted history
+ */
+export function stripQuotedHistory(text: string): string {
+  const lines = text.split("\n");
+  let end = lines.length;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const isHeaderBlock =
+      QUOTE_HEADER_START.test(line) &&
+      lines
+        .slice(i + 1, i + 4)
+        .some((next) => QUOTE_HEADER_FOLLOW.test(next.trim()));
+    if (
+      isHeaderBlock ||
+      QUOTE_SEPARATORS.some((separator) => separator.test(line))
+    ) {
+      end = i;
+      break;
+    }
+  }
+
+  while (
+    end > 0 &&
+    (lines[end - 1].trim() === "" ||
+      lines[end - 1].trim() === "---" ||
+      lines[end - 1].startsWith(">"))
+  ) {
+    end--;
+  }
+  return lines.slice(0, end).join("\n").trim();
+}
+
+/**
+ * Cut a body to maxLength characters with a visible marker
+ *
+ * @param content - Converted body
+ * @param maxLength - Maximum characters, unlimited if omitted
+ * @returns Body and number of characters removed
+ */
+export function truncateBody(
+  content: string,
+  maxLength?: number,
+): { content: string; truncatedCharacters?: number } {
+  if (!maxLength || content.length <= maxLength) {
+    return { content };
+  }
+
+  const truncatedCharacters = content.length - maxLength;
+  return {
+    content: `${content.slice(0, maxLength)}\n\n[... ${truncatedCharacters} characters truncated]`,
+    truncatedCharacters,
+  };
+}
+
+/**
+ * Wrap plain text for HTML-only Graph fields, keeping line breaks
+ *
+ * @param content - Text or HTML
+ * @returns HTML unchanged, text escaped with <br> line breaks
+ */
+export function textToHtml(content: string): string {
+  if (/<[a-z][\s\S]*>/i.test(content)) {
+    return content;
+  }
+  return content
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Convert email HTML to markdown
+ *
+ * @param html - Message body HTML
+ * @returns Markdown with noise and tracking pixels removed
+ */
+export function htmlToMarkdown(html: string): string {
+  const md = stripNoise(html)
+    .replace(
+      /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi,
+      (_, level, text) =>
+        `\n\n${"#".repeat(Number(level))} ${inline(text)}\n\n`,
+    )
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, _tag, text) =>
+      wrapInline(text, "**"),
+    )
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, (_, _tag, text) =>
+      wrapInline(text, "_"),
+    )
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, (_, text) =>
+      wrapInline(text, "`"),
+    )
+    .replace(
+      /<a\b([^>]*)>([\s\S]*?)<\/a>/gi,
+      (_, attributes: string, text: string) =>
+        formatLink(getAttribute(attributes, "href") || "", inline(text)),
+    )
+    .replace(/<img\b[^>]*>/gi, (tag) => {
+      const src = getAttribute(tag, "src");
+      return src ? `![${getAttribute(tag, "alt") || ""}](${src})` : "";
+    })
+    .replace(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi, (_, row: string) => {
+      const cells = [...row.matchAll(/<t[dh]\b[^>]*>([\s\S]*?)<\/t[dh]>/gi)]
+        .map((cell) => inline(cell[1]))
+        .filter(Boolean);
+      return cells.length > 0 ? `\n| ${cells.join(" | ")} |` : "";
+    })
+    .replace(/<blockquote\b[^>]*>/gi, `\n\n${QUOTE_START}\n`)
+    .replace(/<\/blockquote>/gi, `\n${QUOTE_END}\n\n`)
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<hr\b[^>]*>/gi, "\n\n---\n\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(
+      /<\/?(p|div|pre|table|ul|ol|section|article|header|footer)\b[^>]*>/gi,
+      "\n\n",
+    )
+    .replace(/<[^>]+>/g, "");
+
+  return normalizeWhitespace(
+    applyQuotes(normalizeWhitespace(decodeEntities(md))),
+  );
+}
+
+/**
+ * Convert email HTML to plain text
+ *
+ * @param html - Message body HTML
+ * @returns Text with paragraph structure kept and links reduced to their text
+ */
+export function htmlToText(html: string): string {
+  const text = stripNoise(html)
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/t[dh]>/gi, " ")
+    .replace(
+      /<\/?(p|div|pre|tr|table|ul|ol|h[1-6]|blockquote|hr)\b[^>]*>/gi,
+      "\n\n",
+    )
+    .replace(/<[^>]+>/g, "");
+
+  return normalizeWhitespace(decodeEntities(text));
+}
+
+/**
+ * Remove markup that never carries readable content
+ * Source line breaks are insignificant in HTML and are collapsed first.
+ * @private
+ */
+function stripNoise(html: string): string {
+  return html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|style|script|title|xml)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(
+      /<([a-z0-9]+)\b[^>]*style\s*=\s*["'][^"']*display\s*:\s*none[^"']*["'][^>]*>[\s\S]*?<\/\1>/gi,
+      "",
+    )
+    .replace(/<img\b[^>]*>/gi, (tag) => (isTrackingPixel(tag) ? "" : tag))
+    .replace(/\s*\n\s*/g, " ");
+}
+
+/**
+ * Detect 0/1 px or hidden images used to track opens
+ * @private
+ */
+function isTrackingPixel(tag: string): boolean {
+  const sizes = [getAttribute(tag, "width"), getAttribute(tag, "height")];
+  const style = (getAttribute(tag, "style") || "").toLowerCase();
+
+  return (
+    sizes.some((size) => size !== undefined && parseInt(size, 10) <= 1) ||
+    /display\s*:\s*none|visibility\s*:\s*hidden/.test(style) ||
+    /(?:^|[;\s])(?:width|height)\s*:\s*[01]px/.test(style)
+  );
+}
+
+/** @private */
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(
+    `\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`,
+    "i",
+  ).exec(tag);
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Collapse a fragment to single-line text without markup
+ * @private
+ */
+function inline(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Wrap inline text in a markdown marker, dropping empty elements
+ * @private
+ */
+function wrapInline(html: string, marker: string): string {
+  const text = html.trim();
+  return text ? `${marker}${text}${marker}` : "";
+}
+
+/**
+ * Format a link, omitting the URL when it adds nothing
+ * @private
+ */
+function formatLink(href: string, text: string): string {
+  if (!text) {
+    return "";
+  }
+  if (!href || href.startsWith("#") || href === text) {
+    return text;
+  }
+  if (href.startsWith("mailto:") && href.slice(7) === text) {
+    return text;
+  }
+  return `[${text}](${href})`;
+}
+
+/** @private */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code) => {
+    if (code[0] === "#") {
+      const point =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Trim line edges and limit blank lines to one
+ * @private
+ */
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\u00a0/g, " ")
+    .replace(/ {2,}/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Replace blockquote markers with "> " prefixes by nesting depth
+ * @private
+ */
+function applyQuotes(text: string): string {
+  let depth = 0;
+  const lines: string[] = [];
+  for (const line of text.split("\n")) {
+    if (line === QUOTE_START) {
+      depth++;
+    } else if (line === QUOTE_END) {
+      depth = Math.max(0, depth - 1);
+    } else {
+      lines.push(depth > 0 ? `${"> ".repeat(depth)}${line}`.trimEnd() : line);
+    }
+  }
+  return lines.join("\n");
+}
+
+/** @private */
+function formatRecipient(recipient: GraphRecipient): string {
+  const { name, address } = recipient.emailAddress;
+  return name && name !== address ? `${name} <${address}>` : address || "";
+}
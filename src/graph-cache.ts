@@ -0,0 +1,186 @@
+/**
+ * Microsoft Graph Response Cache - Per-user CACHE_KV storage with ETag revalidation
+ *
+ * CACHING MODEL:
+ * - Only endpoints listed in CACHE_POLICIES are cached (slow-changing data)
+ * - Entries are fresh for the policy TTL and served without a Graph call
+ * - Stale entries are kept for STALE_TTL_MULTIPLIER x TTL so they can be
+ *   revalidated with If-None-Match when Graph supplied an ETag
+ * - Write operations invalidate whole groups (e.g. "calendars")
+ *
+ * KEY FORMAT:
+ * graph-cache:{userId}:{group}:{sha256(relative url)}
+ * The group segment allows prefix-based invalidation via KV list().
+ *
+ * FAILURE HANDLING:
+ * KV errors are non-fatal - the cache degrades to direct Graph requests.
+ */
+
+/** Cache settings for one Graph endpoint */
+export interface CachePolicy {
+  /** Invalidation group shared by related endpoints */
+  group: string;
+  /** Seconds an entry is served without contacting Graph */
+  ttlSeconds: number;
+}
+
+/** Stored cache entry */
+export interface CacheEntry<T = any> {
+  body: T;
+  etag?: string | null;
+  expiresAt: number;
+}
+
+/**
+ * Endpoint cache policies keyed by Graph path (lowercase, no version prefix)
+ *
+ * TTL RATIONALE:
+ * - Profile and joined teams change rarely
+ * - Calendars, mailbox settings and people rankings change more often
+ */
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  "/me": { group: "profile", ttlSeconds: 900 },
+  "/me/mailboxsettings": { group: "mailboxSettings", ttlSeconds: 300 },
+  "/me/calendars": { group: "calendars", ttlSeconds: 300 },
+  "/me/joinedteams": { group: "teams", ttlSeconds: 600 },
+  "/me/people": { group: "people", ttlSeconds: 300 },
+};
+
+/** Stale entries remain available for ETag revalidation this many TTLs */
+const STALE_TTL_MULTIPLIER = 4;
+
+/** Cloudflare KV rejects expirationTtl values below 60 seconds */
+const MIN_KV_TTL_SECONDS = 60;
+
+const KEY_PREFIX = "graph-cache";
+
+/**
+ * CACHE_KV-backed store for Graph GET responses
+ *
+ * Operates as a no-op when the CACHE_KV binding is missing so local
+ * development without KV keeps working.
+ */
+export class GraphCache {
+  private kv?: KVNamespace;
+
+  /**
+   * @param kv - CACHE_KV namespace binding (optional)
+   */
+  constructor(kv?: KVNamespace) {
+    this.kv = kv;
+  }
+
+  /**
+   * Find the cache policy for a relative Graph URL
+   *
+   * @param relativeUrl - URL relative to the version root (e.g. "/me/calendars?$select=id")
+   * @returns Policy for cacheable endpoints, undefined otherwise
+   */
+  getPolicy(relativeUrl: string): CachePolicy | undefined {
+    if (!this.kv) {
+      return undefined;
+    }
+
+    const path = relativeUrl.split("?")[0].toLowerCase().replace(/\/$/, "");
+    return CACHE_POLICIES[path];
+  }
+
+  /**
+   * Read a cache entry (fresh or stale)
+   *
+   * @param userKey - User partition key
+   * @param relativeUrl - Relative Graph URL including query
+   * @param policy - Policy returned by getPolicy
+   * @returns Stored entry or null on miss or KV failure
+   */
+  async get<T>(
+    userKey: string,
+    relativeUrl: string,
+    policy: CachePolicy,
+  ): Promise<CacheEntry<T> | null> {
+    try {
+      const key = await this.buildKey(userKey, relativeUrl, policy);
+      return await this.kv!.get<CacheEntry<T>>(key, "json");
+    } catch {
+      /** Cache read failure - fall through to Graph */
+      return null;
+    }
+  }
+
+  /**
+   * Store a response and restart its freshness window
+   *
+   * @param userKey - User partition key
+   * @param relativeUrl - Relative Graph URL including query
+   * @param policy - Policy returned by getPolicy
+   * @param body - Response body to cache
+   * @param etag - ETag response header, if Graph supplied one
+   */
+  async put<T>(
+    userKey: string,
+    relativeUrl: string,
+    policy: CachePolicy,
+    body: T,
+    etag?: string | null,
+  ): Promise<void> {
+    try {
+      const key = await this.buildKey(userKey, relativeUrl, policy);
+      const entry: CacheEntry<T> = {
+        body,
+        etag,
+        expiresAt: Date.now() + policy.ttlSeconds * 1000,
+      };
+      await this.kv!.put(key, JSON.stringify(entry), {
+        expirationTtl: Math.max(
+          MIN_KV_TTL_SECONDS,
+          policy.ttlSeconds * STALE_TTL_MULTIPLIER,
+        ),
+      });
+    } catch {
+      /** Cache write failure - response is still returned to the caller */
+    }
+  }
+
+  /**
+   * Delete all entries for a user in the given groups
+   *
+   * @param userKey - User partition key
+   * @param groups - Invalidation groups (e.g. ["calendars"])
+   */
+  async invalidate(userKey: string, groups: string[]): Promise<void> {
+    if (!this.kv) {
+      return;
+    }
+
+    try {
+      for (const group of groups) {
+        const listing = await this.kv.list({
+          prefix: `${KEY_PREFIX}:${userKey}:${group}:`,
+        });
+        await Promise.all(listing.keys.map((k) => this.kv!.delete(k.name)));
+      }
+    } catch {
+      /** Invalidation failure - entries expire after their KV TTL */
+    }
+  }
+
+  /**
+   * Build the KV key for a cached URL
+   * The URL is hashed because KV keys are limited to 512 bytes.
+   * @private
+   */
+  private async buildKey(
+    userKey: string,
+    relativeUrl: string,
+    policy: CachePolicy,
+  ): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(relativeUrl),
+    );
+    const hash = Array.from(new Uint8Array(digest))
+      .map((b) => b.toString(16).padStart(2, "0"))
+      .join("");
+    return `${KEY_PREFIX}:${userKey}:${policy.group}:${hash}`;
+  }
+}
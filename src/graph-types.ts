@@ -0,0 +1,329 @@
+/**
+ * Microsoft Graph Response Models - Typed shapes returned by MicrosoftGraphClient
+ *
+ * SCOPE:
+ * - Only the properties this server selects or relies on are declared
+ * - All properties beyond id are optional because $select, delta queries
+ *   and tenant configuration can omit them
+ *
+ * Property names match the Microsoft Graph v1.0 resource documentation.
+ */
+
+/** Collection envelope for list, paginated and delta responses */
+export interface GraphCollection<T> {
+  value: T[];
+  "@odata.nextLink"?: string;
+  "@odata.deltaLink"?: string;
+}
+
+/**
+ * One page of a list operation
+ * nextLink is the raw @odata.nextLink; it must not be shown to the model.
+ */
+export interface GraphPage<T> {
+  items: T[];
+  nextLink?: string;
+}
+
+// ============================================================================
+// SHARED TYPES
+// ============================================================================
+
+export interface GraphEmailAddress {
+  name?: string;
+  address?: string;
+}
+
+export interface GraphRecipient {
+  emailAddress: GraphEmailAddress;
+}
+
+export interface GraphItemBody {
+  contentType: "text" | "html";
+  content: string;
+}
+
+export interface GraphDateTimeTimeZone {
+  dateTime: string;
+  timeZone: string;
+}
+
+// ============================================================================
+// MAIL
+// ============================================================================
+
+export interface GraphMessage {
+  id: string;
+  subject?: string;
+  from?: GraphRecipient;
+  sender?: GraphRecipient;
+  toRecipients?: GraphRecipient[];
+  ccRecipients?: GraphRecipient[];
+  bccRecipients?: GraphRecipient[];
+  replyTo?: GraphRecipient[];
+  conversationId?: string;
+  internetMessageId?: string;
+  internetMessageHeaders?: GraphInternetMessageHeader[];
+  sentDateTime?: string;
+  receivedDateTime?: string;
+  bodyPreview?: string;
+  isRead?: boolean;
+  createdDateTime?: string;
+  lastModifiedDateTime?: string;
+  isDraft?: boolean;
+  importance?: "low" | "normal" | "high";
+  categories?: string[];
+  flag?: GraphFollowupFlag;
+  /** Focused Inbox classification */
+  inferenceClassification?: "focused" | "other";
+  hasAttachments?: boolean;
+  body?: GraphItemBody;
+  /** Body without quoted history, only the part new to this message */
+  uniqueBody?: GraphItemBody;
+  attachments?: GraphAttachment[];
+  /** Opens the message in Outlook on the web */
+  webLink?: string;
+}
+
+export interface GraphFollowupFlag {
+  flagStatus: "notFlagged" | "flagged" | "complete";
+  startDateTime?: GraphDateTimeTimeZone;
+  dueDateTime?: GraphDateTimeTimeZone;
+  completedDateTime?: GraphDateTimeTimeZone;
+}
+
+/** RFC 5322 header, only returned when explicitly selected */
+export interface GraphInternetMessageHeader {
+  name: string;
+  value: string;
+}
+
+/** Attachment metadata on a message or event (content omitted) */
+export interface GraphAttachment {
+  /** #microsoft.graph.fileAttachment, itemAttachment or referenceAttachment */
+  "@odata.type"?: string;
+  id: string;
+  name?: string;
+  contentType?: string;
+  size?: number;
+  isInline?: boolean;
+  lastModifiedDateTime?: string;
+  /** fileAttachment: base64 content */
+  contentBytes?: string;
+  contentId?: string;
+  /** itemAttachment: attached message or event, when expanded */
+  item?: (GraphMessage | GraphEvent) & { "@odata.type"?: string };
+  /** referenceAttachment: link to the file in OneDrive or SharePoint */
+  sourceUrl?: string;
+}
+
+export interface GraphMailFolder {
+  id: string;
+  displayName?: string;
+  parentFolderId?: string;
+  childFolderCount?: number;
+  unreadItemCount?: number;
+  totalItemCount?: number;
+  isHidden?: boolean;
+  /** Filled in by listMailFolders, not returned by Graph */
+  childFolders?: GraphMailFolder[];
+}
+
+/** Inbox rule; conditions and exceptions share the predicate type */
+export interface GraphMessageRule {
+  id: string;
+  displayName?: string;
+  /** Execution order, lowest first */
+  sequence?: number;
+  isEnabled?: boolean;
+  hasError?: boolean;
+  /** Rules created by other clients that Graph cannot change */
+  isReadOnly?: boolean;
+  conditions?: GraphMessageRulePredicates;
+  exceptions?: GraphMessageRulePredicates;
+  actions?: GraphMessageRuleActions;
+}
+
+/** Values within one predicate are OR'ed, predicates are AND'ed */
+export interface GraphMessageRulePredicates {
+  fromAddresses?: GraphRecipient[];
+  sentToAddresses?: GraphRecipient[];
+  senderContains?: string[];
+  recipientContains?: string[];
+  subjectContains?: string[];
+  bodyContains?: string[];
+  bodyOrSubjectContains?: string[];
+  headerContains?: string[];
+  sentToMe?: boolean;
+  sentOnlyToMe?: boolean;
+  sentCcMe?: boolean;
+  hasAttachments?: boolean;
+  importance?: "low" | "normal" | "high";
+}
+
+export interface GraphMessageRuleActions {
+  /** Folder id */
+  moveToFolder?: string;
+  /** Folder id */
+  copyToFolder?: string;
+  delete?: boolean;
+  permanentDelete?: boolean;
+  markAsRead?: boolean;
+  markImportance?: "low" | "normal" | "high";
+  assignCategories?: string[];
+  forwardTo?: GraphRecipient[];
+  redirectTo?: GraphRecipient[];
+  stopProcessingRules?: boolean;
+}
+
+/** Result of createUploadSession for large attachments */
+export interface GraphUploadSession {
+  uploadUrl: string;
+  expirationDateTime?: string;
+  nextExpectedRanges?: string[];
+}
+
+// ============================================================================
+// CALENDAR
+// ============================================================================
+
+export interface GraphAttendee extends GraphRecipient {
+  type?: "required" | "optional" | "resource";
+  status?: {
+    response?: string;
+    time?: string;
+  };
+}
+
+export interface GraphEvent {
+  id: string;
+  subject?: string;
+  start?: GraphDateTimeTimeZone;
+  end?: GraphDateTimeTimeZone;
+  attendees?: GraphAttendee[];
+  organizer?: GraphRecipient;
+  /** The signed-in user organizes the event */
+  isOrganizer?: boolean;
+  isCancelled?: boolean;
+  /** The signed-in user's response, e.g. "accepted" or "declined" */
+  responseStatus?: { response?: string; time?: string };
+  type?: "singleInstance" | "occurrence" | "exception" | "seriesMaster";
+  location?: { displayName?: string };
+  body?: GraphItemBody;
+  webLink?: string;
+  createdDateTime?: string;
+  lastModifiedDateTime?: string;
+}
+
+export interface GraphCalendar {
+  id: string;
+  name?: string;
+  color?: string;
+  canEdit?: boolean;
+  owner?: GraphEmailAddress;
+}
+
+// ============================================================================
+// TEAMS
+// ============================================================================
+
+export interface GraphTeam {
+  id: string;
+  displayName?: string;
+  description?: string;
+  webUrl?: string;
+}
+
+export interface GraphChatMessage {
+  id: string;
+  createdDateTime?: string;
+  webUrl?: string;
+  body?: GraphItemBody;
+}
+
+export interface GraphOnlineMeeting {
+  id: string;
+  subject?: string;
+  startDateTime?: string;
+  endDateTime?: string;
+  joinWebUrl?: string;
+}
+
+// ============================================================================
+// PEOPLE AND CONTACTS
+// ============================================================================
+
+/** Raw person resource from /me/people */
+export interface GraphPerson {
+  id: string;
+  displayName?: string;
+  scoredEmailAddresses?: { address?: string; displayName?: string }[];
+  phones?: { type?: string; number?: string }[];
+  personType?: { class?: string; subclass?: string };
+}
+
+/** Simplified contact returned by getContacts */
+export interface ContactSummary {
+  id: string;
+  displayName?: string;
+  emailAddresses: { address?: string; name?: string }[];
+  businessPhones: string[];
+  mobilePhone: string | null;
+  personType?: GraphPerson["personType"];
+}
+
+/** Personal contact resource from /me/contacts */
+export interface GraphContact {
+  id: string;
+  displayName?: string;
+  emailAddresses?: GraphEmailAddress[];
+  businessPhones?: string[];
+  mobilePhone?: string | null;
+  companyName?: string;
+  createdDateTime?: string;
+  lastModifiedDateTime?: string;
+}
+
+// ============================================================================
+// USER
+// ============================================================================
+
+export interface GraphUserProfile {
+  id: string;
+  displayName?: string;
+  mail?: string | null;
+  userPrincipalName?: string;
+  jobTitle?: string | null;
+  department?: string | null;
+  companyName?: string | null;
+}
+
+/** Mailbox settings; timeZone is a Windows or IANA time zone name */
+export interface GraphMailboxSettings {
+  timeZone?: string;
+  language?: { locale?: string; displayName?: string };
+  dateFormat?: string;
+  timeFormat?: string;
+  workingHours?: GraphWorkingHours;
+  automaticRepliesSetting?: GraphAutomaticRepliesSetting;
+}
+
+export interface GraphWorkingHours {
+  daysOfWeek?: string[];
+  /** Local time, e.g. "08:00:00.0000000" */
+  startTime?: string;
+  endTime?: string;
+  timeZone?: { name?: string };
+}
+
+export interface GraphAutomaticRepliesSetting {
+  status?: "disabled" | "alwaysEnabled" | "scheduled";
+  /** Who outside the organization receives externalReplyMessage */
+  externalAudience?: "none" | "contactsOnly" | "all";
+  /** HTML */
+  internalReplyMessage?: string;
+  /** HTML */
+  externalReplyMessage?: string;
+  scheduledStartDateTime?: GraphDateTimeTimeZone;
+  scheduledEndDateTime?: GraphDateTimeTimeZone;
+}
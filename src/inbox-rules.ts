@@ -0,0 +1,297 @@
+/**
+ * Inbox Rules - Typed rule input and local evaluation for previews
+ *
+ * SEMANTICS (as applied by Exchange):
+ * - Values within one predicate are OR'ed ("subject contains A or B")
+ * - Set predicates are AND'ed
+ * - A rule is skipped when any exception predicate matches
+ * - Boolean predicates only apply when true; false means "no condition"
+ *
+ * PREVIEW LIMITS:
+ * Previews evaluate recent messages locally. bodyContains only sees the
+ * first 255 characters (bodyPreview) and headerContains is not evaluated,
+ * so a preview can miss messages Exchange would match. Conditions made of
+ * unevaluated predicates only match no message, rather than every one.
+ */
+
+import {
+  GraphMessage,
+  GraphMessageRuleActions,
+  GraphMessageRulePredicates,
+  GraphRecipient,
+} from "./graph-types";
+import { toGraphRecipients } from "./recipients";
+
+/** Rule conditions or exceptions; addresses as "jane@contoso.com" */
+export interface InboxRuleConditions {
+  fromAddresses?: string[];
+  sentToAddresses?: string[];
+  senderContains?: string[];
+  recipientContains?: string[];
+  subjectContains?: string[];
+  bodyContains?: string[];
+  bodyOrSubjectContains?: string[];
+  headerContains?: string[];
+  sentToMe?: boolean;
+  sentOnlyToMe?: boolean;
+  sentCcMe?: boolean;
+  hasAttachments?: boolean;
+  importance?: "low" | "normal" | "high";
+}
+
+/** Rule actions; folders by well-known name, display name path or id */
+export interface InboxRuleActions {
+  moveToFolder?: string;
+  copyToFolder?: string;
+  delete?: boolean;
+  markAsRead?: boolean;
+  markImportance?: "low" | "normal" | "high";
+  assignCategories?: string[];
+  forwardTo?: string[];
+  redirectTo?: string[];
+  stopProcessingRules?: boolean;
+}
+
+/** Predicates a preview cannot evaluate from message metadata */
+export const UNEVALUATED_PREDICATES: (keyof GraphMessageRulePredicates)[] = [
+  "headerContains",
+];
+
+const TEXT_PREDICATES = [
+  "senderContains",
+  "recipientContains",
+  "subjectContains",
+  "bodyContains",
+  "bodyOrSubjectContains",
+  "headerContains",
+] as const;
+
+const FLAG_PREDICATES = [
+  "sentToMe",
+  "sentOnlyToMe",
+  "sentCcMe",
+  "hasAttachments",
+] as const;
+
+/**
+ * Convert typed conditions to Graph predicates
+ *
+ * @param conditions - Typed conditions or exceptions
+ * @param field - Parameter name used in error messages
+ * @returns Predicates with empty values omitted
+ * @throws Error if an address is not valid
+ */
+export function toGraphPredicates(
+  conditions: InboxRuleConditions,
+  field: string,
+): GraphMessageRulePredicates {
+  const predicates: GraphMessageRulePredicates = {};
+
+  for (const key of ["fromAddresses", "sentToAddresses"] as const) {
+    if (conditions[key]?.length) {
+      predicates[key] = toGraphRecipients(conditions[key], `${field}.${key}`);
+    }
+  }
+  for (const key of TEXT_PREDICATES) {
+    const values = (conditions[key] || []).filter((value) => value.trim());
+    if (values.length > 0) {
+      predicates[key] = values;
+    }
+  }
+  for (const key of FLAG_PREDICATES) {
+    if (conditions[key]) {
+      predicates[key] = true;
+    }
+  }
+  if (conditions.importance) {
+    predicates.importance = conditions.importance;
+  }
+  return predicates;
+}
+
+/**
+ * Convert typed actions to Graph actions
+ * Folder values are passed through; the caller resolves them to ids.
+ *
+ * @param actions - Typed actions
+ * @returns Graph actions with unset flags omitted
+ * @throws Error if a forwarding address is not valid
+ */
+export function toGraphRuleActions(
+  actions: InboxRuleActions,
+): GraphMessageRuleActions {
+  const result: GraphMessageRuleActions = {};
+
+  if (actions.moveToFolder) {
+    result.moveToFolder = actions.moveToFolder;
+  }
+  if (actions.copyToFolder) {
+    result.copyToFolder = actions.copyToFolder;
+  }
+  for (const key of ["delete", "markAsRead", "stopProcessingRules"] as const) {
+    if (actions[key]) {
+      result[key] = true;
+    }
+  }
+  if (actions.markImportance) {
+    result.markImportance = actions.markImportance;
+  }
+  if (actions.assignCategories?.length) {
+    result.assignCategories = actions.assignCategories;
+  }
+  for (const key of ["forwardTo", "redirectTo"] as const) {
+    if (actions[key]?.length) {
+      result[key] = toGraphRecipients(actions[key], `actions.${key}`);
+    }
+  }
+  return result;
+}
+
+/**
+ * Check whether predicates contain at least one condition
+ *
+ * @param predicates - Graph predicates
+ * @returns true if any predicate is set
+ */
+export function hasPredicates(
+  predicates: GraphMessageRulePredicates | undefined,
+): boolean {
+  return Object.values(predicates || {}).some((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined && value,
+  );
+}
+
+/**
+ * Check whether conditions can be evaluated locally
+ *
+ * @param predicates - Graph rule conditions
+ * @returns false if conditions are set but all are UNEVALUATED_PREDICATES
+ */
+export function canEvaluateConditions(
+  predicates: GraphMessageRulePredicates | undefined,
+): boolean {
+  const evaluable = Object.fromEntries(
+    Object.entries(predicates || {}).filter(
+      ([key]) =>
+        !UNEVALUATED_PREDICATES.includes(
+          key as keyof GraphMessageRulePredicates,
+        ),
+    ),
+  );
+  return hasPredicates(evaluable) || !hasPredicates(predicates);
+}
+
+/**
+ * Evaluate a rule against a message
+ *
+ * @param message - Message with from, recipients, subject and bodyPreview
+ * @param conditions - Rule conditions
+ * @param exceptions - Rule exceptions
+ * @param myAddresses - Lowercase addresses of the mailbox owner
+ * @returns true if the rule would run for the message; false if the
+ *          conditions cannot be evaluated, see canEvaluateConditions
+ */
+export function matchesRule(
+  message: GraphMessage,
+  conditions: GraphMessageRulePredicates | undefined,
+  exceptions: GraphMessageRulePredicates | undefined,
+  myAddresses: string[],
+): boolean {
+  if (!canEvaluateConditions(conditions)) {
+    return false;
+  }
+  const matched = evaluatePredicates(message, conditions || {}, myAddresses);
+  const excepted = evaluatePredicates(message, exceptions || {}, myAddresses);
+  return matched.every(Boolean) && !excepted.some(Boolean);
+}
+
+/**
+ * Result of each evaluable predicate that is set
+ * @private
+ */
+function evaluatePredicates(
+  message: GraphMessage,
+  predicates: GraphMessageRulePredicates,
+  myAddresses: string[],
+): boolean[] {
+  const from = message.from ? [message.from] : [];
+  const to = message.toRecipients || [];
+  const cc = message.ccRecipients || [];
+  const subject = message.subject || "";
+  const body = message.bodyPreview || "";
+  const results: boolean[] = [];
+
+  const check = (values: unknown, test: () => boolean) => {
+    if (Array.isArray(values) ? values.length > 0 : values) {
+      results.push(test());
+    }
+  };
+
+  check(predicates.fromAddresses, () =>
+    hasAddress(from, addresses(predicates.fromAddresses)),
+  );
+  check(predicates.sentToAddresses, () =>
+    hasAddress([...to, ...cc], addresses(predicates.sentToAddresses)),
+  );
+  check(predicates.senderContains, () =>
+    containsAny(recipientTexts(from), predicates.senderContains),
+  );
+  check(predicates.recipientContains, () =>
+    containsAny(recipientTexts([...to, ...cc]), predicates.recipientContains),
+  );
+  check(predicates.subjectContains, () =>
+    containsAny([subject], predicates.subjectContains),
+  );
+  check(predicates.bodyContains, () =>
+    containsAny([body], predicates.bodyContains),
+  );
+  check(predicates.bodyOrSubjectContains, () =>
+    containsAny([subject, body], predicates.bodyOrSubjectContains),
+  );
+  check(predicates.sentToMe, () => hasAddress(to, myAddresses));
+  check(
+    predicates.sentOnlyToMe,
+    () => to.length === 1 && cc.length === 0 && hasAddress(to, myAddresses),
+  );
+  check(predicates.sentCcMe, () => hasAddress(cc, myAddresses));
+  check(predicates.hasAttachments, () => !!message.hasAttachments);
+  check(
+    predicates.importance,
+    () => (message.importance || "normal") === predicates.importance,
+  );
+  return results;
+}
+
+/** @private */
+function addresses(recipients: GraphRecipient[] | undefined): string[] {
+  return (recipients || []).map((r) =>
+    (r.emailAddress.address || "").toLowerCase(),
+  );
+}
+
+/** @private */
+function hasAddress(recipients: GraphRecipient[], wanted: string[]): boolean {
+  return addresses(recipients).some((address) => wanted.includes(address));
+}
+
+/**
+ * Names and addresses, matched by the *Contains predicates
+ * @private
+ */
+function recipientTexts(recipients: GraphRecipient[]): string[] {
+  return recipients.flatMap((r) => [
+    r.emailAddress.name || "",
+    r.emailAddress.address || "",
+  ]);
+}
+
+/**
+ * Case-insensitive substring match of any value in any text
+ * @private
+ */
+function containsAny(texts: string[], values: string[] | undefined): boolean {
+  const haystack = texts.map((text) => text.toLowerCase());
+  return (values || []).some((value) =>
+    haystack.some((text) => text.includes(value.toLowerCase())),
+  );
+}
@@ -19,6 +19,8 @@
 import OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { MicrosoftMCPAgent } from "./microsoft-mcp-agent";
 import { MicrosoftHandler } from "./microsoft-handler";
+import { getAuthorityUrl, getCloudEndpoints } from "./national-clouds";
+import { getEnabledScopes, getScopeString } from "./scope-registry";
 
 /**
  * Export Durable Object class for Cloudflare Workers runtime registration
@@ -31,6 +33,24 @@ export interface Env {
   MICROSOFT_CLIENT_ID: string;
   MICROSOFT_TENANT_ID: string;
   GRAPH_API_VERSION: string;
+  /**
+   * National cloud selection: "global" (default), "usgov" (GCC High),
+   * "usgovdod" (DoD) or "china" (21Vianet). Switches Graph host,
+   * authority host and scope prefix together.
+   */
+  MICROSOFT_CLOUD?: string;
+  /**
+   * Delegated scopes not to request, space or comma separated
+   * (e.g. "People.Read.All Team.ReadBasic.All"). Tools needing them are
+   * hidden. See scope-registry.ts.
+   */
+  MICROSOFT_EXCLUDED_SCOPES?: string;
+  /**
+   * Hosts attachment https: URIs may be downloaded from, space or comma
+   * separated (e.g. "files.contoso.com"). Unset allows none; see
+   * attachments.ts.
+   */
+  ATTACHMENT_URL_HOSTS?: string;
 
   /** Cloudflare Workers deployment configuration */
   WORKER_DOMAIN: string /* Worker subdomain: "your-worker.your-subdomain.workers.dev" */;
@@ -86,7 +106,7 @@ async function exchangeMicrosoftTokens(
   env: Env,
   redirectUri: string,
 ): Promise<MicrosoftTokenResponse> {
-  const tokenUrl = `https://login.microsoftonline.com/${env.MICROSOFT_TENANT_ID}/oauth2/v2.0/token`;
+  const tokenUrl = getAuthorityUrl(env, "token");
 
   const params = new URLSearchParams({
     client_id: env.MICROSOFT_CLIENT_ID,
@@ -94,8 +114,7 @@ async function exchangeMicrosoftTokens(
     code: authorizationCode,
     redirect_uri: redirectUri,
     grant_type: "authorization_code",
-    scope:
-      "User.Read Mail.Read Mail.ReadWrite Mail.Send Calendars.Read Calendars.ReadWrite Contacts.Read Contacts.ReadWrite People.Read People.Read.All OnlineMeetings.ReadWrite ChannelMessage.Send Team.ReadBasic.All offline_access",
+    scope: getScopeString(env),
   });
 
   const response = await fetch(tokenUrl, {
@@ -131,15 +150,14 @@ async function refreshMicrosoftTokens(
   refreshToken: string,
   env: Env,
 ): Promise<MicrosoftTokenResponse> {
-  const tokenUrl = `https://login.microsoftonline.com/${env.MICROSOFT_TENANT_ID}/oauth2/v2.0/token`;
+  const tokenUrl = getAuthorityUrl(env, "token");
 
   const params = new URLSearchParams({
     client_id: env.MICROSOFT_CLIENT_ID,
     client_secret: env.MICROSOFT_CLIENT_SECRET,
     refresh_token: refreshToken,
     grant_type: "refresh_token",
-    scope:
-      "User.Read Mail.Read Mail.ReadWrite Mail.Send Calendars.Read Calendars.ReadWrite Contacts.Read Contacts.ReadWrite People.Read People.Read.All OnlineMeetings.ReadWrite ChannelMessage.Send Team.ReadBasic.All offline_access",
+    scope: getScopeString(env),
   });
 
   const response = await fetch(tokenUrl, {
@@ -496,22 +514,7 @@ function createOAuthProvider(env: Env) {
     disallowPublicClientRegistration: false,
 
     /** Microsoft Graph API permission scopes required for Microsoft 365 operations */
-    scopesSupported: [
-      "User.Read",
-      "Mail.Read",
-      "Mail.ReadWrite",
-      "Mail.Send",
-      "Calendars.Read",
-      "Calendars.ReadWrite",
-      "Contacts.Read",
-      "Contacts.ReadWrite",
-      "People.Read",
-      "People.Read.All",
-      "OnlineMeetings.ReadWrite",
-      "ChannelMessage.Send",
-      "Team.ReadBasic.All",
-      "offline_access",
-    ],
+    scopesSupported: getEnabledScopes(env),
 
     // Token exchange callback - integrates Microsoft tokens into OAuth flow
     tokenExchangeCallback: async (options: any) => {
@@ -700,6 +703,26 @@ export default {
   ): Promise<Response> => {
     const _url = new URL(request.url);
 
+    /**
+     * Cloud configuration validated before any OAuth or Graph traffic
+     * A typo in MICROSOFT_CLOUD would otherwise send tokens for one cloud
+     * to another cloud's Graph host and fail with confusing 401 errors.
+     */
+    try {
+      getCloudEndpoints(env);
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({
+          error: "server_error",
+          error_description: error.message,
+        }),
+        {
+          status: 500,
+          headers: { "Content-Type": "application/json" },
+        },
+      );
+    }
+
     /**
      * API Token Mode must be checked before OAuth Provider
      * to prevent authentication requirements on discovery requests
@@ -840,22 +863,7 @@ export default {
       disallowPublicClientRegistration: false,
 
       /** Complete set of Microsoft Graph API scopes for all supported operations */
-      scopesSupported: [
-        "User.Read",
-        "Mail.Read",
-        "Mail.ReadWrite",
-        "Mail.Send",
-        "Calendars.Read",
-        "Calendars.ReadWrite",
-        "Contacts.Read",
-        "Contacts.ReadWrite",
-        "People.Read",
-        "People.Read.All",
-        "OnlineMeetings.ReadWrite",
-        "ChannelMessage.Send",
-        "Team.ReadBasic.All",
-        "offline_access",
-      ],
+      scopesSupported: getEnabledScopes(env),
 
       /**
        * Token exchange callback - critical integration point
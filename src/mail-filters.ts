@@ -0,0 +1,140 @@
+/**
+ * Mail Filters - Translate typed getEmails arguments into OData queries
+ *
+ * GRAPH CONSTRAINTS:
+ * - String literals are single-quoted; embedded quotes are doubled
+ * - Dates are unquoted DateTimeOffset values in UTC
+ * - With $orderby, the ordered property must also appear in $filter and
+ *   come first, otherwise Graph rejects the query as InefficientFilter.
+ *   A receivedDateTime clause therefore always leads the filter.
+ *
+ * Values are validated here so malformed input fails before Graph is called.
+ */
+
+import { isValidEmailAddress } from "./recipients";
+
+/** Typed message filter; all conditions must match */
+export interface EmailFilter {
+  /** Sender address */
+  from?: string;
+  /** Address in To */
+  to?: string;
+  /** ISO 8601 date or date-time, inclusive */
+  receivedAfter?: string;
+  /** ISO 8601 date or date-time, exclusive */
+  receivedBefore?: string;
+  unreadOnly?: boolean;
+  hasAttachments?: boolean;
+  importance?: "low" | "normal" | "high";
+  flagged?: boolean;
+  category?: string;
+  /** Focused Inbox classification */
+  inferenceClassification?: "focused" | "other";
+}
+
+/** Sort order by received time */
+export type EmailOrder = "newest" | "oldest";
+
+/** Lower bound used when no receivedAfter is given, see GRAPH CONSTRAINTS */
+const EARLIEST_DATE = "1900-01-01T00:00:00Z";
+
+/**
+ * Build $filter and $orderby query parameters
+ *
+ * @param filter - Typed conditions
+ * @param order - Sort order (default: newest first)
+ * @returns Encoded "&$filter=...&$orderby=..." suffix
+ * @throws Error if an address or date is invalid
+ */
+export function buildEmailQuery(
+  filter: EmailFilter,
+  order: EmailOrder = "newest",
+): string {
+  const clauses = [
+    `receivedDateTime ge ${toODataDate(filter.receivedAfter, "receivedAfter") || EARLIEST_DATE}`,
+  ];
+
+  if (filter.receivedBefore) {
+    clauses.push(
+      `receivedDateTime lt ${toODataDate(filter.receivedBefore, "receivedBefore")}`,
+    );
+  }
+  if (filter.from) {
+    clauses.push(
+      `from/emailAddress/address eq ${toODataAddress(filter.from, "from")}`,
+    );
+  }
+  if (filter.to) {
+    clauses.push(
+      `toRecipients/any(r:r/emailAddress/address eq ${toODataAddress(filter.to, "to")})`,
+    );
+  }
+  if (filter.unreadOnly) {
+    clauses.push("isRead eq false");
+  }
+  if (filter.hasAttachments !== undefined) {
+    clauses.push(`hasAttachments eq ${filter.hasAttachments}`);
+  }
+  if (filter.importance) {
+    clauses.push(`importance eq '${filter.importance}'`);
+  }
+  if (filter.flagged !== undefined) {
+    clauses.push(
+      filter.flagged
+        ? "flag/flagStatus eq 'flagged'"
+        : "flag/flagStatus ne 'flagged'",
+    );
+  }
+  if (filter.category) {
+    clauses.push(
+      `categories/any(c:c eq ${escapeODataString(filter.category)})`,
+    );
+  }
+  if (filter.inferenceClassification) {
+    clauses.push(
+      `inferenceClassification eq '${filter.inferenceClassification}'`,
+    );
+  }
+
+  const orderBy = `receivedDateTime ${order === "oldest" ? "asc" : "desc"}`;
+  return `&$filter=${encodeURIComponent(clauses.join(" and "))}&$orderby=${encodeURIComponent(orderBy)}`;
+}
+
+/**
+ * Quote a string literal for OData
+ *
+ * @param value - Raw value
+ * @returns Single-quoted literal with embedded quotes doubled
+ */
+export function escapeODataString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/** @private */
+function toODataAddress(value: string, field: string): string {
+  const address = value.trim();
+  if (!isValidEmailAddress(address)) {
+    throw new Error(`Invalid email address in ${field}: "${value}"`);
+  }
+  return escapeODataString(address.toLowerCase());
+}
+
+/**
+ * Normalize a date to UTC; date-only values mean midnight UTC
+ * @private
+ */
+function toODataDate(
+  value: string | undefined,
+  field: string,
+): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(
+      `Invalid date in ${field}: "${value}". Use ISO 8601, e.g. 2024-06-01 or 2024-06-01T09:00:00Z`,
+    );
+  }
+  return new Date(time).toISOString().replace(/\.000Z$/, "Z");
+}
@@ -0,0 +1,96 @@
+/**
+ * Mbox Export - Assemble raw MIME messages into an mboxrd file
+ *
+ * FORMAT (mboxrd):
+ * - Each message starts with a "From <sender> <asctime date>" separator
+ * - Body lines matching /^>*From / get one more ">", so readers can
+ *   undo the quoting exactly
+ * - Line endings are LF and each message ends with an empty line
+ *
+ * Messages are handled as binary strings (one character per byte), so
+ * 8bit content passes through unchanged.
+ */
+
+import { bytesToBinary } from "./mime";
+
+/** MIME type of the assembled file */
+export const MBOX_MIME_TYPE = "application/mbox";
+
+/** Sender used in the separator line when the message has none */
+const UNKNOWN_SENDER = "MAILER-DAEMON";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/**
+ * Convert one MIME message to an mbox entry
+ *
+ * @param mime - Raw RFC 5322 message, e.g. from /messages/{id}/$value
+ * @param sender - Envelope sender address for the separator line
+ * @param date - Delivery date for the separator line
+ * @returns Separator, quoted message and trailing empty line
+ */
+export function toMboxEntry(
+  mime: Uint8Array,
+  sender: string | undefined,
+  date: Date,
+): Uint8Array {
+  const body = bytesToBinary(mime)
+    .replace(/\r\n/g, "\n")
+    .replace(/^(>*From )/gm, ">$1")
+    .replace(/\n*$/, "\n");
+  const from = (sender || UNKNOWN_SENDER).replace(/\s/g, "");
+  return binaryToBytes(`From ${from} ${toAsctime(date)}\n${body}\n`);
+}
+
+/**
+ * Concatenate mbox entries into one file
+ *
+ * @param entries - Entries from toMboxEntry, in file order
+ * @returns Complete mbox content
+ */
+export function joinMboxEntries(entries: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    entries.reduce((total, entry) => total + entry.byteLength, 0),
+  );
+  let offset = 0;
+  for (const entry of entries) {
+    result.set(entry, offset);
+    offset += entry.byteLength;
+  }
+  return result;
+}
+
+/**
+ * Format a date as ctime() output in UTC, e.g. "Mon Jan  1 09:05:00 2024"
+ * @private
+ */
+function toAsctime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const time = [date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+    .map(pad)
+    .join(":");
+  return `${WEEKDAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, " ")} ${time} ${date.getUTCFullYear()}`;
+}
+
+/** @private */
+function binaryToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
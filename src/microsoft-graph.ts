@@ -9,6 +9,7 @@
  * - Comprehensive error handling with permission guidance
  *
  * ERROR HANDLING:
+ * - All failures are thrown as GraphError with status, code and request-id
  * - Automatic token refresh via OAuth Provider
  * - Context-specific error messages with troubleshooting steps
  * - Permission mapping for Azure AD scope requirements
@@ -20,34 +21,403 @@
  */
 
 import { Env } from "./index";
+import {
+  AttachmentInput,
+  bytesToBase64,
+  getAttachmentUrlHosts,
+  INLINE_ATTACHMENT_LIMIT,
+  readBodyLimited,
+  ResolvedAttachment,
+  resolveAttachments,
+} from "./attachments";
+import { textToHtml } from "./email-content";
+import { CacheEntry, GraphCache } from "./graph-cache";
+import {
+  hasPredicates,
+  InboxRuleActions,
+  InboxRuleConditions,
+  matchesRule,
+  toGraphPredicates,
+  toGraphRuleActions,
+} from "./inbox-rules";
+import {
+  buildEmailQuery,
+  EmailFilter,
+  EmailOrder,
+  escapeODataString,
+} from "./mail-filters";
+import { joinMboxEntries, toMboxEntry } from "./mbox";
+import { getCloudEndpoints } from "./national-clouds";
+import { toGraphRecipients } from "./recipients";
+import { getEnabledScopes, getEndpointScopes } from "./scope-registry";
+import {
+  ResolvedTimeZone,
+  resolveTimeZone,
+  shiftDateTime,
+  toZonedDateTime,
+} from "./time-zones";
+import {
+  GraphCallDiagnostics,
+  getThrottleHeaders,
+  logEvent,
+  TraceContext,
+} from "./tracing";
+import { getTokenObjectId } from "./utils";
+import {
+  ContactSummary,
+  GraphAttachment,
+  GraphAutomaticRepliesSetting,
+  GraphCalendar,
+  GraphChatMessage,
+  GraphCollection,
+  GraphContact,
+  GraphEvent,
+  GraphFollowupFlag,
+  GraphMailboxSettings,
+  GraphMailFolder,
+  GraphMessage,
+  GraphMessageRule,
+  GraphOnlineMeeting,
+  GraphPage,
+  GraphPerson,
+  GraphRecipient,
+  GraphTeam,
+  GraphUploadSession,
+  GraphUserProfile,
+} from "./graph-types";
 
-export interface EmailParams {
-  to: string;
+/**
+ * Outgoing email
+ * Recipients accept bare addresses or "Name <address>"; a single string
+ * for to is treated as one recipient.
+ */
+export interface EmailParams extends MailboxParams {
+  to: string | string[];
+  cc?: string[];
+  bcc?: string[];
+  /** Addresses replies should go to instead of the sender */
+  replyTo?: string[];
   subject: string;
   body: string;
   contentType?: "text" | "html";
+  importance?: "low" | "normal" | "high";
+  requestReadReceipt?: boolean;
+  requestDeliveryReceipt?: boolean;
+  /** Keep a copy in Sent Items (default true) */
+  saveToSentItems?: boolean;
+  attachments?: AttachmentInput[];
+  /**
+   * With mailbox: send from the user's mailbox on behalf of the shared
+   * mailbox instead of as the shared mailbox itself
+   */
+  onBehalf?: boolean;
+}
+
+/**
+ * Mailbox an operation targets
+ * Omitted for the signed-in user's mailbox (/me); otherwise the address
+ * of an allow-listed shared mailbox (/users/{address}).
+ */
+export interface MailboxParams {
+  mailbox?: string;
 }
 
-export interface EmailSearchParams {
+/**
+ * List parameters shared by paginated operations
+ * nextLink continues a previous page; the other parameters are then
+ * ignored because Graph encodes them in the link.
+ */
+export interface PageParams {
+  nextLink?: string;
+}
+
+export interface EmailSearchParams extends PageParams, MailboxParams {
   query: string;
   count?: number;
 }
 
-export interface EmailListParams {
+export interface EmailGetParams extends MailboxParams {
+  messageId: string;
+  /** Also select internetMessageHeaders (Received, DKIM, List-Unsubscribe, ...) */
+  includeHeaders?: boolean;
+}
+
+/** Thread lookup - exactly one of messageId or conversationId */
+export interface ConversationParams extends MailboxParams {
+  messageId?: string;
+  conversationId?: string;
+}
+
+/**
+ * Message or event that owns an attachment
+ * mailbox applies to messages only; shared calendars are not supported.
+ */
+export interface AttachmentParentParams extends MailboxParams {
+  parentType: "message" | "event";
+  parentId: string;
+}
+
+export interface AttachmentGetParams extends AttachmentParentParams {
+  attachmentId: string;
+}
+
+/** Messages to export; without folder, all folders are searched */
+export interface EmailExportParams extends MailboxParams {
+  folder?: MailFolderRef;
+  /** ISO 8601 date or date-time, inclusive */
+  receivedAfter?: string;
+  /** ISO 8601 date or date-time, exclusive */
+  receivedBefore?: string;
+  maxMessages?: number;
+}
+
+/** Message left out of an export because it exceeds MAX_EXPORT_SIZE alone */
+export interface SkippedExport {
+  id: string;
+  subject?: string;
+}
+
+/**
+ * Assembled mbox export, oldest message first
+ *
+ * nextReceivedAfter is set when more messages match than were exported;
+ * passing it as receivedAfter continues with the first message left out.
+ * Messages received at that same time are left out too, so a resumed
+ * export does not repeat them.
+ */
+export interface EmailExport {
+  mbox: Uint8Array;
+  exported: number;
+  skipped: SkippedExport[];
+  nextReceivedAfter?: string;
+}
+
+/** Export progress after each downloaded message, skipped ones included */
+export interface ExportProgress {
+  processed: number;
+  total: number;
+}
+
+export type ExportProgressCallback = (
+  progress: ExportProgress,
+) => void | Promise<void>;
+
+/**
+ * Mail folder reference accepted by folder operations
+ * A well-known name ("inbox", "sent"), a display name path such as
+ * "Projects/Alpha", or a folder id.
+ */
+export type MailFolderRef = string;
+
+export interface MailFolderCreateParams extends MailboxParams {
+  displayName: string;
+  /** Parent folder; the mailbox root when omitted */
+  parentFolder?: MailFolderRef;
+}
+
+export interface EmailMoveParams extends MailboxParams {
+  messageIds: string[];
+  destinationFolder: MailFolderRef;
+}
+
+/**
+ * Outcome for one message of a bulk operation
+ * Move and copy return newMessageId because the message id changes.
+ */
+export interface MessageActionResult {
+  messageId: string;
+  success: boolean;
+  newMessageId?: string;
+  error?: string;
+}
+
+/** New inbox rule; conditions and actions need at least one entry each */
+export interface InboxRuleParams {
+  displayName: string;
+  conditions: InboxRuleConditions;
+  actions: InboxRuleActions;
+  exceptions?: InboxRuleConditions;
+  /** Execution order, appended after existing rules if omitted */
+  sequence?: number;
+  isEnabled?: boolean;
+}
+
+/** Rule changes; omitted fields are left unchanged */
+export interface InboxRuleUpdateParams extends Partial<InboxRuleParams> {
+  ruleId: string;
+}
+
+/**
+ * Automatic replies (out of office)
+ * Omitted messages and audience are left unchanged.
+ */
+export interface AutomaticRepliesParams {
+  status: "disabled" | "alwaysEnabled" | "scheduled";
+  /** Text or HTML sent to senders in the organization */
+  internalMessage?: string;
+  /** Text or HTML sent to external senders */
+  externalMessage?: string;
+  externalAudience?: "none" | "contactsOnly" | "all";
+  /**
+   * ISO 8601 window, required when scheduled; local time in timeZone
+   * unless an offset or "Z" is given
+   */
+  startDateTime?: string;
+  endDateTime?: string;
+  /** IANA or Windows zone of the window (default: mailbox time zone) */
+  timeZone?: string;
+}
+
+/** Mailbox settings changes; omitted fields are left unchanged */
+export interface MailboxSettingsUpdateParams {
+  timeZone?: string;
+  /** Locale, e.g. "en-US" */
+  language?: string;
+  dateFormat?: string;
+  timeFormat?: string;
+  workingHours?: {
+    daysOfWeek?: string[];
+    /** "HH:mm" or "HH:mm:ss" */
+    startTime?: string;
+    endTime?: string;
+    timeZone?: string;
+  };
+}
+
+/**
+ * Triage changes applied to every listed message
+ * Omitted fields are left unchanged; at least one change is required.
+ */
+export interface EmailUpdateParams extends MailboxParams {
+  messageIds: string[];
+  isRead?: boolean;
+  flag?: {
+    status: "notFlagged" | "flagged" | "complete";
+    /** Due date (ISO 8601); start defaults to the due date */
+    dueDateTime?: string;
+    /** Start date (ISO 8601); only together with dueDateTime */
+    startDateTime?: string;
+    /** IANA or Windows zone of the dates (default: mailbox time zone) */
+    timeZone?: string;
+  };
+  addCategories?: string[];
+  removeCategories?: string[];
+  importance?: "low" | "normal" | "high";
+}
+
+export interface EmailListParams extends PageParams, MailboxParams {
   count?: number;
   folder?: string;
+  filter?: EmailFilter;
+  order?: EmailOrder;
+}
+
+/**
+ * Reply or reply-all to an existing message
+ * to/cc add recipients on top of those Graph derives from the original.
+ */
+export interface ReplyParams extends MailboxParams {
+  messageId: string;
+  /** Text or HTML placed above the quoted original */
+  comment?: string;
+  to?: string[];
+  cc?: string[];
+}
+
+export interface ForwardParams extends MailboxParams {
+  messageId: string;
+  to: string[];
+  cc?: string[];
+  /** Text or HTML placed above the quoted original */
+  comment?: string;
+}
+
+/**
+ * New draft message
+ * With replyToMessageId the draft is created as a reply (or reply-all)
+ * and Graph fills in subject, recipients and the quoted original; body
+ * then becomes the comment above the quote and to/cc/bcc are added to
+ * the derived recipients. The comment is sent as text or HTML without
+ * contentType, because a message body would replace the quote.
+ */
+export interface DraftParams extends MailboxParams {
+  subject?: string;
+  body?: string;
+  contentType?: "text" | "html";
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
+  attachments?: AttachmentInput[];
+  replyToMessageId?: string;
+  replyAll?: boolean;
+}
+
+/**
+ * Changes to an existing draft
+ * Omitted fields are left unchanged; recipient lists replace the current ones.
+ */
+export interface DraftUpdateParams extends MailboxParams {
+  draftId: string;
+  subject?: string;
+  body?: string;
+  contentType?: "text" | "html";
+  to?: string[];
+  cc?: string[];
+  bcc?: string[];
 }
 
 export interface CalendarEventParams {
   subject: string;
+  /** ISO 8601; without an offset, local time in timeZone */
   start: string;
   end: string;
+  /** IANA or Windows zone name (default: mailbox time zone) */
+  timeZone?: string;
   attendees?: string[];
   body?: string;
+  attachments?: AttachmentInput[];
+}
+
+/** Changes to an event; omitted fields are kept */
+export interface CalendarEventUpdateParams {
+  eventId: string;
+  subject?: string;
+  /** ISO 8601; without end, the current duration is kept */
+  start?: string;
+  end?: string;
+  /** IANA or Windows zone of start and end (default: mailbox time zone) */
+  timeZone?: string;
+  location?: string;
+  body?: string;
+  addAttendees?: string[];
+  removeAttendees?: string[];
+}
+
+/**
+ * Attachment upload progress for one operation
+ * Byte counts cover all attachments of the operation, so progress
+ * only ever increases while several files are uploaded.
+ */
+export interface UploadProgress {
+  /** Name of the attachment currently being uploaded */
+  attachment: string;
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+export type UploadProgressCallback = (
+  progress: UploadProgress,
+) => void | Promise<void>;
+
+/** Zone a calendar call uses; fallback says why UTC replaced the mailbox zone */
+export interface CalendarTimeZone extends ResolvedTimeZone {
+  fallback?: string;
 }
 
-export interface CalendarListParams {
+export interface CalendarListParams extends PageParams {
   days?: number;
+  /** IANA or Windows zone of returned times (default: mailbox time zone) */
+  timeZone?: string;
 }
 
 export interface TeamsMessageParams {
@@ -63,9 +433,261 @@ export interface TeamsMeetingParams {
   attendees?: string[];
 }
 
-export interface ContactsParams {
+export interface ContactsParams extends PageParams {
   count?: number;
   search?: string;
+  /** Skip the CACHE_KV lookup and fetch directly from Graph */
+  bypassCache?: boolean;
+}
+
+/**
+ * Per-request options for makeGraphRequest
+ *
+ * headers are merged over the defaults (e.g. If-None-Match).
+ * onResponse receives the final successful or 304 response, giving
+ * callers access to headers such as ETag without changing the return type.
+ * responseType selects how a successful body is read: "json" (default)
+ * parses JSON and yields {} for other content types, "text" returns the
+ * body as a string and "bytes" as a Uint8Array, e.g. MIME from $value.
+ * maxBytes caps "bytes" bodies: the download is aborted at the limit and
+ * the request yields undefined.
+ */
+interface GraphRequestOptions {
+  headers?: Record<string, string>;
+  onResponse?: (response: Response) => void;
+  responseType?: "json" | "text" | "bytes";
+  maxBytes?: number;
+}
+
+/**
+ * Single request inside a JSON $batch payload
+ *
+ * url is relative to the Graph version root (e.g. "/me/calendars").
+ * dependsOn lists ids that must complete successfully first.
+ */
+export interface BatchRequestItem {
+  id: string;
+  method: string;
+  url: string;
+  body?: any;
+  headers?: Record<string, string>;
+  dependsOn?: string[];
+}
+
+/**
+ * Result of a single $batch sub-request mapped back to its caller
+ *
+ * error carries the same GraphError a standalone request would have
+ * thrown, so callers can surface it unchanged.
+ */
+export interface BatchResponseItem<T = any> {
+  id: string;
+  status: number;
+  body?: T;
+  headers?: Record<string, string>;
+  error?: GraphError;
+}
+
+/**
+ * Delta query parameters
+ *
+ * link resumes a previous sync: either the @odata.deltaLink of a
+ * completed round or the @odata.nextLink (skip token) of an unfinished one.
+ * Omit it to start a new initial sync.
+ */
+/** mailbox applies to email sync only */
+export interface DeltaSyncParams extends MailboxParams {
+  link?: string;
+  folder?: string;
+  days?: number;
+  maxPages?: number;
+}
+
+/**
+ * Changes returned by a delta query
+ *
+ * Exactly one of deltaLink (round complete) or nextLink (more pages
+ * pending) is set when Graph returns a well-formed response.
+ */
+export interface DeltaSyncResult<T = any> {
+  changed: T[];
+  removed: string[];
+  deltaLink?: string;
+  nextLink?: string;
+}
+
+/** Profile, mailbox settings, calendars and joined teams in one $batch */
+export interface ResourceSnapshot {
+  profile: BatchResponseItem<GraphUserProfile>;
+  mailboxSettings: BatchResponseItem<GraphMailboxSettings>;
+  calendars: BatchResponseItem<GraphCalendar[]>;
+  teams: BatchResponseItem<GraphTeam[]>;
+}
+
+/** Relative Graph paths shared by single requests and $batch sub-requests */
+const PROFILE_PATH =
+  "/me?$select=id,displayName,mail,userPrincipalName,jobTitle,department,companyName";
+const MAILBOX_SETTINGS_PATH = "/me/mailboxSettings";
+const CALENDARS_PATH = "/me/calendars?$select=id,name,color,canEdit,owner";
+const JOINED_TEAMS_PATH =
+  "/me/joinedTeams?$select=id,displayName,description,webUrl";
+
+/** Microsoft Graph rejects $batch payloads with more than 20 requests */
+const MAX_BATCH_SIZE = 20;
+
+/**
+ * Well-known mail folder names Graph accepts in place of folder ids
+ * https://learn.microsoft.com/graph/api/resources/mailfolder
+ */
+const WELL_KNOWN_FOLDERS = [
+  "archive",
+  "clutter",
+  "conversationhistory",
+  "deleteditems",
+  "drafts",
+  "inbox",
+  "junkemail",
+  "msgfolderroot",
+  "outbox",
+  "scheduled",
+  "sentitems",
+];
+
+/** Common folder names that differ from the well-known name */
+const FOLDER_ALIASES: Record<string, string> = {
+  sent: "sentitems",
+  "sent items": "sentitems",
+  deleted: "deleteditems",
+  "deleted items": "deleteditems",
+  trash: "deleteditems",
+  junk: "junkemail",
+  "junk email": "junkemail",
+  spam: "junkemail",
+};
+
+/** Folder ids are long base64url strings; display names rarely are */
+const FOLDER_ID_PATTERN = /^[A-Za-z0-9_=+-]{60,}$/;
+
+/** Nesting depth listMailFolders follows below the top level */
+const MAX_FOLDER_DEPTH = 5;
+
+/** Recent Inbox messages an inbox rule preview is evaluated against */
+const RULE_PREVIEW_SIZE = 100;
+
+const INBOX_RULES_PATH = "/me/mailFolders/inbox/messageRules";
+
+/** Largest getEmails page; further results are reached via nextLink */
+export const MAX_EMAIL_PAGE_SIZE = 250;
+
+/** Largest MIME message or mbox file returned by the export tools */
+export const MAX_EXPORT_SIZE = 10 * 1024 * 1024;
+
+/** Most messages one mbox export downloads */
+export const MAX_EXPORT_MESSAGES = 500;
+
+/**
+ * Upload session chunk size
+ * Graph requires multiples of 320 KiB and rejects chunks of 4 MB or more.
+ */
+const UPLOAD_CHUNK_SIZE = 10 * 320 * 1024;
+
+/**
+ * Retry policy for throttled and transient Graph failures
+ *
+ * - MAX_RETRIES: Retries after the initial attempt
+ * - RETRY_BASE_DELAY_MS: First backoff step, doubled on every retry
+ * - RETRY_MAX_DELAY_MS: Upper bound for a single wait, including Retry-After
+ */
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+
+/** Statuses Microsoft Graph documents as transient */
+const RETRYABLE_STATUSES = [429, 503, 504];
+
+/**
+ * Methods that can be replayed after an ambiguous failure
+ * PATCH is included because Graph PATCH sets the supplied properties,
+ * so applying it twice yields the same resource state
+ */
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "PATCH", "DELETE"];
+
+/**
+ * Structured Microsoft Graph failure
+ *
+ * Thrown by every MicrosoftGraphClient operation. message keeps the
+ * context-specific, human-readable guidance; the remaining fields let
+ * callers distinguish a missing scope from throttling or a missing item.
+ *
+ * FIELDS:
+ * - status: HTTP status, 0 for network failures
+ * - code: Graph error code (e.g. "ErrorAccessDenied", "itemNotFound")
+ * - requestId: Graph request-id for Microsoft support cases
+ * - requiredScopes / adminConsentScopes: From the scope registry (scope-registry.ts)
+ * - retryable: Transient failure that may succeed if attempted later
+ * - retryAfterSeconds / attempts: Retry metadata from makeGraphRequest
+ * - clientRequestId / agsDiagnostic / durationMs / throttle: Diagnostics
+ *   of the final attempt (see tracing.ts)
+ */
+export class GraphError extends Error implements GraphCallDiagnostics {
+  readonly status: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly clientRequestId?: string;
+  readonly agsDiagnostic?: string;
+  readonly durationMs?: number;
+  readonly throttle?: Record<string, string>;
+  readonly requiredScopes: string[];
+  readonly adminConsentScopes: string[];
+  readonly retryable: boolean;
+  readonly retryAfterSeconds?: number;
+  readonly attempts: number;
+
+  constructor(
+    message: string,
+    details: GraphCallDiagnostics & {
+      status: number;
+      code?: string;
+      requiredScopes?: string[];
+      adminConsentScopes?: string[];
+      retryAfterSeconds?: number;
+      attempts?: number;
+    },
+  ) {
+    super(message);
+    this.name = "GraphError";
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.clientRequestId = details.clientRequestId;
+    this.agsDiagnostic = details.agsDiagnostic;
+    this.durationMs = details.durationMs;
+    this.throttle = details.throttle;
+    this.requiredScopes = details.requiredScopes || [];
+    this.adminConsentScopes = details.adminConsentScopes || [];
+    this.retryable =
+      details.status === 0 || RETRYABLE_STATUSES.includes(details.status);
+    this.retryAfterSeconds = details.retryAfterSeconds;
+    this.attempts = details.attempts || 1;
+  }
+
+  /** Machine-readable representation for tool error results */
+  toJSON() {
+    return {
+      status: this.status,
+      code: this.code,
+      requestId: this.requestId,
+      clientRequestId: this.clientRequestId,
+      agsDiagnostic: this.agsDiagnostic,
+      durationMs: this.durationMs,
+      throttle: this.throttle,
+      requiredScopes: this.requiredScopes,
+      adminConsentScopes: this.adminConsentScopes,
+      retryable: this.retryable,
+      retryAfterSeconds: this.retryAfterSeconds,
+      attempts: this.attempts,
+    };
+  }
 }
 
 /**
@@ -77,261 +699,3149 @@ export interface ContactsParams {
 export class MicrosoftGraphClient {
   private env: Env;
   private baseUrl: string;
+  private cache: GraphCache;
+  private trace?: TraceContext;
 
   /**
    * Initializes Microsoft Graph API client
    *
    * @param env - Cloudflare Worker environment containing Graph API configuration
+   * @param trace - Correlation context sent with every request (see withTrace)
+   * @throws Error if MICROSOFT_CLOUD names an unsupported cloud
    */
-  constructor(env: Env) {
+  constructor(env: Env, trace?: TraceContext) {
     this.env = env;
-    this.baseUrl = `https://graph.microsoft.com/${env.GRAPH_API_VERSION}`;
+    this.trace = trace;
+    this.baseUrl = `${getCloudEndpoints(env).graphHost}/${env.GRAPH_API_VERSION}`;
+    this.cache = new GraphCache(env.CACHE_KV);
+  }
+
+  /**
+   * Create a client bound to one MCP request
+   *
+   * All Graph calls made through the returned client carry the trace's
+   * correlation ID as client-request-id and are logged under it.
+   *
+   * @param trace - Trace context of the tool call or resource read
+   * @returns New client sharing this client's configuration
+   */
+  withTrace(trace: TraceContext): MicrosoftGraphClient {
+    return new MicrosoftGraphClient(this.env, trace);
   }
 
   // ============================================================================
   // EMAIL OPERATIONS
   // ============================================================================
-  async sendEmail(accessToken: string, params: EmailParams): Promise<any> {
-    const url = `${this.baseUrl}/me/sendMail`;
+  /**
+   * Send an email, optionally with attachments
+   *
+   * SHARED MAILBOXES:
+   * - mailbox: sent as the mailbox from /users/{mailbox}, saved to its
+   *   Sent Items (Exchange Send As permission)
+   * - mailbox with onBehalf: sent from /me with from set to the mailbox,
+   *   shown as "on behalf of" (Exchange Send on Behalf permission)
+   *
+   * ATTACHMENT STRATEGY:
+   * - Up to 3 MB in total: single /sendMail call with inline attachments
+   * - Larger: create a draft, add attachments (upload sessions for files
+   *   over 3 MB), then send the draft. The draft is deleted if any
+   *   upload fails so nothing half-attached is left in Drafts.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Recipient, content and attachments
+   * @param onProgress - Called after each uploaded chunk or attachment
+   */
+  async sendEmail(
+    accessToken: string,
+    params: EmailParams,
+    onProgress?: UploadProgressCallback,
+  ): Promise<void> {
+    const message = this.buildEmailMessage(params);
+    const saveToSentItems = params.saveToSentItems ?? true;
+    const root = params.onBehalf ? "/me" : this.getMailboxPath(params.mailbox);
+    if (params.onBehalf && params.mailbox) {
+      message.from = { emailAddress: { address: params.mailbox } };
+    }
+    const attachments = await resolveAttachments(
+      params.attachments,
+      getAttachmentUrlHosts(this.env),
+    );
 
-    const body = {
-      message: {
-        subject: params.subject,
-        body: {
-          contentType: params.contentType === "text" ? "text" : "html",
-          content: params.body,
-        },
-        toRecipients: [
-          {
-            emailAddress: { address: params.to },
-          },
-        ],
+    const totalBytes = attachments.reduce((sum, a) => sum + a.bytes.length, 0);
+    if (totalBytes <= INLINE_ATTACHMENT_LIMIT) {
+      if (attachments.length > 0) {
+        message.attachments = attachments.map((a) => this.toFileAttachment(a));
+      }
+
+      await this.makeGraphRequest(
+        accessToken,
+        `${this.baseUrl}${root}/sendMail`,
+        "POST",
+        { message, saveToSentItems },
+      );
+    } else {
+      if (!saveToSentItems) {
+        /** /send has no saveToSentItems flag; PidTagDeleteAfterSubmit does the same */
+        message.singleValueExtendedProperties = [
+          { id: "Boolean 0x0E01", value: "true" },
+        ];
+      }
+
+      const draft = await this.makeGraphRequest<GraphMessage>(
+        accessToken,
+        `${this.baseUrl}${root}/messages`,
+        "POST",
+        message,
+      );
+
+      try {
+        await this.addAttachments(
+          accessToken,
+          `${root}/messages/${draft.id}`,
+          attachments,
+          onProgress,
+        );
+        await this.makeGraphRequest(
+          accessToken,
+          `${this.baseUrl}${root}/messages/${draft.id}/send`,
+          "POST",
+        );
+      } catch (error) {
+        await this.makeGraphRequest(
+          accessToken,
+          `${this.baseUrl}${root}/messages/${draft.id}`,
+          "DELETE",
+        ).catch(() => {
+          /** Cleanup failure - the original error is more useful */
+        });
+        throw error;
+      }
+    }
+
+    /** Sending mail changes the relevance ranking behind /me/people */
+    await this.invalidateCache(accessToken, ["people"]);
+  }
+
+  /**
+   * Map EmailParams to a Graph message resource
+   *
+   * @throws Error if any recipient address is invalid, before Graph is called
+   * @private
+   */
+  private buildEmailMessage(params: EmailParams): Record<string, any> {
+    const toRecipients = toGraphRecipients(params.to, "to");
+    if (toRecipients.length === 0) {
+      throw new Error("At least one recipient is required in to");
+    }
+
+    const message: Record<string, any> = {
+      subject: params.subject,
+      body: {
+        contentType: params.contentType === "text" ? "text" : "html",
+        content: params.body,
       },
+      toRecipients,
+      ccRecipients: toGraphRecipients(params.cc, "cc"),
+      bccRecipients: toGraphRecipients(params.bcc, "bcc"),
+      replyTo: toGraphRecipients(params.replyTo, "replyTo"),
     };
 
-    const response = await this.makeGraphRequest(
+    if (params.importance) {
+      message.importance = params.importance;
+    }
+    if (params.requestReadReceipt) {
+      message.isReadReceiptRequested = true;
+    }
+    if (params.requestDeliveryReceipt) {
+      message.isDeliveryReceiptRequested = true;
+    }
+    return message;
+  }
+
+  /**
+   * List messages of a folder, newest first unless order is "oldest"
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Folder, page size, typed filter and sort order
+   * @returns One page of messages with nextLink when more match
+   * @throws Error if a filter address or date is invalid
+   */
+  async getEmails(
+    accessToken: string,
+    params: EmailListParams,
+  ): Promise<GraphPage<GraphMessage>> {
+    let initialUrl = "";
+    if (!params.nextLink) {
+      const query = buildEmailQuery(params.filter || {}, params.order);
+      const folder = await this.resolveMailFolderId(
+        accessToken,
+        params.folder || "inbox",
+        params.mailbox,
+      );
+      const count = Math.min(params.count || 10, MAX_EMAIL_PAGE_SIZE);
+      initialUrl = `${this.baseUrl}${this.getMailboxPath(params.mailbox)}/mailFolders/${encodeURIComponent(folder)}/messages?$top=${count}&$select=id,subject,from,toRecipients,receivedDateTime,bodyPreview,isRead,hasAttachments,importance,flag,categories,inferenceClassification${query}`;
+    }
+    const url = this.resolvePageUrl(params.nextLink, initialUrl);
+
+    const response = await this.makeGraphRequest<GraphCollection<GraphMessage>>(
       accessToken,
       url,
-      "POST",
-      body,
+      "GET",
     );
-    return response;
+    return this.toPage(response);
   }
 
-  async getEmails(accessToken: string, params: EmailListParams): Promise<any> {
-    const folder = params.folder || "inbox";
-    const count = Math.min(params.count || 10, 50);
-    const url = `${this.baseUrl}/me/mailFolders/${folder}/messages?$top=${count}&$select=id,subject,from,receivedDateTime,bodyPreview,isRead`;
+  /**
+   * Get one message with its full body, recipients and attachment list
+   * Attachment content is not expanded, only metadata.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Message id and whether to include internet headers
+   * @returns Message with body and attachments metadata
+   */
+  async getEmail(
+    accessToken: string,
+    params: EmailGetParams,
+  ): Promise<GraphMessage> {
+    const select = [
+      "id",
+      "subject",
+      "from",
+      "sender",
+      "toRecipients",
+      "ccRecipients",
+      "bccRecipients",
+      "replyTo",
+      "sentDateTime",
+      "receivedDateTime",
+      "conversationId",
+      "internetMessageId",
+      "importance",
+      "isRead",
+      "isDraft",
+      "hasAttachments",
+      "body",
+      "webLink",
+      ...(params.includeHeaders ? ["internetMessageHeaders"] : []),
+    ];
 
-    const response = await this.makeGraphRequest(accessToken, url, "GET");
-    return response.value || [];
+    return this.makeGraphRequest<GraphMessage>(
+      accessToken,
+      `${this.baseUrl}${this.getMailboxPath(params.mailbox)}/messages/${encodeURIComponent(params.messageId)}?$select=${select.join(",")}&$expand=attachments($select=id,name,contentType,size,isInline)`,
+      "GET",
+    );
+  }
+
+  /**
+   * Get every message of a conversation across all folders
+   *
+   * FLOW:
+   * 1. Resolve the conversation id from messageId when needed
+   * 2. Query /me/messages, which spans Inbox, Sent Items and custom folders
+   * 3. Drop drafts and copies of the same message (same internetMessageId,
+   *    e.g. after copyEmails), then sort by sent time, oldest first
+   *
+   * Sorting happens here because Graph rejects $orderby combined with a
+   * conversationId filter in some mailboxes (InefficientFilter).
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Message id or conversation id
+   * @returns Messages with uniqueBody and body, chronological
+   * @throws Error unless exactly one of messageId or conversationId is set
+   */
+  async getConversation(
+    accessToken: string,
+    params: ConversationParams,
+  ): Promise<GraphMessage[]> {
+    if (!params.messageId === !params.conversationId) {
+      throw new Error("Provide exactly one of messageId or conversationId");
+    }
+
+    const root = this.getMailboxPath(params.mailbox);
+    let conversationId = params.conversationId;
+    if (!conversationId) {
+      const message = await this.makeGraphRequest<GraphMessage>(
+        accessToken,
+        `${this.baseUrl}${root}/messages/${encodeURIComponent(params.messageId || "")}?$select=conversationId`,
+        "GET",
+      );
+      conversationId = message.conversationId;
+    }
+    if (!conversationId) {
+      throw new Error("Message has no conversation id");
+    }
+
+    const filter = encodeURIComponent(
+      `conversationId eq ${escapeODataString(conversationId)}`,
+    );
+    const messages = await this.getAllPages<GraphMessage>(
+      accessToken,
+      `${this.baseUrl}${root}/messages?$filter=${filter}&$top=50&$select=id,subject,from,toRecipients,ccRecipients,sentDateTime,receivedDateTime,conversationId,internetMessageId,isDraft,hasAttachments,uniqueBody,body`,
+    );
+
+    const seen = new Set<string>();
+    const time = (message: GraphMessage) =>
+      message.sentDateTime || message.receivedDateTime || "";
+    return messages
+      .filter((message) => {
+        if (message.isDraft) {
+          return false;
+        }
+        const key = message.internetMessageId || message.id;
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      })
+      .sort((a, b) => time(a).localeCompare(time(b)));
   }
 
   async searchEmails(
     accessToken: string,
     params: EmailSearchParams,
-  ): Promise<any> {
+  ): Promise<GraphPage<GraphMessage>> {
     const count = Math.min(params.count || 10, 50);
-    const url = `${this.baseUrl}/me/messages?$search="${encodeURIComponent(params.query)}"&$top=${count}&$select=id,subject,from,receivedDateTime,bodyPreview`;
+    const url = this.resolvePageUrl(
+      params.nextLink,
+      `${this.baseUrl}${this.getMailboxPath(params.mailbox)}/messages?$search="${encodeURIComponent(params.query)}"&$top=${count}&$select=id,subject,from,receivedDateTime,bodyPreview`,
+    );
 
-    const response = await this.makeGraphRequest(accessToken, url, "GET");
-    return response.value || [];
+    const response = await this.makeGraphRequest<GraphCollection<GraphMessage>>(
+      accessToken,
+      url,
+      "GET",
+    );
+    return this.toPage(response);
   }
 
-  // ============================================================================
-  // CALENDAR OPERATIONS
-  // ============================================================================
-  async getCalendarEvents(
+  /**
+   * Reply to the sender of a message, keeping the conversation thread
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Message id, comment and additional recipients
+   */
+  async replyToEmail(accessToken: string, params: ReplyParams): Promise<void> {
+    await this.sendReply(accessToken, "reply", params);
+  }
+
+  /**
+   * Reply to the sender and all recipients of a message
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Message id, comment and additional recipients
+   */
+  async replyAllToEmail(
     accessToken: string,
-    params: CalendarListParams,
-  ): Promise<any> {
+    params: ReplyParams,
+  ): Promise<void> {
+    await this.sendReply(accessToken, "replyAll", params);
+  }
+
+  /**
+   * Forward a message, including its attachments, to new recipients
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Message id, recipients and comment
+   */
+  async forwardEmail(
+    accessToken: string,
+    params: ForwardParams,
+  ): Promise<void> {
+    const body = this.buildResponseBody(params.comment);
+    body.message = { toRecipients: toGraphRecipients(params.to, "to") };
+    if (params.cc?.length) {
+      body.message.ccRecipients = toGraphRecipients(params.cc, "cc");
+    }
+
+    await this.makeGraphRequest(
+      accessToken,
+      `${this.baseUrl}${this.getMailboxPath(params.mailbox)}/messages/${encodeURIComponent(params.messageId)}/forward`,
+      "POST",
+      body,
+    );
+    await this.invalidateCache(accessToken, ["people"]);
+  }
+
+  /**
+   * Send a reply or reply-all
+   *
+   * RECIPIENT HANDLING:
+   * - Without extra recipients: single /reply or /replyAll call
+   * - With extra recipients: setting toRecipients/ccRecipients on /reply
+   *   would replace the recipients Graph derives from the original, so a
+   *   reply draft is created, extended and sent instead. The draft is
+   *   deleted if any step fails.
+   *
+   * Both paths keep conversationId and In-Reply-To, so threading holds.
+   *
+   * @private
+   */
+  private async sendReply(
+    accessToken: string,
+    action: "reply" | "replyAll",
+    params: ReplyParams,
+  ): Promise<void> {
+    const root = `${this.baseUrl}${this.getMailboxPath(params.mailbox)}`;
+    const messageUrl = `${root}/messages/${encodeURIComponent(params.messageId)}`;
+    const body = this.buildResponseBody(params.comment);
+    const to = toGraphRecipients(params.to, "to");
+    const cc = toGraphRecipients(params.cc, "cc");
+
+    if (to.length === 0 && cc.length === 0) {
+      await this.makeGraphRequest(
+        accessToken,
+        `${messageUrl}/${action}`,
+        "POST",
+        body,
+      );
+      await this.invalidateCache(accessToken, ["people"]);
+      return;
+    }
+
+    const createAction = action === "reply" ? "createReply" : "createReplyAll";
+    const draft = await this.makeGraphRequest<GraphMessage>(
+      accessToken,
+      `${messageUrl}/${createAction}`,
+      "POST",
+      body,
+    );
+    const draftUrl = `${root}/messages/${encodeURIComponent(draft.id)}`;
+
+    try {
+      await this.makeGraphRequest(accessToken, draftUrl, "PATCH", {
+        toRecipients: this.mergeRecipients(draft.toRecipients, to),
+        ccRecipients: this.mergeRecipients(draft.ccRecipients, cc),
+      });
+      await this.makeGraphRequest(accessToken, `${draftUrl}/send`, "POST");
+    } catch (error) {
+      await this.makeGraphRequest(accessToken, draftUrl, "DELETE").catch(() => {
+        /** Cleanup failure - the original error is more useful */
+      });
+      throw error;
+    }
+
+    await this.invalidateCache(accessToken, ["people"]);
+  }
+
+  /**
+   * Build the comment part of a reply or forward request
+   *
+   * The comment may be plain text or HTML. It is always sent as comment,
+   * which Graph places above the quoted original; a message.body would
+   * replace the quoted original instead.
+   *
+   * @private
+   */
+  private buildResponseBody(comment?: string): Record<string, any> {
+    return comment ? { comment } : {};
+  }
+
+  /**
+   * Append recipients to existing ones, skipping duplicate addresses
+   * @private
+   */
+  private mergeRecipients(
+    existing: GraphRecipient[] = [],
+    added: GraphRecipient[],
+  ): GraphRecipient[] {
+    const known = new Set(
+      existing.map((r) => r.emailAddress.address?.toLowerCase()),
+    );
+    return [
+      ...existing,
+      ...added.filter((r) => !known.has(r.emailAddress.address?.toLowerCase())),
+    ];
+  }
+
+  // ============================================================================
+  // ATTACHMENTS
+  // ============================================================================
+  /**
+   * List attachment metadata of a message or event
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Parent message or event
+   * @returns Attachments without content; @odata.type tells the kind
+   */
+  async listAttachments(
+    accessToken: string,
+    params: AttachmentParentParams,
+  ): Promise<GraphAttachment[]> {
+    const response = await this.makeGraphRequest<
+      GraphCollection<GraphAttachment>
+    >(
+      accessToken,
+      `${this.baseUrl}${this.getAttachmentParentPath(params)}/attachments?$select=id,name,contentType,size,isInline,lastModifiedDateTime`,
+      "GET",
+    );
+    return response.value || [];
+  }
+
+  /**
+   * Get one attachment with its content
+   *
+   * FLOW:
+   * 1. Read metadata only, so oversized files are never loaded into memory
+   * 2. Fetch content by kind:
+   *    - fileAttachment: contentBytes (base64), skipped above maxContentSize
+   *    - itemAttachment: attached message or event via $expand
+   *    - referenceAttachment: sourceUrl only, content stays in OneDrive
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Parent and attachment id
+   * @param maxContentSize - Largest file attachment downloaded, in bytes
+   * @returns Attachment with content, or metadata only if too large
+   */
+  async getAttachment(
+    accessToken: string,
+    params: AttachmentGetParams,
+    maxContentSize = Infinity,
+  ): Promise<GraphAttachment> {
+    const url = `${this.baseUrl}${this.getAttachmentParentPath(params)}/attachments/${encodeURIComponent(params.attachmentId)}`;
+    const metadata = await this.makeGraphRequest<GraphAttachment>(
+      accessToken,
+      `${url}?$select=id,name,contentType,size,isInline,lastModifiedDateTime`,
+      "GET",
+    );
+
+    const type = metadata["@odata.type"] || "";
+    if (type.endsWith("itemAttachment")) {
+      return this.makeGraphRequest<GraphAttachment>(
+        accessToken,
+        `${url}?$expand=microsoft.graph.itemattachment/item`,
+        "GET",
+      );
+    }
+    if (
+      !type.endsWith("referenceAttachment") &&
+      (metadata.size || 0) > maxContentSize
+    ) {
+      return metadata;
+    }
+
+    return this.makeGraphRequest<GraphAttachment>(accessToken, url, "GET");
+  }
+
+  /** @private */
+  private getAttachmentParentPath(params: AttachmentParentParams): string {
+    if (params.parentType === "event" && params.mailbox) {
+      throw new Error(
+        "Attachments of shared mailbox events are not supported; mailbox applies to messages only",
+      );
+    }
+    const collection = params.parentType === "event" ? "events" : "messages";
+    return `${this.getMailboxPath(params.mailbox)}/${collection}/${encodeURIComponent(params.parentId)}`;
+  }
+
+  // ============================================================================
+  // EMAIL EXPORT
+  // ============================================================================
+  /**
+   * Download a message in MIME format (RFC 5322), as saved in .eml files
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param messageId - Message to export
+   * @param mailbox - Shared mailbox address, undefined for the user's own
+   * @returns Raw message including headers and attachments, or undefined
+   *          if it exceeds MAX_EXPORT_SIZE (the download stops at the limit)
+   */
+  async getEmailMime(
+    accessToken: string,
+    messageId: string,
+    mailbox?: string,
+  ): Promise<Uint8Array | undefined> {
+    return this.makeGraphRequest<Uint8Array | undefined>(
+      accessToken,
+      `${this.baseUrl}${this.getMailboxPath(mailbox)}/messages/${encodeURIComponent(messageId)}/$value`,
+      "GET",
+      undefined,
+      { responseType: "bytes", maxBytes: MAX_EXPORT_SIZE },
+    );
+  }
+
+  /**
+   * Export messages of a folder or date range as one mbox file
+   *
+   * FLOW:
+   * 1. List matching messages oldest first, one more than maxMessages so
+   *    the continuation point is known
+   * 2. Download each message's MIME content in order, reporting progress
+   * 3. Stop before the file would exceed MAX_EXPORT_SIZE; messages larger
+   *    than the limit on their own are reported as skipped, and their
+   *    download is aborted at the limit
+   *
+   * Downloads run one at a time, which keeps memory bounded and stays
+   * within Outlook's per-mailbox concurrency limit.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Folder, date range and message limit
+   * @param onProgress - Called after each downloaded message
+   * @returns mbox content with counts and the continuation date
+   * @throws Error if a date is invalid
+   */
+  async exportEmails(
+    accessToken: string,
+    params: EmailExportParams,
+    onProgress?: ExportProgressCallback,
+  ): Promise<EmailExport> {
+    const limit = Math.min(
+      params.maxMessages || MAX_EXPORT_MESSAGES,
+      MAX_EXPORT_MESSAGES,
+    );
+    const query = buildEmailQuery(
+      {
+        receivedAfter: params.receivedAfter,
+        receivedBefore: params.receivedBefore,
+      },
+      "oldest",
+    );
+    const root = this.getMailboxPath(params.mailbox);
+    const collection = params.folder
+      ? `${root}/mailFolders/${encodeURIComponent(await this.resolveMailFolderId(accessToken, params.folder, params.mailbox))}/messages`
+      : `${root}/messages`;
+    const candidates = await this.getAllPages<GraphMessage>(
+      accessToken,
+      `${this.baseUrl}${collection}?$top=${MAX_EMAIL_PAGE_SIZE}&$select=id,subject,from,receivedDateTime${query}`,
+      Math.ceil((limit + 1) / MAX_EMAIL_PAGE_SIZE),
+    );
+    const messages = candidates.slice(0, limit);
+
+    /** Processed messages in order; entry is missing for skipped ones */
+    const processed: { message: GraphMessage; entry?: Uint8Array }[] = [];
+    let size = 0;
+    let next = messages.length;
+
+    for (const [index, message] of messages.entries()) {
+      const mime = await this.getEmailMime(
+        accessToken,
+        message.id,
+        params.mailbox,
+      );
+      const entry =
+        mime &&
+        toMboxEntry(
+          mime,
+          message.from?.emailAddress.address,
+          new Date(message.receivedDateTime || 0),
+        );
+
+      if (!entry || entry.byteLength > MAX_EXPORT_SIZE) {
+        processed.push({ message });
+      } else if (size + entry.byteLength > MAX_EXPORT_SIZE) {
+        next = index;
+        break;
+      } else {
+        processed.push({ message, entry });
+        size += entry.byteLength;
+      }
+      await onProgress?.({ processed: index + 1, total: messages.length });
+    }
+
+    const remaining = [...messages.slice(next), ...candidates.slice(limit)];
+    const nextReceivedAfter = remaining[0]?.receivedDateTime;
+
+    /**
+     * receivedAfter is inclusive, so resuming at nextReceivedAfter would
+     * repeat the processed messages received at that same time. They are
+     * left for the next call instead, unless that would leave nothing.
+     */
+    const repeated = processed.filter(
+      ({ message }) => message.receivedDateTime === nextReceivedAfter,
+    ).length;
+    if (nextReceivedAfter && repeated < processed.length) {
+      processed.splice(processed.length - repeated);
+    }
+
+    const entries = processed.flatMap(({ entry }) => (entry ? [entry] : []));
+    return {
+      mbox: joinMboxEntries(entries),
+      exported: entries.length,
+      skipped: processed
+        .filter(({ entry }) => !entry)
+        .map(({ message }) => ({ id: message.id, subject: message.subject })),
+      nextReceivedAfter,
+    };
+  }
+
+  // ============================================================================
+  // DRAFTS
+  // ============================================================================
+  /**
+   * Create a draft in the Drafts folder for review before sending
+   *
+   * FLOW:
+   * 1. POST {mailbox}/messages, or /createReply(All) for reply drafts
+   * 2. PATCH subject and extra recipients onto reply drafts
+   * 3. Add attachments (upload sessions for files over 3 MB)
+   *
+   * A draft is deleted again if any later step fails.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Draft content, recipients and attachments
+   * @param onProgress - Called after each uploaded chunk or attachment
+   * @returns Created draft including its id and Outlook webLink
+   */
+  async createDraft(
+    accessToken: string,
+    params: DraftParams,
+    onProgress?: UploadProgressCallback,
+  ): Promise<GraphMessage> {
+    const fields = this.buildDraftFields(params);
+    const attachments = await resolveAttachments(
+      params.attachments,
+      getAttachmentUrlHosts(this.env),
+    );
+    const root = this.getMailboxPath(params.mailbox);
+
+    let draft: GraphMessage;
+    if (params.replyToMessageId) {
+      const action = params.replyAll ? "createReplyAll" : "createReply";
+      draft = await this.makeGraphRequest<GraphMessage>(
+        accessToken,
+        `${this.baseUrl}${root}/messages/${encodeURIComponent(params.replyToMessageId)}/${action}`,
+        "POST",
+        this.buildResponseBody(params.body),
+      );
+    } else {
+      draft = await this.makeGraphRequest<GraphMessage>(
+        accessToken,
+        `${this.baseUrl}${root}/messages`,
+        "POST",
+        fields,
+      );
+    }
+
+    const draftPath = `${root}/messages/${encodeURIComponent(draft.id)}`;
+    try {
+      if (
+        params.replyToMessageId &&
+        (fields.subject !== undefined ||
+          fields.toRecipients ||
+          fields.ccRecipients ||
+          fields.bccRecipients)
+      ) {
+        draft = await this.makeGraphRequest<GraphMessage>(
+          accessToken,
+          `${this.baseUrl}${draftPath}`,
+          "PATCH",
+          {
+            ...(fields.subject !== undefined && { subject: fields.subject }),
+            toRecipients: this.mergeRecipients(
+              draft.toRecipients,
+              fields.toRecipients || [],
+            ),
+            ccRecipients: this.mergeRecipients(
+              draft.ccRecipients,
+              fields.ccRecipients || [],
+            ),
+            bccRecipients: this.mergeRecipients(
+              draft.bccRecipients,
+              fields.bccRecipients || [],
+            ),
+          },
+        );
+      }
+
+      await this.addAttachments(
+        accessToken,
+        draftPath,
+        attachments,
+        onProgress,
+      );
+    } catch (error) {
+      await this.makeGraphRequest(
+        accessToken,
+        `${this.baseUrl}${draftPath}`,
+        "DELETE",
+      ).catch(() => {
+        /** Cleanup failure - the original error is more useful */
+      });
+      throw error;
+    }
+
+    return draft;
+  }
+
+  /**
+   * Update subject, body or recipients of a draft
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Draft id and fields to change
+   * @returns Updated draft
+   */
+  async updateDraft(
+    accessToken: string,
+    params: DraftUpdateParams,
+  ): Promise<GraphMessage> {
+    return this.makeGraphRequest<GraphMessage>(
+      accessToken,
+      `${this.baseUrl}${this.getMailboxPath(params.mailbox)}/messages/${encodeURIComponent(params.draftId)}`,
+      "PATCH",
+      this.buildDraftFields(params),
+    );
+  }
+
+  async listDrafts(
+    accessToken: string,
+    params: { count?: number } & PageParams & MailboxParams,
+  ): Promise<GraphPage<GraphMessage>> {
+    const count = Math.min(params.count || 10, 50);
+    const url = this.resolvePageUrl(
+      params.nextLink,
+      `${this.baseUrl}${this.getMailboxPath(params.mailbox)}/mailFolders/drafts/messages?$top=${count}&$orderby=lastModifiedDateTime desc&$select=id,subject,toRecipients,ccRecipients,lastModifiedDateTime,bodyPreview,conversationId,webLink`,
+    );
+
+    const response = await this.makeGraphRequest<GraphCollection<GraphMessage>>(
+      accessToken,
+      url,
+      "GET",
+    );
+    return this.toPage(response);
+  }
+
+  /**
+   * Send an existing draft
+   * Graph moves the message to Sent Items; the draft id is no longer valid.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param draftId - Id of the draft
+   * @param mailbox - Shared mailbox address, undefined for the user's own
+   * @throws Error if the message is not a draft
+   */
+  async sendDraft(
+    accessToken: string,
+    draftId: string,
+    mailbox?: string,
+  ): Promise<void> {
+    await this.assertDraft(accessToken, draftId, "send", mailbox);
+    await this.makeGraphRequest(
+      accessToken,
+      `${this.baseUrl}${this.getMailboxPath(mailbox)}/messages/${encodeURIComponent(draftId)}/send`,
+      "POST",
+    );
+    await this.invalidateCache(accessToken, ["people"]);
+  }
+
+  /**
+   * Discard a draft without sending it
+   * The DELETE is permanent, so the id is checked to be a draft first.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param draftId - Id of the draft
+   * @param mailbox - Shared mailbox address, undefined for the user's own
+   * @throws Error if the message is not a draft
+   */
+  async deleteDraft(
+    accessToken: string,
+    draftId: string,
+    mailbox?: string,
+  ): Promise<void> {
+    await this.assertDraft(accessToken, draftId, "delete", mailbox);
+    await this.makeGraphRequest(
+      accessToken,
+      `${this.baseUrl}${this.getMailboxPath(mailbox)}/messages/${encodeURIComponent(draftId)}`,
+      "DELETE",
+    );
+  }
+
+  /**
+   * Reject send/delete of messages that are not drafts
+   * @private
+   */
+  private async assertDraft(
+    accessToken: string,
+    draftId: string,
+    action: string,
+    mailbox?: string,
+  ): Promise<void> {
+    const message = await this.makeGraphRequest<GraphMessage>(
+      accessToken,
+      `${this.baseUrl}${this.getMailboxPath(mailbox)}/messages/${encodeURIComponent(draftId)}?$select=isDraft`,
+      "GET",
+    );
+    if (!message.isDraft) {
+      throw new Error(
+        `Message ${draftId} is not a draft; ${action}Draft only accepts ids returned by createDraft or listDrafts.`,
+      );
+    }
+  }
+
+  /**
+   * Map draft fields to a Graph message body, omitting unset fields
+   * @throws Error if any recipient address is invalid
+   * @private
+   */
+  private buildDraftFields(
+    params: Omit<DraftUpdateParams, "draftId">,
+  ): Record<string, any> {
+    const message: Record<string, any> = {};
+    if (params.subject !== undefined) {
+      message.subject = params.subject;
+    }
+    if (params.body !== undefined) {
+      message.body = {
+        contentType: params.contentType === "text" ? "text" : "html",
+        content: params.body,
+      };
+    }
+    if (params.to) {
+      message.toRecipients = toGraphRecipients(params.to, "to");
+    }
+    if (params.cc) {
+      message.ccRecipients = toGraphRecipients(params.cc, "cc");
+    }
+    if (params.bcc) {
+      message.bccRecipients = toGraphRecipients(params.bcc, "bcc");
+    }
+    return message;
+  }
+
+  // ============================================================================
+  // MAIL FOLDERS
+  // ============================================================================
+  /**
+   * List the mail folder tree with item counts
+   *
+   * Child folders are fetched level by level for folders that report
+   * children, up to MAX_FOLDER_DEPTH levels below the top.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param includeHidden - Include hidden folders
+   * @returns Top-level folders with nested childFolders
+   */
+  async listMailFolders(
+    accessToken: string,
+    includeHidden = false,
+    mailbox?: string,
+  ): Promise<GraphMailFolder[]> {
+    const root = this.getMailboxPath(mailbox);
+    return this.getMailFolderTree(
+      accessToken,
+      root,
+      `${root}/mailFolders`,
+      includeHidden,
+      0,
+    );
+  }
+
+  /**
+   * Create a mail folder
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Display name and optional parent folder
+   * @returns Created folder
+   */
+  async createMailFolder(
+    accessToken: string,
+    params: MailFolderCreateParams,
+  ): Promise<GraphMailFolder> {
+    const root = `${this.baseUrl}${this.getMailboxPath(params.mailbox)}/mailFolders`;
+    const url = params.parentFolder
+      ? `${root}/${encodeURIComponent(await this.resolveMailFolderId(accessToken, params.parentFolder, params.mailbox))}/childFolders`
+      : root;
+
+    return this.makeGraphRequest<GraphMailFolder>(accessToken, url, "POST", {
+      displayName: params.displayName,
+    });
+  }
+
+  /**
+   * Rename a mail folder
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param folder - Folder to rename
+   * @param displayName - New display name
+   * @param mailbox - Shared mailbox address, undefined for the user's own
+   * @returns Updated folder
+   */
+  async renameMailFolder(
+    accessToken: string,
+    folder: MailFolderRef,
+    displayName: string,
+    mailbox?: string,
+  ): Promise<GraphMailFolder> {
+    const folderId = await this.resolveMailFolderId(
+      accessToken,
+      folder,
+      mailbox,
+    );
+    return this.makeGraphRequest<GraphMailFolder>(
+      accessToken,
+      `${this.baseUrl}${this.getMailboxPath(mailbox)}/mailFolders/${encodeURIComponent(folderId)}`,
+      "PATCH",
+      { displayName },
+    );
+  }
+
+  /**
+   * Delete a mail folder and the messages in it
+   * Graph moves the folder to Deleted Items; well-known folders cannot be deleted.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param folder - Folder to delete
+   * @param mailbox - Shared mailbox address, undefined for the user's own
+   */
+  async deleteMailFolder(
+    accessToken: string,
+    folder: MailFolderRef,
+    mailbox?: string,
+  ): Promise<void> {
+    const folderId = await this.resolveMailFolderId(
+      accessToken,
+      folder,
+      mailbox,
+    );
+    if (WELL_KNOWN_FOLDERS.includes(folderId)) {
+      throw new Error(`The well-known folder "${folder}" cannot be deleted`);
+    }
+
+    await this.makeGraphRequest(
+      accessToken,
+      `${this.baseUrl}${this.getMailboxPath(mailbox)}/mailFolders/${encodeURIComponent(folderId)}`,
+      "DELETE",
+    );
+  }
+
+  /**
+   * Move messages to another folder
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Message ids and destination folder
+   * @returns Per-message results including the new message ids
+   */
+  async moveEmails(
+    accessToken: string,
+    params: EmailMoveParams,
+  ): Promise<MessageActionResult[]> {
+    return this.transferEmails(accessToken, "move", params);
+  }
+
+  /**
+   * Copy messages to another folder
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Message ids and destination folder
+   * @returns Per-message results including the ids of the copies
+   */
+  async copyEmails(
+    accessToken: string,
+    params: EmailMoveParams,
+  ): Promise<MessageActionResult[]> {
+    return this.transferEmails(accessToken, "copy", params);
+  }
+
+  /**
+   * Resolve a folder reference to an id usable in /me/mailFolders/{id}
+   *
+   * RESOLUTION ORDER:
+   * 1. Well-known names and aliases ("Inbox", "sent", "trash")
+   * 2. Strings shaped like folder ids are passed through
+   * 3. Display name paths ("Projects/Alpha"), matched level by level
+   *    starting at the mailbox root; the first segment may be well-known
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param folder - Well-known name, display name path or folder id
+   * @param mailbox - Shared mailbox address, omitted for /me
+   * @returns Well-known name or folder id
+   * @throws Error if a display name does not match any folder
+   */
+  async resolveMailFolderId(
+    accessToken: string,
+    folder: MailFolderRef,
+    mailbox?: string,
+  ): Promise<string> {
+    const wellKnown = this.getWellKnownFolder(folder);
+    if (wellKnown) {
+      return wellKnown;
+    }
+    if (FOLDER_ID_PATTERN.test(folder)) {
+      return folder;
+    }
+
+    const segments = folder
+      .split("/")
+      .map((segment) => segment.trim())
+      .filter(Boolean);
+    const root = this.getWellKnownFolder(segments[0]);
+    if (root) {
+      segments.shift();
+    }
+
+    /** Unqualified names are looked up at the root, then below Inbox */
+    for (const parentId of root ? [root] : ["msgfolderroot", "inbox"]) {
+      const folderId = await this.findFolderPath(
+        accessToken,
+        parentId,
+        segments,
+        mailbox,
+      );
+      if (folderId) {
+        return folderId;
+      }
+    }
+
+    throw new Error(
+      `Mail folder "${folder}" not found. Use listMailFolders to see the available folders.`,
+    );
+  }
+
+  /**
+   * Follow display names down from a parent folder
+   * @returns Folder id, undefined if any segment does not match
+   * @private
+   */
+  private async findFolderPath(
+    accessToken: string,
+    parentId: string,
+    segments: string[],
+    mailbox?: string,
+  ): Promise<string | undefined> {
+    let folderId = parentId;
+    for (const segment of segments) {
+      const escaped = encodeURIComponent(segment.replace(/'/g, "''"));
+      const response = await this.makeGraphRequest<
+        GraphCollection<GraphMailFolder>
+      >(
+        accessToken,
+        `${this.baseUrl}${this.getMailboxPath(mailbox)}/mailFolders/${encodeURIComponent(folderId)}/childFolders?$filter=displayName eq '${escaped}'&$select=id,displayName&includeHiddenFolders=true`,
+        "GET",
+      );
+
+      const match = response.value?.[0];
+      if (!match) {
+        return undefined;
+      }
+      folderId = match.id;
+    }
+    return folderId;
+  }
+
+  /**
+   * Graph path of the signed-in user's or a shared mailbox
+   * @private
+   */
+  private getMailboxPath(mailbox?: string): string {
+    return mailbox ? `/users/${encodeURIComponent(mailbox)}` : "/me";
+  }
+
+  /** @private */
+  private getWellKnownFolder(name: string | undefined): string | undefined {
+    const normalized = (name || "").trim().toLowerCase();
+    if (WELL_KNOWN_FOLDERS.includes(normalized)) {
+      return normalized;
+    }
+    return FOLDER_ALIASES[normalized];
+  }
+
+  /** @private */
+  private async getMailFolderTree(
+    accessToken: string,
+    root: string,
+    path: string,
+    includeHidden: boolean,
+    depth: number,
+  ): Promise<GraphMailFolder[]> {
+    const folders = await this.getAllPages<GraphMailFolder>(
+      accessToken,
+      `${this.baseUrl}${path}?$top=100&$select=id,displayName,parentFolderId,childFolderCount,unreadItemCount,totalItemCount${includeHidden ? "&includeHiddenFolders=true" : ""}`,
+    );
+
+    if (depth < MAX_FOLDER_DEPTH) {
+      /** Sequential to keep the request rate low on large folder trees */
+      for (const folder of folders) {
+        if (folder.childFolderCount) {
+          folder.childFolders = await this.getMailFolderTree(
+            accessToken,
+            root,
+            `${root}/mailFolders/${encodeURIComponent(folder.id)}/childFolders`,
+            includeHidden,
+            depth + 1,
+          );
+        }
+      }
+    }
+
+    return folders;
+  }
+
+  // ============================================================================
+  // MESSAGE TRIAGE
+  // ============================================================================
+  /**
+   * Apply read state, flag, categories and importance to messages
+   *
+   * FLOW:
+   * 1. With addCategories/removeCategories, read current categories in
+   *    one $batch, because PATCH replaces the whole list
+   * 2. PATCH every message in one $batch
+   *
+   * A message that fails in step 1 is reported and skipped in step 2.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Message ids and changes
+   * @returns Per-message results in input order
+   * @throws Error if no change is requested
+   */
+  async updateEmails(
+    accessToken: string,
+    params: EmailUpdateParams,
+  ): Promise<MessageActionResult[]> {
+    const changes = await this.buildTriageChanges(accessToken, params);
+    const updatesCategories = !!(
+      params.addCategories?.length || params.removeCategories?.length
+    );
+    if (Object.keys(changes).length === 0 && !updatesCategories) {
+      throw new Error(
+        "No changes requested. Set isRead, flag, addCategories, removeCategories or importance.",
+      );
+    }
+
+    const root = this.getMailboxPath(params.mailbox);
+    const failures: Record<string, string> = {};
+    const categories: Record<string, string[]> = {};
+    if (updatesCategories) {
+      const current = await this.batch<GraphMessage>(
+        accessToken,
+        params.messageIds.map((messageId, index) => ({
+          id: String(index),
+          method: "GET",
+          url: `${root}/messages/${encodeURIComponent(messageId)}?$select=categories`,
+        })),
+      );
+
+      params.messageIds.forEach((_, index) => {
+        const item = current[String(index)];
+        if (item.error) {
+          failures[index] = item.error.message;
+          return;
+        }
+        const remove = new Set(
+          (params.removeCategories || []).map((c) => c.toLowerCase()),
+        );
+        const kept = (item.body?.categories || []).filter(
+          (c) => !remove.has(c.toLowerCase()),
+        );
+        const added = (params.addCategories || []).filter(
+          (c) => !kept.some((k) => k.toLowerCase() === c.toLowerCase()),
+        );
+        categories[index] = [...kept, ...added];
+      });
+    }
+
+    const pending = params.messageIds
+      .map((messageId, index) => ({ messageId, index }))
+      .filter(({ index }) => !(index in failures));
+    const results = await this.batch(
+      accessToken,
+      pending.map(({ messageId, index }) => ({
+        id: String(index),
+        method: "PATCH",
+        url: `${root}/messages/${encodeURIComponent(messageId)}`,
+        body: updatesCategories
+          ? { ...changes, categories: categories[index] }
+          : changes,
+      })),
+    );
+
+    return params.messageIds.map((messageId, index) => {
+      const error = failures[index] ?? results[String(index)]?.error?.message;
+      return error
+        ? { messageId, success: false, error }
+        : { messageId, success: true };
+    });
+  }
+
+  /**
+   * Move messages to Deleted Items
+   * A soft delete: messages can be restored from Deleted Items in Outlook.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param messageIds - Messages to delete
+   * @param mailbox - Shared mailbox address, undefined for the user's own
+   * @returns Per-message results with the id in Deleted Items
+   */
+  async deleteEmails(
+    accessToken: string,
+    messageIds: string[],
+    mailbox?: string,
+  ): Promise<MessageActionResult[]> {
+    return this.transferEmails(accessToken, "move", {
+      messageIds,
+      destinationFolder: "deleteditems",
+      mailbox,
+    });
+  }
+
+  /**
+   * Map triage parameters to a message PATCH body (categories excluded)
+   * Flag dates are wall-clock times in the zone from resolveCalendarTimeZone.
+   * @private
+   */
+  private async buildTriageChanges(
+    accessToken: string,
+    params: EmailUpdateParams,
+  ): Promise<Record<string, any>> {
+    const changes: Record<string, any> = {};
+    if (params.isRead !== undefined) {
+      changes.isRead = params.isRead;
+    }
+    if (params.importance) {
+      changes.importance = params.importance;
+    }
+    if (params.flag) {
+      const { status, startDateTime, dueDateTime } = params.flag;
+      if (startDateTime && !dueDateTime) {
+        throw new Error(
+          "flag.startDateTime needs flag.dueDateTime; Graph does not accept a start date alone",
+        );
+      }
+
+      const flag: GraphFollowupFlag = { flagStatus: status };
+      if (status === "flagged" && dueDateTime) {
+        const timeZone = await this.resolveCalendarTimeZone(
+          accessToken,
+          params.flag.timeZone,
+        );
+        const due = toZonedDateTime(
+          dueDateTime,
+          timeZone.iana,
+          "flag.dueDateTime",
+        );
+        /** Graph rejects a due date without a start date */
+        flag.startDateTime = {
+          dateTime: startDateTime
+            ? toZonedDateTime(
+                startDateTime,
+                timeZone.iana,
+                "flag.startDateTime",
+              )
+            : due,
+          timeZone: timeZone.windows,
+        };
+        flag.dueDateTime = { dateTime: due, timeZone: timeZone.windows };
+      }
+      changes.flag = flag;
+    }
+    return changes;
+  }
+
+  /**
+   * Move or copy messages through $batch
+   * @private
+   */
+  private async transferEmails(
+    accessToken: string,
+    action: "move" | "copy",
+    params: EmailMoveParams,
+  ): Promise<MessageActionResult[]> {
+    const destinationId = await this.resolveMailFolderId(
+      accessToken,
+      params.destinationFolder,
+      params.mailbox,
+    );
+    const root = this.getMailboxPath(params.mailbox);
+
+    const results = await this.batch<GraphMessage>(
+      accessToken,
+      params.messageIds.map((messageId, index) => ({
+        id: String(index),
+        method: "POST",
+        url: `${root}/messages/${encodeURIComponent(messageId)}/${action}`,
+        body: { destinationId },
+      })),
+    );
+
+    return params.messageIds.map((messageId, index) => {
+      const result = results[String(index)];
+      return result.error
+        ? { messageId, success: false, error: result.error.message }
+        : { messageId, success: true, newMessageId: result.body?.id };
+    });
+  }
+
+  // ============================================================================
+  // INBOX RULES
+  // ============================================================================
+
+  /**
+   * List Inbox rules in execution order
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @returns Rules sorted by sequence
+   */
+  async listInboxRules(accessToken: string): Promise<GraphMessageRule[]> {
+    const rules = await this.getAllPages<GraphMessageRule>(
+      accessToken,
+      `${this.baseUrl}${INBOX_RULES_PATH}`,
+    );
+    return rules.sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+  }
+
+  async getInboxRule(
+    accessToken: string,
+    ruleId: string,
+  ): Promise<GraphMessageRule> {
+    return this.makeGraphRequest<GraphMessageRule>(
+      accessToken,
+      `${this.baseUrl}${INBOX_RULES_PATH}/${encodeURIComponent(ruleId)}`,
+      "GET",
+    );
+  }
+
+  /**
+   * Create an Inbox rule
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Name, conditions, actions and optional exceptions
+   * @returns Created rule
+   * @throws Error if conditions or actions are empty or invalid
+   */
+  async createInboxRule(
+    accessToken: string,
+    params: InboxRuleParams,
+  ): Promise<GraphMessageRule> {
+    const rule = await this.buildInboxRule(accessToken, params);
+    if (rule.sequence === undefined) {
+      const rules = await this.listInboxRules(accessToken);
+      rule.sequence =
+        Math.max(0, ...rules.map((existing) => existing.sequence ?? 0)) + 1;
+    }
+
+    return this.makeGraphRequest<GraphMessageRule>(
+      accessToken,
+      `${this.baseUrl}${INBOX_RULES_PATH}`,
+      "POST",
+      { isEnabled: true, ...rule },
+    );
+  }
+
+  /**
+   * Update an Inbox rule, including enabling or disabling it
+   * Conditions, exceptions and actions replace the existing sets.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Rule id and changed fields
+   * @returns Updated rule
+   */
+  async updateInboxRule(
+    accessToken: string,
+    params: InboxRuleUpdateParams,
+  ): Promise<GraphMessageRule> {
+    const { ruleId, ...changes } = params;
+    const rule = await this.buildInboxRule(accessToken, changes);
+
+    return this.makeGraphRequest<GraphMessageRule>(
+      accessToken,
+      `${this.baseUrl}${INBOX_RULES_PATH}/${encodeURIComponent(ruleId)}`,
+      "PATCH",
+      rule,
+    );
+  }
+
+  async deleteInboxRule(accessToken: string, ruleId: string): Promise<void> {
+    await this.makeGraphRequest(
+      accessToken,
+      `${this.baseUrl}${INBOX_RULES_PATH}/${encodeURIComponent(ruleId)}`,
+      "DELETE",
+    );
+  }
+
+  /**
+   * Validate rule input and convert it to a Graph rule
+   * Only fields present in params are set; folder names, including
+   * well-known ones, are resolved to folder ids.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Typed rule fields
+   * @returns Graph rule fields for POST, PATCH or a preview
+   * @throws Error if given conditions or actions are empty or invalid
+   */
+  async buildInboxRule(
+    accessToken: string,
+    params: Partial<InboxRuleParams>,
+  ): Promise<Omit<GraphMessageRule, "id">> {
+    const rule: Omit<GraphMessageRule, "id"> = {};
+
+    if (params.displayName !== undefined) {
+      rule.displayName = params.displayName;
+    }
+    if (params.sequence !== undefined) {
+      rule.sequence = params.sequence;
+    }
+    if (params.isEnabled !== undefined) {
+      rule.isEnabled = params.isEnabled;
+    }
+    if (params.conditions) {
+      rule.conditions = toGraphPredicates(params.conditions, "conditions");
+      if (!hasPredicates(rule.conditions)) {
+        throw new Error(
+          "At least one condition is required; a rule without conditions applies to every message",
+        );
+      }
+    }
+    if (params.exceptions) {
+      rule.exceptions = toGraphPredicates(params.exceptions, "exceptions");
+    }
+    if (params.actions) {
+      const actions = toGraphRuleActions(params.actions);
+      if (Object.keys(actions).length === 0) {
+        throw new Error("At least one action is required");
+      }
+      for (const key of ["moveToFolder", "copyToFolder"] as const) {
+        if (actions[key]) {
+          actions[key] = await this.resolveRuleFolderId(
+            accessToken,
+            actions[key],
+          );
+        }
+      }
+      rule.actions = actions;
+    }
+    return rule;
+  }
+
+  /**
+   * Resolve a folder reference to a real folder id
+   * Rule actions store the folder id; Graph does not accept well-known
+   * names there, so those are looked up.
+   * @private
+   */
+  private async resolveRuleFolderId(
+    accessToken: string,
+    folder: MailFolderRef,
+  ): Promise<string> {
+    const folderId = await this.resolveMailFolderId(accessToken, folder);
+    if (!WELL_KNOWN_FOLDERS.includes(folderId)) {
+      return folderId;
+    }
+
+    const response = await this.makeGraphRequest<GraphMailFolder>(
+      accessToken,
+      `${this.baseUrl}/me/mailFolders/${folderId}?$select=id`,
+      "GET",
+    );
+    return response.id;
+  }
+
+  /**
+   * Find recent Inbox messages a rule would apply to
+   *
+   * Evaluation is local, see PREVIEW LIMITS in inbox-rules.ts.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param rule - Graph conditions and exceptions
+   * @returns Number of messages checked and the matching ones
+   */
+  async previewInboxRule(
+    accessToken: string,
+    rule: Pick<GraphMessageRule, "conditions" | "exceptions">,
+  ): Promise<{ evaluated: number; matches: GraphMessage[] }> {
+    const [profile, recent] = await Promise.all([
+      this.getUserProfile(accessToken),
+      this.makeGraphRequest<GraphCollection<GraphMessage>>(
+        accessToken,
+        `${this.baseUrl}/me/mailFolders/inbox/messages?$top=${RULE_PREVIEW_SIZE}&$select=id,subject,from,toRecipients,ccRecipients,receivedDateTime,bodyPreview,hasAttachments,importance`,
+        "GET",
+      ),
+    ]);
+
+    const myAddresses = [profile.mail, profile.userPrincipalName]
+      .filter((address): address is string => !!address)
+      .map((address) => address.toLowerCase());
+    const messages = recent.value || [];
+
+    return {
+      evaluated: messages.length,
+      matches: messages.filter((message) =>
+        matchesRule(message, rule.conditions, rule.exceptions, myAddresses),
+      ),
+    };
+  }
+
+  // ============================================================================
+  // CALENDAR OPERATIONS
+  // ============================================================================
+  /**
+   * List upcoming events with times in the requested zone
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Days ahead, time zone and page link
+   * @returns One page of events; start/end carry the zone they are in
+   * @throws Error if the time zone is unknown
+   */
+  async getCalendarEvents(
+    accessToken: string,
+    params: CalendarListParams,
+  ): Promise<GraphPage<GraphEvent>> {
     const days = Math.min(params.days || 7, 30);
     const startTime = new Date().toISOString();
     const endTime = new Date(
       Date.now() + days * 24 * 60 * 60 * 1000,
     ).toISOString();
+    const timeZone = await this.resolveCalendarTimeZone(
+      accessToken,
+      params.timeZone,
+    );
+
+    const url = this.resolvePageUrl(
+      params.nextLink,
+      `${this.baseUrl}/me/calendarView?startDateTime=${startTime}&endDateTime=${endTime}&$select=id,subject,start,end,attendees,organizer,webLink`,
+    );
+
+    const response = await this.makeGraphRequest<GraphCollection<GraphEvent>>(
+      accessToken,
+      url,
+      "GET",
+      undefined,
+      { headers: { Prefer: `outlook.timezone="${timeZone.windows}"` } },
+    );
+    return this.toPage(response);
+  }
+
+  /**
+   * Create a calendar event, then add any attachments
+   *
+   * Attachments are resolved before the event is created so invalid
+   * input fails without side effects. If adding an attachment fails the
+   * event is kept (deleting it would notify attendees) and the error
+   * message names the created event.
+   *
+   * TIME ZONES:
+   * start and end are sent as wall-clock times in the event zone, so
+   * Outlook shows the event in that zone. Inputs with an offset are
+   * converted into it; inputs without one are already local to it.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Event details and attachments
+   * @param onProgress - Called after each uploaded chunk or attachment
+   * @returns Created event
+   * @throws Error if a date or the time zone is invalid, or end <= start
+   */
+  async createCalendarEvent(
+    accessToken: string,
+    params: CalendarEventParams,
+    onProgress?: UploadProgressCallback,
+  ): Promise<GraphEvent> {
+    const url = `${this.baseUrl}/me/events`;
+    const timeZone = await this.resolveCalendarTimeZone(
+      accessToken,
+      params.timeZone,
+    );
+    const start = toZonedDateTime(params.start, timeZone.iana, "start");
+    const end = toZonedDateTime(params.end, timeZone.iana, "end");
+    if (end <= start) {
+      throw new Error(
+        `end (${end}) must be after start (${start}) in ${timeZone.windows}`,
+      );
+    }
+    const attachments = await resolveAttachments(
+      params.attachments,
+      getAttachmentUrlHosts(this.env),
+    );
+
+    const body = {
+      subject: params.subject,
+      start: {
+        dateTime: start,
+        timeZone: timeZone.windows,
+      },
+      end: {
+        dateTime: end,
+        timeZone: timeZone.windows,
+      },
+      attendees:
+        params.attendees?.map((email) => ({
+          emailAddress: { address: email },
+          type: "required",
+        })) || [],
+      body: {
+        contentType: "html",
+        content: params.body || "",
+      },
+    };
+
+    const response = await this.makeGraphRequest<GraphEvent>(
+      accessToken,
+      url,
+      "POST",
+      body,
+    );
+
+    await this.invalidateCache(accessToken, ["calendars", "people"]);
+
+    try {
+      await this.addAttachments(
+        accessToken,
+        `/me/events/${response.id}`,
+        attachments,
+        onProgress,
+      );
+    } catch (error: any) {
+      error.message = `Event ${response.id} was created, but adding attachments failed: ${error.message}`;
+      throw error;
+    }
+
+    return response;
+  }
+
+  /**
+   * Get one event with organizer and response details
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param eventId - Event to read
+   * @param timeZone - Zone of the returned start and end, default UTC
+   * @returns Event including isOrganizer, isCancelled and responseStatus
+   */
+  async getCalendarEvent(
+    accessToken: string,
+    eventId: string,
+    timeZone?: ResolvedTimeZone,
+  ): Promise<GraphEvent> {
+    return this.makeGraphRequest<GraphEvent>(
+      accessToken,
+      `${this.baseUrl}/me/events/${encodeURIComponent(eventId)}?$select=id,subject,start,end,location,attendees,organizer,isOrganizer,isCancelled,responseStatus,type,webLink`,
+      "GET",
+      undefined,
+      timeZone
+        ? { headers: { Prefer: `outlook.timezone="${timeZone.windows}"` } }
+        : {},
+    );
+  }
+
+  /**
+   * Change an event the user organizes; attendees are notified by Exchange
+   *
+   * FLOW:
+   * 1. Read the event in the target zone and check the user organizes it
+   * 2. Convert start/end like createCalendarEvent; a new start without an
+   *    end keeps the current duration
+   * 3. Merge attendee additions and removals into the current list, since
+   *    Graph replaces attendees as a whole
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Event id and the fields to change
+   * @returns Updated event
+   * @throws Error if nothing changes, the user is not the organizer, an
+   *         address or date is invalid, or end <= start
+   */
+  async updateCalendarEvent(
+    accessToken: string,
+    params: CalendarEventUpdateParams,
+  ): Promise<GraphEvent> {
+    const timeZone = await this.resolveCalendarTimeZone(
+      accessToken,
+      params.timeZone,
+    );
+    const event = await this.getCalendarEvent(
+      accessToken,
+      params.eventId,
+      timeZone,
+    );
+    this.assertOrganizer(event, "change");
+
+    const changes: Partial<GraphEvent> = {};
+    if (params.subject !== undefined) {
+      changes.subject = params.subject;
+    }
+    if (params.location !== undefined) {
+      changes.location = { displayName: params.location };
+    }
+    if (params.body !== undefined) {
+      changes.body = { contentType: "html", content: params.body };
+    }
+
+    if (params.start || params.end) {
+      const currentStart = (event.start?.dateTime || "").slice(0, 19);
+      const currentEnd = (event.end?.dateTime || "").slice(0, 19);
+      const start = params.start
+        ? toZonedDateTime(params.start, timeZone.iana, "start")
+        : currentStart;
+      const end = params.end
+        ? toZonedDateTime(params.end, timeZone.iana, "end")
+        : shiftDateTime(
+            start,
+            Date.parse(`${currentEnd}Z`) - Date.parse(`${currentStart}Z`),
+          );
+      if (end <= start) {
+        throw new Error(
+          `end (${end}) must be after start (${start}) in ${timeZone.windows}`,
+        );
+      }
+      changes.start = { dateTime: start, timeZone: timeZone.windows };
+      changes.end = { dateTime: end, timeZone: timeZone.windows };
+    }
+
+    if (params.addAttendees?.length || params.removeAttendees?.length) {
+      const addressOf = (recipient: GraphRecipient) =>
+        (recipient.emailAddress.address || "").toLowerCase();
+      const removed = toGraphRecipients(
+        params.removeAttendees,
+        "removeAttendees",
+      ).map(addressOf);
+      const attendees = (event.attendees || []).filter(
+        (attendee) => !removed.includes(addressOf(attendee)),
+      );
+      for (const recipient of toGraphRecipients(
+        params.addAttendees,
+        "addAttendees",
+      )) {
+        if (
+          !attendees.some(
+            (attendee) => addressOf(attendee) === addressOf(recipient),
+          )
+        ) {
+          attendees.push({ ...recipient, type: "required" });
+        }
+      }
+      changes.attendees = attendees.map(({ emailAddress, type }) => ({
+        emailAddress,
+        type,
+      }));
+    }
+
+    if (Object.keys(changes).length === 0) {
+      throw new Error("No event field to change");
+    }
+
+    const updated = await this.makeGraphRequest<GraphEvent>(
+      accessToken,
+      `${this.baseUrl}/me/events/${encodeURIComponent(params.eventId)}`,
+      "PATCH",
+      changes,
+    );
+    if (changes.attendees) {
+      await this.invalidateCache(accessToken, ["people"]);
+    }
+    return updated;
+  }
+
+  /**
+   * Cancel a meeting the user organizes and notify attendees
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param eventId - Meeting to cancel
+   * @param comment - Message included in the cancellation
+   * @throws Error if the user is not the organizer
+   */
+  async cancelCalendarEvent(
+    accessToken: string,
+    eventId: string,
+    comment?: string,
+  ): Promise<void> {
+    const event = await this.getCalendarEvent(accessToken, eventId);
+    this.assertOrganizer(event, "cancel");
+
+    await this.makeGraphRequest(
+      accessToken,
+      `${this.baseUrl}/me/events/${encodeURIComponent(eventId)}/cancel`,
+      "POST",
+      { comment: comment || "" },
+    );
+  }
+
+  /**
+   * Decline a meeting the user was invited to
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param eventId - Meeting to decline
+   * @param comment - Message to the organizer
+   * @param sendResponse - Notify the organizer (default: true)
+   * @throws Error if the user organizes the meeting
+   */
+  async declineCalendarEvent(
+    accessToken: string,
+    eventId: string,
+    comment?: string,
+    sendResponse = true,
+  ): Promise<void> {
+    const event = await this.getCalendarEvent(accessToken, eventId);
+    if (event.isOrganizer) {
+      throw new Error(
+        `You organize "${event.subject}". Use cancelCalendarEvent to cancel it for all attendees, or deleteCalendarEvent if it has none.`,
+      );
+    }
+
+    await this.makeGraphRequest(
+      accessToken,
+      `${this.baseUrl}/me/events/${encodeURIComponent(eventId)}/decline`,
+      "POST",
+      { comment: comment || "", sendResponse },
+    );
+  }
+
+  /**
+   * Delete an event from the user's calendar
+   *
+   * Deleting a meeting as organizer sends attendees a cancellation without
+   * a message. Attendees may only delete meetings that were cancelled or
+   * that they declined; deleting an accepted invite would leave the
+   * organizer believing they attend.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param eventId - Event to delete
+   * @throws Error if an attendee tries to delete a live invitation
+   */
+  async deleteCalendarEvent(
+    accessToken: string,
+    eventId: string,
+  ): Promise<void> {
+    const event = await this.getCalendarEvent(accessToken, eventId);
+    if (
+      !event.isOrganizer &&
+      !event.isCancelled &&
+      event.responseStatus?.response !== "declined"
+    ) {
+      throw new Error(
+        `"${event.subject}" is organized by ${this.formatOrganizer(event)}. Deleting it would not tell the organizer; use declineCalendarEvent instead, which removes it from your calendar and notifies them.`,
+      );
+    }
+
+    await this.makeGraphRequest(
+      accessToken,
+      `${this.baseUrl}/me/events/${encodeURIComponent(eventId)}`,
+      "DELETE",
+    );
+  }
+
+  /**
+   * Forward a meeting invitation
+   *
+   * Exchange notifies the organizer that the invitation was forwarded.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param eventId - Meeting to forward
+   * @param to - Recipients, bare addresses or "Name <address>"
+   * @param comment - Message above the invitation
+   * @throws Error if a recipient address is invalid
+   */
+  async forwardCalendarEvent(
+    accessToken: string,
+    eventId: string,
+    to: string[],
+    comment?: string,
+  ): Promise<void> {
+    const toRecipients = toGraphRecipients(to, "to");
+    if (toRecipients.length === 0) {
+      throw new Error("Provide at least one recipient in to");
+    }
+
+    await this.makeGraphRequest(
+      accessToken,
+      `${this.baseUrl}/me/events/${encodeURIComponent(eventId)}/forward`,
+      "POST",
+      { toRecipients, comment: comment || "" },
+    );
+  }
+
+  /**
+   * Reject changes to events organized by someone else
+   * @private
+   */
+  private assertOrganizer(event: GraphEvent, action: string): void {
+    if (!event.isOrganizer) {
+      throw new Error(
+        `Only the organizer (${this.formatOrganizer(event)}) can ${action} "${event.subject}". To drop out, use declineCalendarEvent, which notifies the organizer.`,
+      );
+    }
+  }
+
+  /** @private */
+  private formatOrganizer(event: GraphEvent): string {
+    const organizer = event.organizer?.emailAddress;
+    return organizer?.name && organizer.address
+      ? `${organizer.name} <${organizer.address}>`
+      : organizer?.address || "someone else";
+  }
+
+  async getCalendars(
+    accessToken: string,
+    bypassCache = false,
+  ): Promise<GraphCalendar[]> {
+    const url = `${this.baseUrl}${CALENDARS_PATH}`;
+
+    const response = await this.cachedGraphGet<GraphCollection<GraphCalendar>>(
+      accessToken,
+      url,
+      bypassCache,
+    );
+    return response.value || [];
+  }
+
+  /**
+   * Resolve the zone of calendar times and automatic reply windows
+   *
+   * Without an explicit zone the mailbox time zone is used. When
+   * MailboxSettings.Read is excluded, the mailbox has no known zone or
+   * the settings cannot be read, UTC is used, matching Graph's own
+   * default. fallback then names the reason, so tools can report it
+   * instead of silently shifting local times.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param timeZone - Zone given by the caller, if any
+   * @returns Windows and IANA names, plus fallback when UTC was assumed
+   * @throws Error if an explicit zone is unknown
+   */
+  async resolveCalendarTimeZone(
+    accessToken: string,
+    timeZone?: string,
+  ): Promise<CalendarTimeZone> {
+    if (timeZone) {
+      return resolveTimeZone(timeZone);
+    }
+    const utc = (fallback: string) => ({
+      ...resolveTimeZone("UTC"),
+      fallback,
+    });
+    if (!getEnabledScopes(this.env).includes("MailboxSettings.Read")) {
+      return utc(
+        "MailboxSettings.Read is excluded by MICROSOFT_EXCLUDED_SCOPES",
+      );
+    }
+
+    let mailboxZone: string | undefined;
+    try {
+      mailboxZone = (await this.getMailboxSettings(accessToken)).timeZone;
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      logEvent("warn", "mailbox_time_zone_unavailable", { message });
+      return utc(`the mailbox settings could not be read (${message})`);
+    }
+    if (!mailboxZone) {
+      return utc("the mailbox has no time zone set");
+    }
+    try {
+      return resolveTimeZone(mailboxZone);
+    } catch {
+      return utc(`the mailbox time zone "${mailboxZone}" is not recognized`);
+    }
+  }
+
+  // ============================================================================
+  // TEAMS OPERATIONS
+  // ============================================================================
+  async sendTeamsMessage(
+    accessToken: string,
+    params: TeamsMessageParams,
+  ): Promise<GraphChatMessage> {
+    const url = `${this.baseUrl}/teams/${params.teamId}/channels/${params.channelId}/messages`;
+
+    const body = {
+      body: {
+        contentType: "html",
+        content: params.message,
+      },
+    };
+
+    const response = await this.makeGraphRequest<GraphChatMessage>(
+      accessToken,
+      url,
+      "POST",
+      body,
+    );
+    return response;
+  }
+
+  async createTeamsMeeting(
+    accessToken: string,
+    params: TeamsMeetingParams,
+  ): Promise<GraphOnlineMeeting> {
+    const url = `${this.baseUrl}/me/onlineMeetings`;
+
+    const body = {
+      subject: params.subject,
+      startDateTime: params.startTime,
+      endDateTime: params.endTime,
+      participants: {
+        attendees:
+          params.attendees?.map((email) => ({
+            identity: {
+              user: {
+                id: email,
+              },
+            },
+          })) || [],
+      },
+    };
+
+    const response = await this.makeGraphRequest<GraphOnlineMeeting>(
+      accessToken,
+      url,
+      "POST",
+      body,
+    );
+    return response;
+  }
+
+  async getTeams(
+    accessToken: string,
+    bypassCache = false,
+  ): Promise<GraphTeam[]> {
+    const url = `${this.baseUrl}${JOINED_TEAMS_PATH}`;
+
+    const response = await this.cachedGraphGet<GraphCollection<GraphTeam>>(
+      accessToken,
+      url,
+      bypassCache,
+    );
+    return response.value || [];
+  }
+
+  // ============================================================================
+  // CONTACT OPERATIONS
+  // ============================================================================
+  async getContacts(
+    accessToken: string,
+    params: ContactsParams,
+  ): Promise<GraphPage<ContactSummary>> {
+    const count = Math.min(params.count || 50, 100);
+
+    // Use /me/people to get contacts from all sources (personal, GAL, etc.)
+    // Only select properties that exist on microsoft.graph.person
+    let url = `${this.baseUrl}/me/people?$top=${count}&$select=id,displayName,scoredEmailAddresses,phones,personType`;
+
+    if (params.search) {
+      url += `&$search="${encodeURIComponent(params.search)}"`;
+    }
+
+    url = this.resolvePageUrl(params.nextLink, url);
+
+    const response = await this.cachedGraphGet<GraphCollection<GraphPerson>>(
+      accessToken,
+      url,
+      params.bypassCache,
+    );
+
+    /** Transform Microsoft Graph person objects to simplified contact format */
+    const contacts: ContactSummary[] =
+      response.value?.map((person) => ({
+        id: person.id,
+        displayName: person.displayName,
+        emailAddresses:
+          person.scoredEmailAddresses?.map((e) => ({
+            address: e.address,
+            name: e.displayName,
+          })) || [],
+        businessPhones:
+          person.phones
+            ?.filter((p) => p.type === "business")
+            .map((p) => p.number || "") || [],
+        mobilePhone:
+          person.phones?.find((p) => p.type === "mobile")?.number || null,
+        personType: person.personType,
+      })) || [];
+
+    return { items: contacts, nextLink: response["@odata.nextLink"] };
+  }
+
+  // ============================================================================
+  // USER PROFILE OPERATIONS
+  // ============================================================================
+  async getUserProfile(
+    accessToken: string,
+    bypassCache = false,
+  ): Promise<GraphUserProfile> {
+    const url = `${this.baseUrl}${PROFILE_PATH}`;
+
+    const response = await this.cachedGraphGet<GraphUserProfile>(
+      accessToken,
+      url,
+      bypassCache,
+    );
+    return response;
+  }
+
+  // ============================================================================
+  // MAILBOX SETTINGS
+  // ============================================================================
+
+  /**
+   * Get time zone, language, formats, working hours and automatic replies
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param bypassCache - Skip CACHE_KV, e.g. before a read-modify-write
+   * @returns Mailbox settings
+   */
+  async getMailboxSettings(
+    accessToken: string,
+    bypassCache = false,
+  ): Promise<GraphMailboxSettings> {
+    return this.cachedGraphGet<GraphMailboxSettings>(
+      accessToken,
+      `${this.baseUrl}${MAILBOX_SETTINGS_PATH}`,
+      bypassCache,
+    );
+  }
+
+  /**
+   * Update time zone, language, formats or working hours
+   *
+   * Graph replaces workingHours as a whole, so partial working hours are
+   * merged into the current value first.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Changed settings
+   * @returns Updated settings as returned by Graph
+   * @throws Error if no change is given or a time is malformed
+   */
+  async updateMailboxSettings(
+    accessToken: string,
+    params: MailboxSettingsUpdateParams,
+  ): Promise<GraphMailboxSettings> {
+    const changes: GraphMailboxSettings = {};
+
+    if (params.timeZone) {
+      changes.timeZone = params.timeZone;
+    }
+    if (params.language) {
+      changes.language = { locale: params.language };
+    }
+    if (params.dateFormat) {
+      changes.dateFormat = params.dateFormat;
+    }
+    if (params.timeFormat) {
+      changes.timeFormat = params.timeFormat;
+    }
+    if (params.workingHours) {
+      const { workingHours = {} } = await this.getMailboxSettings(
+        accessToken,
+        true,
+      );
+      const update = params.workingHours;
+      changes.workingHours = {
+        daysOfWeek: update.daysOfWeek || workingHours.daysOfWeek,
+        startTime: update.startTime
+          ? this.toGraphTimeOfDay(update.startTime, "workingHours.startTime")
+          : workingHours.startTime,
+        endTime: update.endTime
+          ? this.toGraphTimeOfDay(update.endTime, "workingHours.endTime")
+          : workingHours.endTime,
+        timeZone: update.timeZone
+          ? { name: update.timeZone }
+          : workingHours.timeZone,
+      };
+    }
+    if (Object.keys(changes).length === 0) {
+      throw new Error("No mailbox setting to change");
+    }
+
+    const settings = await this.makeGraphRequest<GraphMailboxSettings>(
+      accessToken,
+      `${this.baseUrl}${MAILBOX_SETTINGS_PATH}`,
+      "PATCH",
+      changes,
+    );
+    await this.invalidateCache(accessToken, ["mailboxSettings"]);
+    return settings;
+  }
+
+  /**
+   * Turn automatic replies on, off or schedule them
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Status, messages, audience and scheduled window
+   * @returns Resulting automatic replies setting
+   * @throws Error if a scheduled window is missing, invalid or ends before
+   *         it starts, or the time zone is unknown
+   */
+  async setAutomaticReplies(
+    accessToken: string,
+    params: AutomaticRepliesParams,
+  ): Promise<GraphAutomaticRepliesSetting> {
+    const setting: GraphAutomaticRepliesSetting = { status: params.status };
+
+    if (params.status === "scheduled") {
+      if (!params.startDateTime || !params.endDateTime) {
+        throw new Error(
+          "Scheduled automatic replies need startDateTime and endDateTime",
+        );
+      }
+      const timeZone = await this.resolveCalendarTimeZone(
+        accessToken,
+        params.timeZone,
+      );
+      const start = toZonedDateTime(
+        params.startDateTime,
+        timeZone.iana,
+        "startDateTime",
+      );
+      const end = toZonedDateTime(
+        params.endDateTime,
+        timeZone.iana,
+        "endDateTime",
+      );
+      if (end <= start) {
+        throw new Error(
+          `endDateTime (${end}) must be after startDateTime (${start}) in ${timeZone.windows}`,
+        );
+      }
+      setting.scheduledStartDateTime = {
+        dateTime: start,
+        timeZone: timeZone.windows,
+      };
+      setting.scheduledEndDateTime = {
+        dateTime: end,
+        timeZone: timeZone.windows,
+      };
+    }
+    if (params.internalMessage !== undefined) {
+      setting.internalReplyMessage = textToHtml(params.internalMessage);
+    }
+    if (params.externalMessage !== undefined) {
+      setting.externalReplyMessage = textToHtml(params.externalMessage);
+    }
+    if (params.externalAudience) {
+      setting.externalAudience = params.externalAudience;
+    }
+
+    const settings = await this.makeGraphRequest<GraphMailboxSettings>(
+      accessToken,
+      `${this.baseUrl}${MAILBOX_SETTINGS_PATH}`,
+      "PATCH",
+      { automaticRepliesSetting: setting },
+    );
+    await this.invalidateCache(accessToken, ["mailboxSettings"]);
+    return settings.automaticRepliesSetting || setting;
+  }
+
+  /**
+   * Normalize "HH:mm" or "HH:mm:ss" to the Graph timeOfDay format
+   * @private
+   */
+  private toGraphTimeOfDay(value: string, field: string): string {
+    const match = /^([01]?\d|2[0-3]):([0-5]\d)(?::([0-5]\d))?$/.exec(
+      value.trim(),
+    );
+    if (!match) {
+      throw new Error(`Invalid time in ${field}: "${value}". Use HH:mm`);
+    }
+    const [, hours, minutes, seconds = "00"] = match;
+    return `${hours.padStart(2, "0")}:${minutes}:${seconds}.0000000`;
+  }
+
+  // ============================================================================
+  // DELTA SYNC OPERATIONS
+  // ============================================================================
+
+  /**
+   * Fetch messages added, changed or removed in a mail folder
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Folder (default inbox) and optional link to resume from
+   * @returns Changed messages, removed ids and the link for the next call
+   */
+  async getEmailsDelta(
+    accessToken: string,
+    params: DeltaSyncParams,
+  ): Promise<DeltaSyncResult<GraphMessage>> {
+    const url =
+      params.link ||
+      `${this.baseUrl}${this.getMailboxPath(params.mailbox)}/mailFolders/${encodeURIComponent(await this.resolveMailFolderId(accessToken, params.folder || "inbox", params.mailbox))}/messages/delta?$select=id,subject,from,receivedDateTime,bodyPreview,isRead,createdDateTime,lastModifiedDateTime`;
+
+    return this.followDelta(accessToken, url, params.maxPages);
+  }
+
+  /**
+   * Fetch calendar events added, changed or removed in a time window
+   *
+   * The window (now to now + days) is fixed by the initial request and
+   * carried inside the delta link, so resumed syncs ignore days.
+   * calendarView delta does not support $select.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Window size in days (max 90) and optional link
+   * @returns Changed events, removed ids and the link for the next call
+   */
+  async getCalendarEventsDelta(
+    accessToken: string,
+    params: DeltaSyncParams,
+  ): Promise<DeltaSyncResult<GraphEvent>> {
+    let url = params.link;
+
+    if (!url) {
+      const days = Math.min(params.days || 30, 90);
+      const startTime = new Date().toISOString();
+      const endTime = new Date(
+        Date.now() + days * 24 * 60 * 60 * 1000,
+      ).toISOString();
+      url = `${this.baseUrl}/me/calendarView/delta?startDateTime=${startTime}&endDateTime=${endTime}`;
+    }
+
+    return this.followDelta(accessToken, url, params.maxPages);
+  }
+
+  /**
+   * Fetch personal contacts added, changed or removed
+   *
+   * Uses /me/contacts (personal contacts) because /me/people has no
+   * delta support.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param params - Optional link to resume from
+   * @returns Changed contacts, removed ids and the link for the next call
+   */
+  async getContactsDelta(
+    accessToken: string,
+    params: DeltaSyncParams,
+  ): Promise<DeltaSyncResult<GraphContact>> {
+    const url =
+      params.link ||
+      `${this.baseUrl}/me/contacts/delta?$select=id,displayName,emailAddresses,businessPhones,mobilePhone,companyName,createdDateTime,lastModifiedDateTime`;
+
+    return this.followDelta(accessToken, url, params.maxPages);
+  }
+
+  /**
+   * Follow delta pages until a deltaLink or the page limit is reached
+   *
+   * Items carrying @removed are reported as removed ids; everything else
+   * is a new or updated item. When the page limit stops the walk early
+   * the nextLink is returned so the caller can resume later.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param initialUrl - Initial delta URL, deltaLink or nextLink
+   * @param maxPages - Maximum pages to retrieve (default: 5)
+   * @returns Aggregated changes and the link to continue from
+   * @private
+   */
+  private async followDelta<T extends { id: string }>(
+    accessToken: string,
+    initialUrl: string,
+    maxPages: number = 5,
+  ): Promise<DeltaSyncResult<T>> {
+    const result: DeltaSyncResult<T> = { changed: [], removed: [] };
+    let url: string | undefined = initialUrl;
+    let pageCount = 0;
+
+    while (url && pageCount < maxPages) {
+      const response: GraphCollection<T & { "@removed"?: { reason: string } }> =
+        await this.makeGraphRequest(accessToken, url, "GET");
+
+      for (const item of response.value || []) {
+        if (item["@removed"]) {
+          result.removed.push(item.id);
+        } else {
+          result.changed.push(item);
+        }
+      }
+
+      result.deltaLink = response["@odata.deltaLink"];
+      url = response["@odata.nextLink"];
+      pageCount++;
+    }
+
+    if (url) {
+      result.nextLink = url;
+    }
+
+    return result;
+  }
+
+  // ============================================================================
+  // ATTACHMENT UPLOADS
+  // ============================================================================
+
+  /**
+   * Add attachments to an existing message or event
+   *
+   * Files up to 3 MB are posted as fileAttachment resources; larger files
+   * go through an upload session. Attachments are added sequentially so
+   * progress is reported in order and Outlook's per-mailbox concurrency
+   * limit is respected.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param parentPath - Relative path of the item (e.g. "/me/messages/{id}")
+   * @param attachments - Resolved attachments
+   * @param onProgress - Called after each uploaded chunk or attachment
+   * @private
+   */
+  private async addAttachments(
+    accessToken: string,
+    parentPath: string,
+    attachments: ResolvedAttachment[],
+    onProgress?: UploadProgressCallback,
+  ): Promise<void> {
+    const totalBytes = attachments.reduce((sum, a) => sum + a.bytes.length, 0);
+    let uploadedBytes = 0;
+
+    for (const attachment of attachments) {
+      if (attachment.bytes.length <= INLINE_ATTACHMENT_LIMIT) {
+        await this.makeGraphRequest(
+          accessToken,
+          `${this.baseUrl}${parentPath}/attachments`,
+          "POST",
+          this.toFileAttachment(attachment),
+        );
+        uploadedBytes += attachment.bytes.length;
+        await onProgress?.({
+          attachment: attachment.name,
+          uploadedBytes,
+          totalBytes,
+        });
+        continue;
+      }
+
+      const session = await this.makeGraphRequest<GraphUploadSession>(
+        accessToken,
+        `${this.baseUrl}${parentPath}/attachments/createUploadSession`,
+        "POST",
+        {
+          AttachmentItem: {
+            attachmentType: "file",
+            name: attachment.name,
+            size: attachment.bytes.length,
+            contentType: attachment.contentType,
+            isInline: attachment.isInline,
+            contentId: attachment.contentId,
+          },
+        },
+      );
+
+      for (
+        let start = 0;
+        start < attachment.bytes.length;
+        start += UPLOAD_CHUNK_SIZE
+      ) {
+        const chunk = attachment.bytes.subarray(
+          start,
+          start + UPLOAD_CHUNK_SIZE,
+        );
+        await this.uploadChunk(
+          session.uploadUrl,
+          chunk,
+          start,
+          attachment.bytes.length,
+        );
+        uploadedBytes += chunk.length;
+        await onProgress?.({
+          attachment: attachment.name,
+          uploadedBytes,
+          totalBytes,
+        });
+      }
+    }
+  }
+
+  /**
+   * PUT one byte range to an upload session
+   *
+   * SECURITY:
+   * The uploadUrl carries its own short-lived credential; Graph rejects
+   * chunk requests that also send the Authorization header, so the
+   * access token is never attached here.
+   *
+   * Chunks are retried like idempotent requests because the byte range
+   * makes a replay harmless.
+   *
+   * @param uploadUrl - Pre-authenticated URL from createUploadSession
+   * @param chunk - Bytes for this range
+   * @param start - Offset of the first byte
+   * @param totalSize - Size of the whole attachment
+   * @param retryCount - Internal retry counter
+   * @throws GraphError when the chunk cannot be uploaded
+   * @private
+   */
+  private async uploadChunk(
+    uploadUrl: string,
+    chunk: Uint8Array,
+    start: number,
+    totalSize: number,
+    retryCount: number = 0,
+  ): Promise<void> {
+    const clientRequestId = this.trace?.correlationId || crypto.randomUUID();
+    const startedAt = Date.now();
+
+    let response: Response;
+    try {
+      response = await fetch(uploadUrl, {
+        method: "PUT",
+        headers: {
+          "client-request-id": clientRequestId,
+          "Content-Type": "application/octet-stream",
+          "Content-Length": String(chunk.length),
+          "Content-Range": `bytes ${start}-${start + chunk.length - 1}/${totalSize}`,
+        },
+        body: chunk,
+      });
+    } catch (networkError) {
+      const durationMs = Date.now() - startedAt;
+      this.logGraphCall("PUT", uploadUrl, 0, retryCount, {
+        clientRequestId,
+        durationMs,
+      });
+
+      if (retryCount < MAX_RETRIES) {
+        await this.sleep(this.getRetryDelay(retryCount, null));
+        return this.uploadChunk(
+          uploadUrl,
+          chunk,
+          start,
+          totalSize,
+          retryCount + 1,
+        );
+      }
+
+      throw new GraphError(
+        `Attachment upload network error: ${networkError}${this.formatRetryInfo(retryCount, null)}`,
+        {
+          status: 0,
+          code: "networkError",
+          attempts: retryCount + 1,
+          clientRequestId,
+          durationMs,
+        },
+      );
+    }
+
+    const diagnostics = this.getResponseDiagnostics(
+      response,
+      clientRequestId,
+      startedAt,
+    );
+    this.logGraphCall(
+      "PUT",
+      uploadUrl,
+      response.status,
+      retryCount,
+      diagnostics,
+    );
+
+    const responseText = await response.text();
+    if (response.ok) {
+      return;
+    }
+
+    const retryAfter = response.headers.get("Retry-After");
+    if (retryCount < MAX_RETRIES && this.isRetryable("PUT", response.status)) {
+      await this.sleep(this.getRetryDelay(retryCount, retryAfter));
+      return this.uploadChunk(
+        uploadUrl,
+        chunk,
+        start,
+        totalSize,
+        retryCount + 1,
+      );
+    }
+
+    let errorData;
+    try {
+      errorData = JSON.parse(responseText);
+    } catch {
+      errorData = { error: { message: responseText } };
+    }
+
+    throw this.createGraphError(
+      uploadUrl,
+      response.status,
+      errorData,
+      retryCount,
+      retryAfter,
+      diagnostics,
+    );
+  }
+
+  /**
+   * Build a fileAttachment resource for inline upload
+   * @private
+   */
+  private toFileAttachment(attachment: ResolvedAttachment) {
+    return {
+      "@odata.type": "#microsoft.graph.fileAttachment",
+      name: attachment.name,
+      contentType: attachment.contentType,
+      contentBytes: bytesToBase64(attachment.bytes),
+      isInline: attachment.isInline,
+      contentId: attachment.contentId,
+    };
+  }
+
+  // ============================================================================
+  // RESPONSE CACHE
+  // ============================================================================
+
+  /**
+   * GET a Graph resource through the per-user CACHE_KV cache
+   *
+   * FLOW:
+   * 1. Endpoints without a cache policy go straight to Graph
+   * 2. Fresh entries are returned without a Graph call
+   * 3. Stale entries with an ETag are revalidated via If-None-Match;
+   *    a 304 reuses the cached body and restarts its TTL
+   * 4. Everything else is fetched and stored
+   *
+   * Caching is skipped when the token carries no oid claim, because
+   * entries could not be partitioned per user.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param url - Absolute Graph URL under baseUrl
+   * @param bypassCache - Skip the cache lookup (the response is still stored)
+   * @returns Parsed JSON response
+   * @template T - Expected shape of the JSON response
+   * @private
+   */
+  private async cachedGraphGet<T>(
+    accessToken: string,
+    url: string,
+    bypassCache = false,
+  ): Promise<T> {
+    const relativeUrl = url.slice(this.baseUrl.length);
+    const policy = this.cache.getPolicy(relativeUrl);
+    const userKey = getTokenObjectId(accessToken);
+
+    if (!policy || !userKey) {
+      return this.makeGraphRequest<T>(accessToken, url, "GET");
+    }
+
+    const cached = bypassCache
+      ? null
+      : await this.cache.get<T>(userKey, relativeUrl, policy);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.body;
+    }
+
+    const meta = { status: 200, etag: null as string | null };
+    const response = await this.makeGraphRequest<T>(
+      accessToken,
+      url,
+      "GET",
+      undefined,
+      {
+        headers: cached?.etag ? { "If-None-Match": cached.etag } : undefined,
+        onResponse: (r) => {
+          meta.status = r.status;
+          meta.etag = r.headers.get("ETag");
+        },
+      },
+    );
+
+    const body = meta.status === 304 && cached ? cached.body : response;
+    await this.cache.put(
+      userKey,
+      relativeUrl,
+      policy,
+      body,
+      meta.etag || cached?.etag,
+    );
+    return body;
+  }
+
+  /**
+   * Drop cached responses affected by a write operation
+   *
+   * @param accessToken - Microsoft Graph access token (identifies the user)
+   * @param groups - Cache groups to invalidate
+   * @private
+   */
+  private async invalidateCache(
+    accessToken: string,
+    groups: string[],
+  ): Promise<void> {
+    const userKey = getTokenObjectId(accessToken);
+    if (userKey) {
+      await this.cache.invalidate(userKey, groups);
+    }
+  }
+
+  // ============================================================================
+  // BATCH OPERATIONS
+  // ============================================================================
+
+  /**
+   * Execute multiple Graph requests through the JSON $batch endpoint
+   *
+   * Combines up to 20 requests per HTTP round trip. Larger inputs are
+   * split into sequential batches after ordering by dependsOn, so a
+   * request always runs after the requests it depends on.
+   *
+   * DEPENDENCY HANDLING:
+   * - dependsOn within the same batch is forwarded to Graph
+   * - dependsOn across batches is resolved locally: succeeded
+   *   dependencies are dropped, failed ones yield a 424 result
+   *
+   * THROTTLING:
+   * Sub-requests answered with 429/503/504 are resent in a follow-up
+   * batch (with anything that failed because of them) using the same
+   * Retry-After and backoff policy as makeGraphRequest.
+   *
+   * Every request gets a result: one Graph leaves out of its response
+   * gets a 502 error result instead of none.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param requests - Sub-requests with caller-chosen unique ids
+   * @returns Results keyed by request id, one for every request
+   * @throws Error on duplicate ids, unknown or circular dependencies
+   */
+  async batch<T = any>(
+    accessToken: string,
+    requests: BatchRequestItem[],
+  ): Promise<Record<string, BatchResponseItem<T>>> {
+    const ordered = this.orderBatchRequests(requests);
+    const results: Record<string, BatchResponseItem<T>> = {};
+
+    for (let i = 0; i < ordered.length; i += MAX_BATCH_SIZE) {
+      await this.executeBatchChunk(
+        accessToken,
+        ordered.slice(i, i + MAX_BATCH_SIZE),
+        results,
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Fetch user profile, mailbox settings, calendars and joined teams in a
+   * single $batch call
+   *
+   * Used by the microsoft://profile, microsoft://mailbox-settings,
+   * microsoft://calendars and microsoft://teams resources, which clients
+   * typically read together.
+   *
+   * CACHING:
+   * Fresh CACHE_KV entries are served directly; only the remaining
+   * resources are batched, with If-None-Match for stale entries.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @returns Per-resource results; list bodies are unwrapped from value
+   */
+  async getResourceSnapshot(accessToken: string): Promise<ResourceSnapshot> {
+    const userKey = getTokenObjectId(accessToken);
+    const paths: Record<keyof ResourceSnapshot, string> = {
+      profile: PROFILE_PATH,
+      mailboxSettings: MAILBOX_SETTINGS_PATH,
+      calendars: CALENDARS_PATH,
+      teams: JOINED_TEAMS_PATH,
+    };
+
+    const results: Record<string, BatchResponseItem> = {};
+    const cachedEntries: Record<string, CacheEntry | null> = {};
+    const requests: BatchRequestItem[] = [];
+
+    for (const [id, path] of Object.entries(paths)) {
+      const policy = this.cache.getPolicy(path);
+      const cached =
+        policy && userKey ? await this.cache.get(userKey, path, policy) : null;
+
+      if (cached && cached.expiresAt > Date.now()) {
+        results[id] = { id, status: 200, body: cached.body };
+        continue;
+      }
+
+      cachedEntries[id] = cached;
+      requests.push({
+        id,
+        method: "GET",
+        url: path,
+        headers: cached?.etag ? { "If-None-Match": cached.etag } : undefined,
+      });
+    }
+
+    if (requests.length > 0) {
+      const fetched = await this.batch(accessToken, requests);
+
+      for (const request of requests) {
+        const item = fetched[request.id];
+        const cached = cachedEntries[request.id];
+        const policy = this.cache.getPolicy(request.url);
+
+        if (item.status === 304 && cached) {
+          item.status = 200;
+          item.body = cached.body;
+        }
+
+        if (!item.error && policy && userKey) {
+          await this.cache.put(
+            userKey,
+            request.url,
+            policy,
+            item.body,
+            this.getHeader(item.headers, "ETag") || cached?.etag,
+          );
+        }
+        results[request.id] = item;
+      }
+    }
+
+    const unwrapList = (item: BatchResponseItem): BatchResponseItem<any[]> =>
+      item.error ? item : { ...item, body: item.body?.value || [] };
+
+    return {
+      profile: results.profile,
+      mailboxSettings: results.mailboxSettings,
+      calendars: unwrapList(results.calendars),
+      teams: unwrapList(results.teams),
+    };
+  }
+
+  /**
+   * Validate batch requests and order them so dependencies come first
+   *
+   * @param requests - Caller-supplied batch requests
+   * @returns Requests in dependency order (stable for independent items)
+   * @throws Error on duplicate ids, unknown or circular dependencies
+   * @private
+   */
+  private orderBatchRequests(requests: BatchRequestItem[]): BatchRequestItem[] {
+    const byId = new Map<string, BatchRequestItem>();
+    for (const request of requests) {
+      if (byId.has(request.id)) {
+        throw new Error(`Duplicate batch request id: ${request.id}`);
+      }
+      byId.set(request.id, request);
+    }
+
+    const ordered: BatchRequestItem[] = [];
+    const visited = new Set<string>();
+    const visiting = new Set<string>();
+
+    const visit = (request: BatchRequestItem) => {
+      if (visited.has(request.id)) return;
+      if (visiting.has(request.id)) {
+        throw new Error(`Circular batch dependency at request: ${request.id}`);
+      }
+
+      visiting.add(request.id);
+      for (const dependencyId of request.dependsOn || []) {
+        const dependency = byId.get(dependencyId);
+        if (!dependency) {
+          throw new Error(
+            `Batch request ${request.id} depends on unknown request: ${dependencyId}`,
+          );
+        }
+        visit(dependency);
+      }
+      visiting.delete(request.id);
 
-    const url = `${this.baseUrl}/me/calendarView?startDateTime=${startTime}&endDateTime=${endTime}&$select=id,subject,start,end,attendees,organizer,webLink`;
+      visited.add(request.id);
+      ordered.push(request);
+    };
 
-    const response = await this.makeGraphRequest(accessToken, url, "GET");
-    return response.value || [];
+    requests.forEach(visit);
+    return ordered;
   }
 
-  async createCalendarEvent(
+  /**
+   * Send one $batch payload (max 20 requests) and record its results
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param chunk - Requests for this round trip, in dependency order
+   * @param results - Accumulated results, also used for cross-batch dependencies
+   * @private
+   */
+  private async executeBatchChunk(
     accessToken: string,
-    params: CalendarEventParams,
-  ): Promise<any> {
-    const url = `${this.baseUrl}/me/events`;
+    chunk: BatchRequestItem[],
+    results: Record<string, BatchResponseItem>,
+  ): Promise<void> {
+    /**
+     * Resolve dependencies that already have a result. Requests are in
+     * dependency order, so these ran in an earlier batch or were skipped
+     * earlier in this chunk.
+     */
+    let pending: BatchRequestItem[] = [];
+    for (const request of chunk) {
+      const failedDependency = request.dependsOn?.find(
+        (id) => results[id]?.error,
+      );
+      if (failedDependency) {
+        results[request.id] = {
+          id: request.id,
+          status: 424,
+          error: new GraphError(
+            `Batch request ${request.id} skipped: dependency ${failedDependency} failed`,
+            { status: 424, code: "failedDependency" },
+          ),
+        };
+        continue;
+      }
+      pending.push(request);
+    }
 
-    const body = {
-      subject: params.subject,
-      start: {
-        dateTime: params.start,
-        timeZone: "UTC",
-      },
-      end: {
-        dateTime: params.end,
-        timeZone: "UTC",
-      },
-      attendees:
-        params.attendees?.map((email) => ({
-          emailAddress: { address: email },
-          type: "required",
-        })) || [],
-      body: {
-        contentType: "html",
-        content: params.body || "",
-      },
-    };
+    for (let retryCount = 0; pending.length > 0; retryCount++) {
+      const pendingIds = new Set(pending.map((r) => r.id));
+      const payload = {
+        requests: pending.map((request) => {
+          const subRequest: Record<string, any> = {
+            id: request.id,
+            method: request.method,
+            url: request.url,
+          };
 
-    const response = await this.makeGraphRequest(
-      accessToken,
-      url,
-      "POST",
-      body,
-    );
-    return response;
-  }
+          /** Graph requires an explicit Content-Type for sub-request bodies */
+          if (request.body !== undefined) {
+            subRequest.body = request.body;
+            subRequest.headers = {
+              "Content-Type": "application/json",
+              ...request.headers,
+            };
+          } else if (request.headers) {
+            subRequest.headers = request.headers;
+          }
 
-  async getCalendars(accessToken: string): Promise<any> {
-    const url = `${this.baseUrl}/me/calendars?$select=id,name,color,canEdit,owner`;
+          const dependsOn = request.dependsOn?.filter((id) =>
+            pendingIds.has(id),
+          );
+          if (dependsOn && dependsOn.length > 0) {
+            subRequest.dependsOn = dependsOn;
+          }
 
-    const response = await this.makeGraphRequest(accessToken, url, "GET");
-    return response.value || [];
-  }
+          return subRequest;
+        }),
+      };
 
-  // ============================================================================
-  // TEAMS OPERATIONS
-  // ============================================================================
-  async sendTeamsMessage(
-    accessToken: string,
-    params: TeamsMessageParams,
-  ): Promise<any> {
-    const url = `${this.baseUrl}/teams/${params.teamId}/channels/${params.channelId}/messages`;
+      const response = await this.makeGraphRequest(
+        accessToken,
+        `${this.baseUrl}/$batch`,
+        "POST",
+        payload,
+      );
 
-    const body = {
-      body: {
-        contentType: "html",
-        content: params.message,
-      },
-    };
+      const retryIds = new Set<string>();
+      let retryAfter: string | null = null;
 
-    const response = await this.makeGraphRequest(
-      accessToken,
-      url,
-      "POST",
-      body,
-    );
-    return response;
-  }
+      for (const sub of response.responses || []) {
+        const request = pending.find((r) => r.id === sub.id);
+        if (!request) continue;
 
-  async createTeamsMeeting(
-    accessToken: string,
-    params: TeamsMeetingParams,
-  ): Promise<any> {
-    const url = `${this.baseUrl}/me/onlineMeetings`;
+        const subRetryAfter = this.getHeader(sub.headers, "Retry-After");
+        if (
+          retryCount < MAX_RETRIES &&
+          this.isRetryable(request.method, sub.status)
+        ) {
+          retryIds.add(request.id);
+          retryAfter = subRetryAfter || retryAfter;
+          continue;
+        }
 
-    const body = {
-      subject: params.subject,
-      startDateTime: params.startTime,
-      endDateTime: params.endTime,
-      participants: {
-        attendees:
-          params.attendees?.map((email) => ({
-            identity: {
-              user: {
-                id: email,
-              },
-            },
-          })) || [],
-      },
-    };
+        results[request.id] = this.toBatchResponseItem(
+          request,
+          sub,
+          retryCount,
+          subRetryAfter,
+        );
+      }
 
-    const response = await this.makeGraphRequest(
-      accessToken,
-      url,
-      "POST",
-      body,
-    );
-    return response;
-  }
+      /** Sub-requests Graph did not answer at all */
+      for (const request of pending) {
+        if (!retryIds.has(request.id) && !results[request.id]) {
+          results[request.id] = {
+            id: request.id,
+            status: 502,
+            error: new GraphError(
+              `Batch request ${request.id} got no response from Microsoft Graph`,
+              { status: 502, code: "missingBatchResponse" },
+            ),
+          };
+        }
+      }
 
-  async getTeams(accessToken: string): Promise<any> {
-    const url = `${this.baseUrl}/me/joinedTeams?$select=id,displayName,description,webUrl`;
+      /** Requests that failed only because a throttled dependency did not run */
+      let added = true;
+      while (added) {
+        added = false;
+        for (const request of pending) {
+          if (
+            !retryIds.has(request.id) &&
+            results[request.id]?.status === 424 &&
+            request.dependsOn?.some((id) => retryIds.has(id))
+          ) {
+            delete results[request.id];
+            retryIds.add(request.id);
+            added = true;
+          }
+        }
+      }
 
-    const response = await this.makeGraphRequest(accessToken, url, "GET");
-    return response.value || [];
+      pending = pending.filter((r) => retryIds.has(r.id));
+      if (pending.length > 0) {
+        await this.sleep(this.getRetryDelay(retryCount, retryAfter));
+      }
+    }
   }
 
-  // ============================================================================
-  // CONTACT OPERATIONS
-  // ============================================================================
-  async getContacts(accessToken: string, params: ContactsParams): Promise<any> {
-    const count = Math.min(params.count || 50, 100);
+  /**
+   * Convert a raw $batch sub-response into a caller-facing result
+   *
+   * @param request - Originating batch request
+   * @param sub - Sub-response from the $batch payload
+   * @param retryCount - Retries performed for this request
+   * @param retryAfter - Retry-After header from the sub-response
+   * @returns Result with context-specific error for non-2xx statuses
+   * @private
+   */
+  private toBatchResponseItem(
+    request: BatchRequestItem,
+    sub: any,
+    retryCount: number,
+    retryAfter: string | null,
+  ): BatchResponseItem {
+    const item: BatchResponseItem = {
+      id: request.id,
+      status: sub.status,
+      body: sub.body,
+      headers: sub.headers,
+    };
 
-    // Use /me/people to get contacts from all sources (personal, GAL, etc.)
-    // Only select properties that exist on microsoft.graph.person
-    let url = `${this.baseUrl}/me/people?$top=${count}&$select=id,displayName,scoredEmailAddresses,phones,personType`;
+    if (sub.status >= 400) {
+      item.error = this.createGraphError(
+        request.url,
+        sub.status,
+        sub.body || {},
+        retryCount,
+        retryAfter,
+        {
+          clientRequestId: this.trace?.correlationId,
+          requestId: this.getHeader(sub.headers, "request-id") || undefined,
+          throttle: getThrottleHeaders((name) =>
+            this.getHeader(sub.headers, name),
+          ),
+        },
+      );
 
-    if (params.search) {
-      url += `&$search="${encodeURIComponent(params.search)}"`;
+      logEvent("warn", "graph_batch_item", {
+        correlationId: this.trace?.correlationId,
+        operation: this.trace?.operation,
+        batchItemId: request.id,
+        method: request.method,
+        path: request.url.split("?")[0],
+        status: sub.status,
+        requestId: item.error.requestId,
+        throttle: item.error.throttle,
+      });
     }
 
-    const response = await this.makeGraphRequest(accessToken, url, "GET");
-
-    /** Transform Microsoft Graph person objects to simplified contact format */
-    const contacts =
-      response.value?.map((person: any) => ({
-        id: person.id,
-        displayName: person.displayName,
-        emailAddresses:
-          person.scoredEmailAddresses?.map((e: any) => ({
-            address: e.address,
-            name: e.displayName,
-          })) || [],
-        businessPhones:
-          person.phones
-            ?.filter((p: any) => p.type === "business")
-            .map((p: any) => p.number) || [],
-        mobilePhone:
-          person.phones?.find((p: any) => p.type === "mobile")?.number || null,
-        personType: person.personType,
-      })) || [];
-
-    return contacts;
+    return item;
   }
 
-  // ============================================================================
-  // USER PROFILE OPERATIONS
-  // ============================================================================
-  async getUserProfile(accessToken: string): Promise<any> {
-    const url = `${this.baseUrl}/me?$select=id,displayName,mail,userPrincipalName,jobTitle,department,companyName`;
-
-    const response = await this.makeGraphRequest(accessToken, url, "GET");
-    return response;
+  /** Case-insensitive lookup in a $batch sub-response header object */
+  private getHeader(
+    headers: Record<string, string> | undefined,
+    name: string,
+  ): string | null {
+    const key = Object.keys(headers || {}).find(
+      (k) => k.toLowerCase() === name.toLowerCase(),
+    );
+    return key ? headers![key] : null;
   }
 
   /**
    * Generate context-specific error messages based on endpoint and error type
    *
    * PERMISSION MAPPING:
-   * Maps Microsoft Graph endpoints to required Azure AD scopes and provides
+   * Looks up required Azure AD scopes in the scope registry and provides
    * actionable troubleshooting steps for common permission issues.
    *
    * ERROR TYPES:
    * - 401: Token expiration (handled by OAuth Provider refresh)
    * - 403: Permission denied (scope or admin consent issues)
-   * - 429: Rate limiting (implement exponential backoff)
-   * - 503: Service unavailable (transient, retry with backoff)
+   * - 429: Rate limiting (retries exhausted or request unsafe to replay)
+   * - 503/504: Service unavailable or gateway timeout (transient)
    * - Other: Generic Graph API errors
    *
    * RETRY LOGIC IMPLEMENTATION:
-   * Currently relies on OAuth Provider's built-in retry mechanism
-   * for 401 errors (token refresh). For 429 (rate limiting) and
-   * 503 (service unavailable), consider implementing:
-   * - Exponential backoff with jitter
-   * - Respect Retry-After headers from Microsoft
-   * - Circuit breaker pattern for persistent failures
+   * 401 errors rely on the OAuth Provider's token refresh. 429, 503
+   * and 504 are retried by makeGraphRequest before reaching this
+   * method, so messages for those statuses describe exhausted retries.
    *
    * 204 NO CONTENT HANDLING:
    * Some Graph API operations return 204 with no body:
@@ -351,88 +3861,29 @@ export class MicrosoftGraphClient {
     status: number,
     errorData: any,
   ): string {
-    const endpoint = url.toLowerCase();
     const baseError = errorData.error?.message || "Access denied";
 
-    /**
-     * Endpoint permission mapping
-     *
-     * STRUCTURE:
-     * - permissions: Required Azure AD scopes for the endpoint
-     * - adminConsentRequired: Scopes needing tenant admin approval
-     * - description: Human-readable description for error messages
-     */
-    const endpointMap = {
-      "/me/people": {
-        permissions: ["People.Read", "People.Read.All"],
-        adminConsentRequired: ["People.Read.All"],
-        description: "contacts from directory and personal contacts",
-      },
-      "/me/contacts": {
-        permissions: ["Contacts.Read", "Contacts.ReadWrite"],
-        adminConsentRequired: [],
-        description: "personal contacts",
-      },
-      "/me/messages": {
-        permissions: ["Mail.Read", "Mail.ReadWrite"],
-        adminConsentRequired: [],
-        description: "email messages",
-      },
-      "/me/mailfolder": {
-        permissions: ["Mail.Read", "Mail.ReadWrite"],
-        adminConsentRequired: [],
-        description: "email messages",
-      },
-      "/me/sendmail": {
-        permissions: ["Mail.Send"],
-        adminConsentRequired: [],
-        description: "send emails",
-      },
-      "/me/calendarview": {
-        permissions: ["Calendars.Read", "Calendars.ReadWrite"],
-        adminConsentRequired: [],
-        description: "calendar events",
-      },
-      "/me/events": {
-        permissions: ["Calendars.ReadWrite"],
-        adminConsentRequired: [],
-        description: "calendar events",
-      },
-      "/me/calendars": {
-        permissions: ["Calendars.Read", "Calendars.ReadWrite"],
-        adminConsentRequired: [],
-        description: "calendars",
-      },
-      "/teams/": {
-        permissions: ["ChannelMessage.Send", "Team.ReadBasic.All"],
-        adminConsentRequired: ["Team.ReadBasic.All"],
-        description: "Teams messages",
-      },
-      "/me/onlinemeetings": {
-        permissions: ["OnlineMeetings.ReadWrite"],
-        adminConsentRequired: ["OnlineMeetings.ReadWrite"],
-        description: "Teams meetings",
-      },
-    };
-
-    // Find matching endpoint
-    const matchedEndpoint = Object.keys(endpointMap).find((pattern) =>
-      endpoint.includes(pattern.toLowerCase()),
-    );
+    const info = getEndpointScopes(url);
 
     if (status === 401) {
       return `Authentication failed: Access token expired or invalid. The OAuth provider will automatically refresh the token and retry the request.`;
     }
 
-    if (status === 403 && matchedEndpoint) {
-      const info = endpointMap[matchedEndpoint as keyof typeof endpointMap];
-      const permissionsList = info.permissions.join(" or ");
-      const adminConsentNeeded = info.adminConsentRequired.length > 0;
+    if (status === 403 && errorData.error?.code === "ErrorSendAsDenied") {
+      return `Permission denied: ${baseError}. The signed-in user may not send as this mailbox. Fix: An Exchange administrator must grant Send As on the shared mailbox, or Send on Behalf when sending with onBehalf. App registration scopes alone do not grant this.`;
+    }
+
+    if (status === 403 && info) {
+      const permissionsList = info.scopes.join(" or ");
+      const adminConsentNeeded = info.adminConsentScopes.length > 0;
+      const enabledScopes = getEnabledScopes(this.env);
 
       let message = `Permission denied for ${info.description}: Missing '${permissionsList}' scope.`;
 
-      if (adminConsentNeeded) {
-        const adminScopes = info.adminConsentRequired.join(", ");
+      if (!info.scopes.some((scope) => enabledScopes.includes(scope))) {
+        message += ` The scope is excluded by MICROSOFT_EXCLUDED_SCOPES, so it is never requested. Fix: Remove it from MICROSOFT_EXCLUDED_SCOPES and re-authenticate.`;
+      } else if (adminConsentNeeded) {
+        const adminScopes = info.adminConsentScopes.join(", ");
         message += ` The scope(s) '${adminScopes}' require admin consent.`;
         message += ` Fix: Go to Azure Portal → App Registrations → API Permissions → Grant admin consent for '${adminScopes}'.`;
       } else {
@@ -446,12 +3897,78 @@ export class MicrosoftGraphClient {
       return `Permission denied: ${baseError}. Check that your Microsoft app registration has the required API permissions and that admin consent has been granted if needed.`;
     }
 
+    if (status === 429) {
+      return `Microsoft Graph throttled the request (429): ${errorData.error?.message || "Too many requests"}. Outlook allows about 4 requests per second per mailbox - wait before retrying or reduce the number of parallel calls.`;
+    }
+
+    if (status === 503 || status === 504) {
+      return `Microsoft Graph is temporarily unavailable (${status}): ${errorData.error?.message || "Service unavailable"}. This is usually transient - try again shortly.`;
+    }
+
     // Fallback for other errors
     return `Microsoft Graph API error (${status}): ${baseError}`;
   }
 
   /**
-   * Execute Microsoft Graph API request with error handling
+   * Build a GraphError from a failed Graph response
+   *
+   * @param url - Graph URL of the failed request
+   * @param status - HTTP status code
+   * @param errorData - Parsed Graph error payload
+   * @param retryCount - Retries performed before giving up
+   * @param retryAfter - Last Retry-After header value
+   * @param diagnostics - request-id, timing and throttle headers of the failed call
+   * @returns GraphError with context-specific message and metadata
+   * @private
+   */
+  private createGraphError(
+    url: string,
+    status: number,
+    errorData: any,
+    retryCount: number,
+    retryAfter: string | null,
+    diagnostics: GraphCallDiagnostics = {},
+  ): GraphError {
+    const info = getEndpointScopes(url);
+
+    /**
+     * Authentication errors (401/403) may indicate:
+     * - Token expiration (OAuth Provider handles refresh)
+     * - Missing permissions (requires admin consent)
+     * - Invalid scopes for requested operation
+     *
+     * Throttling errors (429/503/504) reach this point only once
+     * retries are exhausted or the method is unsafe to replay.
+     */
+    const message =
+      status === 401 || status === 403 || RETRYABLE_STATUSES.includes(status)
+        ? this.getSpecificErrorMessage(url, status, errorData)
+        : `Microsoft Graph API error: ${status} - ${errorData.error?.message || "Unknown error"}`;
+
+    const retryAfterSeconds = Number(retryAfter);
+
+    return new GraphError(
+      `${message}${this.formatRetryInfo(retryCount, retryAfter)}`,
+      {
+        ...diagnostics,
+        status,
+        code: errorData.error?.code,
+        requestId:
+          diagnostics.requestId ||
+          errorData.error?.innerError?.["request-id"] ||
+          undefined,
+        requiredScopes: info?.scopes,
+        adminConsentScopes: info?.adminConsentScopes,
+        retryAfterSeconds: Number.isFinite(retryAfterSeconds)
+          ? retryAfterSeconds
+          : undefined,
+        attempts: retryCount + 1,
+      },
+    );
+  }
+
+  /**
+   * Execute Microsoft Graph API request with error handling and retries
    *
    * Automatically adds authorization header and handles JSON responses.
    * Provides comprehensive error messages for debugging permission issues.
@@ -459,46 +3976,54 @@ export class MicrosoftGraphClient {
    * FLOW:
    * 1. Add Bearer token authorization header
    * 2. Execute HTTP request to Graph API
-   * 3. Handle various response types (JSON, No Content, errors)
-   * 4. Generate context-specific error messages for failures
+   * 3. Retry throttled (429), unavailable (503/504) and network failures
+   * 4. Handle various response types (JSON, No Content, errors)
+   * 5. Generate context-specific error messages for failures
    *
    * RATE LIMITING BEHAVIOR:
    * Microsoft Graph enforces these limits:
    * - 10,000 requests per 10 minutes per app per tenant
    * - Additional endpoint-specific limits (e.g., 4 req/sec for Outlook)
    *
-   * When rate limited (429 response):
-   * - Check Retry-After header for wait time
-   * - Implement exponential backoff: 2^attempt * 1000ms
-   * - Maximum 3 retry attempts before failing
-   * - Consider request batching for bulk operations
+   * RETRY POLICY:
+   * - Retry-After header (seconds or HTTP date) is honoured when present
+   * - Otherwise exponential backoff 2^attempt * 1000ms with jitter
+   * - Maximum 3 retries (4 attempts total), waits capped at 30 seconds
+   * - Idempotent methods retry on 429, 503, 504 and network failures
+   * - POST only retries on 429: throttled requests are rejected before
+   *   Graph processes them, whereas a 503 or dropped connection may
+   *   already have sent the mail or created the event
    *
-   * MICROSOFT GRAPH THROTTLING:
-   * Throttling indicators to watch:
-   * - 429 Too Many Requests - back off immediately
-   * - 503 Service Unavailable - transient, retry with backoff
-   * - Retry-After header - respect the suggested wait time
-   * - x-ms-throttle-* headers - throttling metrics
+   * Retry metadata (attempt count, last Retry-After) is appended to the
+   * error message when the request ultimately fails.
    *
    * @param accessToken - Microsoft Graph access token from OAuth flow
    * @param url - Complete Graph API endpoint URL
    * @param method - HTTP method (GET, POST, etc.)
    * @param body - Request body for POST/PUT requests
-   * @param _retryCount - Internal retry counter (unused currently - TODO: implement retry logic)
-   * @returns Parsed JSON response or empty object for 204 responses
-   * @throws Error with detailed message on API failures
+   * @param options - Extra headers and response observer
+   * @param retryCount - Internal retry counter, incremented on each retry
+   * @returns Parsed JSON (or text/bytes per responseType); empty object for
+   *          204 and 304 responses
+   * @throws GraphError with detailed message and metadata on API failures
+   * @template T - Expected shape of the response
    * @private
    */
-  private async makeGraphRequest(
+  private async makeGraphRequest<T = any>(
     accessToken: string,
     url: string,
     method: string = "GET",
     body?: any,
-    _retryCount: number = 0,
-  ): Promise<any> {
+    options: GraphRequestOptions = {},
+    retryCount: number = 0,
+  ): Promise<T> {
+    const clientRequestId = this.trace?.correlationId || crypto.randomUUID();
     const headers: Record<string, string> = {
       Authorization: `Bearer ${accessToken}`,
       "Content-Type": "application/json",
+      "client-request-id": clientRequestId,
+      "return-client-request-id": "true",
+      ...options.headers,
     };
 
     const requestOptions: RequestInit = {
@@ -510,10 +4035,74 @@ export class MicrosoftGraphClient {
       requestOptions.body = JSON.stringify(body);
     }
 
-    const response = await fetch(url, requestOptions);
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(url, requestOptions);
+    } catch (networkError) {
+      const durationMs = Date.now() - startedAt;
+      this.logGraphCall(method, url, 0, retryCount, {
+        clientRequestId,
+        durationMs,
+      });
+
+      /** Connection reset, DNS or timeout failures - no HTTP status available */
+      if (retryCount < MAX_RETRIES && this.isRetryable(method)) {
+        await this.sleep(this.getRetryDelay(retryCount, null));
+        return this.makeGraphRequest(
+          accessToken,
+          url,
+          method,
+          body,
+          options,
+          retryCount + 1,
+        );
+      }
+
+      throw new GraphError(
+        `Microsoft Graph API network error: ${networkError}${this.formatRetryInfo(retryCount, null)}`,
+        {
+          status: 0,
+          code: "networkError",
+          attempts: retryCount + 1,
+          clientRequestId,
+          durationMs,
+        },
+      );
+    }
+
+    const diagnostics = this.getResponseDiagnostics(
+      response,
+      clientRequestId,
+      startedAt,
+    );
+    this.logGraphCall(method, url, response.status, retryCount, diagnostics);
+
+    /** Conditional request matched: caller reuses its cached body */
+    if (response.status === 304) {
+      options.onResponse?.(response);
+      return {} as T;
+    }
 
     if (!response.ok) {
       const errorText = await response.text();
+      const retryAfter = response.headers.get("Retry-After");
+
+      if (
+        retryCount < MAX_RETRIES &&
+        this.isRetryable(method, response.status)
+      ) {
+        await this.sleep(this.getRetryDelay(retryCount, retryAfter));
+        return this.makeGraphRequest(
+          accessToken,
+          url,
+          method,
+          body,
+          options,
+          retryCount + 1,
+        );
+      }
+
       let errorData;
       try {
         errorData = JSON.parse(errorText);
@@ -521,35 +4110,38 @@ export class MicrosoftGraphClient {
         errorData = { error: { message: errorText } };
       }
 
-      /**
-       * Authentication errors (401/403) may indicate:
-       * - Token expiration (OAuth Provider handles refresh)
-       * - Missing permissions (requires admin consent)
-       * - Invalid scopes for requested operation
-       */
-      if (response.status === 401 || response.status === 403) {
-        /** Generate context-specific error message based on endpoint */
-        const specificError = this.getSpecificErrorMessage(
-          url,
-          response.status,
-          errorData,
-        );
-        throw new Error(specificError);
-      }
-
-      const errorMessage = `Microsoft Graph API error: ${response.status} - ${errorData.error?.message || "Unknown error"}`;
-      throw new Error(errorMessage);
+      throw this.createGraphError(
+        url,
+        response.status,
+        errorData,
+        retryCount,
+        retryAfter,
+        diagnostics,
+      );
     }
 
+    options.onResponse?.(response);
+
     /** Handle 204 No Content responses (common for POST operations like sendMail) */
     if (response.status === 204) {
-      return {};
+      return {} as T;
+    }
+
+    /** Non-JSON bodies such as MIME content or attachment binaries */
+    if (options.responseType === "bytes") {
+      return (await readBodyLimited(
+        response,
+        options.maxBytes ?? Infinity,
+      )) as T;
+    }
+    if (options.responseType === "text") {
+      return (await response.text()) as T;
     }
 
     /** Verify JSON content type before parsing */
     const contentType = response.headers.get("content-type");
     if (!contentType || !contentType.includes("application/json")) {
-      return {};
+      return {} as T;
     }
 
     const responseText = await response.text();
@@ -558,12 +4150,190 @@ export class MicrosoftGraphClient {
     try {
       responseData = JSON.parse(responseText);
     } catch (jsonError) {
-      throw new Error(`Failed to parse JSON response: ${jsonError}`);
+      throw new GraphError(`Failed to parse JSON response: ${jsonError}`, {
+        ...diagnostics,
+        status: response.status,
+        code: "invalidResponse",
+        attempts: retryCount + 1,
+      });
     }
 
     return responseData;
   }
 
+  /**
+   * Extract support diagnostics from a Graph response
+   *
+   * @param response - Graph HTTP response
+   * @param clientRequestId - client-request-id sent with the request
+   * @param startedAt - Request start time for duration measurement
+   * @returns request-id, x-ms-ags-diagnostic, duration and throttle headers
+   * @private
+   */
+  private getResponseDiagnostics(
+    response: Response,
+    clientRequestId: string,
+    startedAt: number,
+  ): GraphCallDiagnostics {
+    return {
+      clientRequestId:
+        response.headers.get("client-request-id") || clientRequestId,
+      requestId: response.headers.get("request-id") || undefined,
+      agsDiagnostic: response.headers.get("x-ms-ags-diagnostic") || undefined,
+      durationMs: Date.now() - startedAt,
+      throttle: getThrottleHeaders((name) => response.headers.get(name)),
+    };
+  }
+
+  /**
+   * Log one Graph HTTP attempt as a structured event
+   *
+   * Query strings are dropped so search terms and filters stay out of logs.
+   *
+   * @param method - HTTP method
+   * @param url - Request URL
+   * @param status - HTTP status, 0 for network failures
+   * @param retryCount - Retries before this attempt
+   * @param diagnostics - Response diagnostics
+   * @private
+   */
+  private logGraphCall(
+    method: string,
+    url: string,
+    status: number,
+    retryCount: number,
+    diagnostics: GraphCallDiagnostics,
+  ): void {
+    const level = status === 0 ? "error" : status >= 400 ? "warn" : "info";
+    logEvent(level, "graph_request", {
+      correlationId: this.trace?.correlationId || diagnostics.clientRequestId,
+      operation: this.trace?.operation,
+      method,
+      path: url.startsWith(this.baseUrl)
+        ? url.slice(this.baseUrl.length).split("?")[0]
+        : new URL(url).pathname,
+      status,
+      attempt: retryCount + 1,
+      ...diagnostics,
+    });
+  }
+
+  /**
+   * Determine whether a failed request may be replayed
+   *
+   * @param method - HTTP method of the failed request
+   * @param status - HTTP status, or undefined for network failures
+   * @returns true if the failure is transient and replaying is safe
+   * @private
+   */
+  private isRetryable(method: string, status?: number): boolean {
+    const upperMethod = method.toUpperCase();
+
+    if (IDEMPOTENT_METHODS.includes(upperMethod)) {
+      return status === undefined || RETRYABLE_STATUSES.includes(status);
+    }
+
+    /** Non-idempotent requests (POST) are only safe to replay when throttled */
+    return status === 429;
+  }
+
+  /**
+   * Calculate wait time before the next retry attempt
+   *
+   * Prefers the server-provided Retry-After value. Falls back to
+   * exponential backoff with jitter so concurrent sessions throttled
+   * at the same moment do not retry in lockstep.
+   *
+   * @param retryCount - Number of retries already performed
+   * @param retryAfter - Retry-After header value (seconds or HTTP date)
+   * @returns Delay in milliseconds, capped at RETRY_MAX_DELAY_MS
+   * @private
+   */
+  private getRetryDelay(retryCount: number, retryAfter: string | null): number {
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const delay = Number.isFinite(seconds)
+        ? seconds * 1000
+        : Date.parse(retryAfter) - Date.now();
+
+      if (Number.isFinite(delay)) {
+        return Math.min(Math.max(delay, 0), RETRY_MAX_DELAY_MS);
+      }
+    }
+
+    const backoff = Math.min(
+      RETRY_BASE_DELAY_MS * 2 ** retryCount,
+      RETRY_MAX_DELAY_MS,
+    );
+    return backoff / 2 + Math.random() * (backoff / 2);
+  }
+
+  /**
+   * Format retry metadata for inclusion in error messages
+   *
+   * @param retryCount - Number of retries performed before giving up
+   * @param retryAfter - Last Retry-After header value received
+   * @returns Suffix such as " (attempts: 4, Retry-After: 5s)" or empty string
+   * @private
+   */
+  private formatRetryInfo(
+    retryCount: number,
+    retryAfter: string | null,
+  ): string {
+    if (retryCount === 0 && !retryAfter) {
+      return "";
+    }
+
+    const details = [`attempts: ${retryCount + 1}`];
+    if (retryAfter) {
+      details.push(
+        Number.isFinite(Number(retryAfter))
+          ? `Retry-After: ${retryAfter}s`
+          : `Retry-After: ${retryAfter}`,
+      );
+    }
+
+    return ` (${details.join(", ")})`;
+  }
+
+  /** Promise-based delay used between retry attempts */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Choose the URL for a list request
+   *
+   * SECURITY: Continuation links are only followed when they point at
+   * the configured Graph endpoint, so a tampered link can never send
+   * the bearer token to another host.
+   *
+   * @param nextLink - @odata.nextLink from a previous page, if any
+   * @param initialUrl - URL for the first page
+   * @returns URL to request
+   * @throws Error if nextLink targets a different host or API version
+   * @private
+   */
+  private resolvePageUrl(nextLink: string | undefined, initialUrl: string) {
+    if (!nextLink) {
+      return initialUrl;
+    }
+
+    if (!nextLink.startsWith(`${this.baseUrl}/`)) {
+      throw new Error("Invalid continuation link for Microsoft Graph");
+    }
+
+    return nextLink;
+  }
+
+  /** Convert a Graph collection response into a GraphPage */
+  private toPage<T>(response: GraphCollection<T>): GraphPage<T> {
+    return {
+      items: response.value || [],
+      nextLink: response["@odata.nextLink"],
+    };
+  }
+
   /**
    * Handles paginated Microsoft Graph API responses
    *
@@ -587,11 +4357,15 @@ export class MicrosoftGraphClient {
     maxPages: number = 10,
   ): Promise<T[]> {
     const results: T[] = [];
-    let url = initialUrl;
+    let url: string | undefined = initialUrl;
     let pageCount = 0;
 
     while (url && pageCount < maxPages) {
-      const response = await this.makeGraphRequest(accessToken, url, "GET");
+      const response: GraphCollection<T> = await this.makeGraphRequest(
+        accessToken,
+        url,
+        "GET",
+      );
 
       if (response.value) {
         results.push(...response.value);
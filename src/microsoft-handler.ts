@@ -21,6 +21,8 @@ import type {
 } from "@cloudflare/workers-oauth-provider";
 import { Hono } from "hono";
 import { getUpstreamAuthorizeUrl } from "./utils";
+import { getAuthorityUrl } from "./national-clouds";
+import { getScopeString } from "./scope-registry";
 import {
   clientIdAlreadyApproved,
   parseRedirectApproval,
@@ -150,10 +152,9 @@ async function redirectToMicrosoft(
       location: getUpstreamAuthorizeUrl({
         client_id: env.MICROSOFT_CLIENT_ID,
         redirect_uri: new URL("/callback", request.url).href,
-        scope:
-          "User.Read Mail.Read Mail.ReadWrite Mail.Send Calendars.Read Calendars.ReadWrite Contacts.Read Contacts.ReadWrite People.Read People.Read.All OnlineMeetings.ReadWrite ChannelMessage.Send Team.ReadBasic.All offline_access",
+        scope: getScopeString(env),
         state: btoa(JSON.stringify({ ...oauthReqInfo, clientType })),
-        upstream_url: `https://login.microsoftonline.com/${env.MICROSOFT_TENANT_ID}/oauth2/v2.0/authorize`,
+        upstream_url: getAuthorityUrl(env, "authorize"),
       }),
     },
     status: 302,
@@ -14,9 +14,52 @@
 
 import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { MicrosoftGraphClient } from "./microsoft-graph";
+import { GraphAttachment, GraphMessageRule, GraphPage } from "./graph-types";
+import { canEvaluateConditions, UNEVALUATED_PREDICATES } from "./inbox-rules";
+import {
+  createTraceContext,
+  formatDiagnostics,
+  logEvent,
+  TraceContext,
+} from "./tracing";
+import {
+  describeItem,
+  extractFileText,
+  getAttachmentKind,
+  isTextAttachment,
+  MAX_DOWNLOAD_SIZE,
+} from "./attachment-content";
+import { base64ToBytes, bytesToBase64 } from "./attachments";
+import {
+  formatConversationTranscript,
+  htmlToMarkdown,
+  toConversationEntry,
+  toEmailDetail,
+  truncateBody,
+} from "./email-content";
+import { MBOX_MIME_TYPE } from "./mbox";
+import { parseMimeMessage } from "./mime";
+import { isToolEnabled } from "./scope-registry";
+import { getSharedMailboxes, resolveSharedMailbox } from "./shared-mailboxes";
+import { getTokenObjectId } from "./utils";
+import {
+  CalendarTimeZone,
+  DeltaSyncResult,
+  GraphError,
+  MAX_EMAIL_PAGE_SIZE,
+  MAX_EXPORT_MESSAGES,
+  MAX_EXPORT_SIZE,
+  MicrosoftGraphClient,
+  ResourceSnapshot,
+  UploadProgressCallback,
+} from "./microsoft-graph";
 import { Env } from "./index";
 
 /**
@@ -40,10 +83,185 @@ export type Props = {
   microsoftRefreshToken?: string;
 };
 
+/**
+ * Persisted position of one delta sync (e.g. inbox messages)
+ *
+ * ROUND SEMANTICS:
+ * A round ends when Graph returns a deltaLink. Rounds spanning several
+ * tool calls store the nextLink (skip token) with inProgress set.
+ * Items created after the previous completed round started are
+ * reported as added, everything else as changed.
+ */
+interface DeltaSyncState {
+  /** deltaLink of the last completed round or nextLink of an unfinished one */
+  link: string;
+  inProgress: boolean;
+  /** Start time of the current (or last completed) round */
+  roundStartedAt: number;
+  /** Start time of the previous completed round, unset during initial sync */
+  since?: number;
+}
+
+/** Classified result of one delta sync round returned by the sync tools */
+interface DeltaSyncSummary {
+  initialSync: boolean;
+  added: any[];
+  changed: any[];
+  deleted: string[];
+  hasMore: boolean;
+}
+
+/**
+ * Pagination cursor - maps an opaque id to a Graph @odata.nextLink
+ *
+ * Raw Graph URLs never leave the Durable Object; the model only sees
+ * the cursor id, which is bound to the issuing user and tool.
+ */
+interface CursorState {
+  userKey: string;
+  tool: string;
+  nextLink: string;
+  expiresAt: number;
+}
+
+/** One page of a list tool result as returned to the model */
+interface PagedToolResult<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
 interface State {
   lastActivity?: number;
+  /** Delta sync positions keyed by user, then by sync key (e.g. "messages:inbox") */
+  deltaSync?: Record<string, Record<string, DeltaSyncState>>;
+  /** Pagination cursors keyed by cursor id */
+  cursors?: Record<string, CursorState>;
 }
 
+/**
+ * How long a batched profile/calendars/teams snapshot is reused
+ * Clients read these resources back to back after resources/list,
+ * so one $batch call serves all three reads.
+ */
+const RESOURCE_SNAPSHOT_TTL_MS = 30 * 1000;
+
+/**
+ * Pagination cursor limits
+ * Cursors expire after an hour; only the newest are kept so stored
+ * nextLinks stay well within the 128KB Durable Object state limit.
+ */
+const CURSOR_TTL_MS = 60 * 60 * 1000;
+const MAX_STORED_CURSORS = 50;
+
+/** Attachment input accepted by tools that create mail or events */
+const attachmentsSchema = z
+  .array(
+    z.object({
+      name: z.string().describe("File name including extension"),
+      contentType: z
+        .string()
+        .optional()
+        .describe("MIME type, e.g. application/pdf"),
+      contentBytes: z
+        .string()
+        .optional()
+        .describe("Base64-encoded file content (use this or uri)"),
+      uri: z
+        .string()
+        .optional()
+        .describe(
+          "data: URI, or https: URL on a host the administrator allowed",
+        ),
+      isInline: z
+        .boolean()
+        .optional()
+        .describe("Embed in the HTML body, referenced as cid:<contentId>"),
+      contentId: z.string().optional().describe("Content id for inline use"),
+    }),
+  )
+  .optional()
+  .describe(
+    "Files to attach, up to 25 MB each and 50 MB in total. Files over 3 MB are uploaded in chunks with progress notifications.",
+  );
+
+/** Shared mailbox argument of the mail tools, checked against the allow-list */
+const mailboxSchema = z
+  .string()
+  .optional()
+  .describe(
+    "Shared mailbox address from listSharedMailboxes; omit for your own mailbox",
+  );
+
+const timeZoneSchema = z
+  .string()
+  .optional()
+  .describe(
+    'IANA or Windows time zone, e.g. "Europe/Berlin"; defaults to your mailbox time zone',
+  );
+
+/** JSON-RPC methods whose handlers create a trace context */
+const TRACED_METHODS = ["tools/call", "resources/read"];
+
+/** Transport request ids kept for handlers that have not run yet */
+const MAX_PENDING_TRACES = 100;
+
+/** Inbox rule conditions, also used for exceptions */
+const ruleConditionsSchema = z.object({
+  fromAddresses: z
+    .array(z.string())
+    .optional()
+    .describe("Sender addresses, any of"),
+  sentToAddresses: z
+    .array(z.string())
+    .optional()
+    .describe("Recipient addresses in To or Cc, any of"),
+  senderContains: z
+    .array(z.string())
+    .optional()
+    .describe("Text in the sender name or address"),
+  recipientContains: z
+    .array(z.string())
+    .optional()
+    .describe("Text in a recipient name or address"),
+  subjectContains: z.array(z.string()).optional(),
+  bodyContains: z.array(z.string()).optional(),
+  bodyOrSubjectContains: z.array(z.string()).optional(),
+  headerContains: z
+    .array(z.string())
+    .optional()
+    .describe("Text in the internet headers, e.g. List-Unsubscribe"),
+  sentToMe: z.boolean().optional().describe("I am in To"),
+  sentOnlyToMe: z.boolean().optional().describe("I am the only recipient"),
+  sentCcMe: z.boolean().optional().describe("I am in Cc"),
+  hasAttachments: z.boolean().optional(),
+  importance: z.enum(["low", "normal", "high"]).optional(),
+});
+
+/** Inbox rule actions; permanent deletion is deliberately not offered */
+const ruleActionsSchema = z.object({
+  moveToFolder: z
+    .string()
+    .optional()
+    .describe("Folder: well-known name, display name path or id"),
+  copyToFolder: z
+    .string()
+    .optional()
+    .describe("Folder: well-known name, display name path or id"),
+  delete: z.boolean().optional().describe("Move to Deleted Items"),
+  markAsRead: z.boolean().optional(),
+  markImportance: z.enum(["low", "normal", "high"]).optional(),
+  assignCategories: z.array(z.string()).optional(),
+  forwardTo: z.array(z.string()).optional().describe("Forward to addresses"),
+  redirectTo: z
+    .array(z.string())
+    .optional()
+    .describe("Redirect to addresses, keeping the original sender"),
+  stopProcessingRules: z
+    .boolean()
+    .optional()
+    .describe("Do not run later rules on matching messages"),
+});
+
 /**
  * Microsoft 365 MCP Agent - Durable Object for persistent MCP sessions
  *
@@ -70,6 +288,35 @@ export class MicrosoftMCPAgent extends McpAgent<Env, State, Props> {
 
   private graphClient: MicrosoftGraphClient;
 
+  /**
+   * Registers a tool with the MCP server, gated by the scope registry
+   *
+   * Same signature as McpServer.tool. Tools whose required scopes are
+   * excluded via MICROSOFT_EXCLUDED_SCOPES are registered disabled, so
+   * they are omitted from tools/list and rejected if called.
+   */
+  private registerTool: McpServer["tool"] = (...args: any[]) => {
+    const tool = (this.server.tool as any)(...args);
+    if (!isToolEnabled(this.env, args[0])) {
+      tool.disable();
+    }
+    return tool;
+  };
+
+  /**
+   * Transport request ids by JSON-RPC id, so the trace of a tool call or
+   * resource read reuses the id logged with mcp_request. Each entry is
+   * taken once by createTrace.
+   */
+  private transportRequestIds = new Map<string | number, string>();
+
+  /** In-flight or recent $batch snapshot shared by the resource handlers */
+  private resourceSnapshot?: {
+    accessToken: string;
+    expiresAt: number;
+    promise: Promise<ResourceSnapshot>;
+  };
+
   /**
    * Initializes Microsoft 365 MCP Agent with Durable Object state
    *
@@ -105,6 +352,476 @@ export class MicrosoftMCPAgent extends McpAgent<Env, State, Props> {
     };
   }
 
+  /**
+   * Generates a consistent error result for failed tool calls
+   *
+   * FORMAT:
+   * 1. Human-readable text: "<title>: <message>" followed by tool context,
+   *    the correlation ID and, for GraphError failures, request-id,
+   *    timing and throttle headers of the failed Graph call
+   * 2. For GraphError failures, a JSON block with status, Graph error code,
+   *    request-id, required scopes and retry hints so clients can branch
+   *    on missing scopes, throttling or not-found without parsing prose
+   *
+   * The failure is also logged as a structured "tool_error" event.
+   *
+   * @param title - Tool-specific error title (e.g. "Send Email Tool Error")
+   * @param error - Caught error, typically a GraphError
+   * @param context - Endpoint, request summary and troubleshooting text
+   * @param trace - Trace context of the tool call
+   * @returns CallToolResult flagged with isError
+   * @private
+   */
+  private getToolErrorResponse(
+    title: string,
+    error: any,
+    context: string,
+    trace?: TraceContext,
+  ): CallToolResult {
+    const errorMessage = error?.message || String(error);
+    let text = `${title}: ${errorMessage}\n\n${context}`;
+
+    if (trace) {
+      text += `\nCorrelation ID: ${trace.correlationId} (include this when reporting the problem)`;
+    }
+
+    const diagnostics =
+      error instanceof GraphError ? formatDiagnostics(error) : "";
+    if (diagnostics) {
+      text += `\nGraph diagnostics: ${diagnostics}`;
+    }
+
+    const content: CallToolResult["content"] = [{ type: "text", text }];
+
+    if (error instanceof GraphError) {
+      content.push({
+        type: "text",
+        text: JSON.stringify(
+          { error: error.toJSON(), correlationId: trace?.correlationId },
+          null,
+          2,
+        ),
+      });
+    }
+
+    logEvent("error", "tool_error", {
+      correlationId: trace?.correlationId,
+      operation: trace?.operation,
+      sessionId: trace?.sessionId,
+      mcpRequestId: trace?.mcpRequestId,
+      message: errorMessage,
+      status: error instanceof GraphError ? error.status : undefined,
+      code: error instanceof GraphError ? error.code : undefined,
+      requestId: error instanceof GraphError ? error.requestId : undefined,
+    });
+
+    return { content, isError: true };
+  }
+
+  /**
+   * Creates the trace context of a tool call or resource read
+   *
+   * Reuses the transport request id recorded in fetch for the same
+   * JSON-RPC id, so mcp_request, graph_request and tool error lines share
+   * one correlation ID.
+   *
+   * @private
+   */
+  private createTrace(
+    operation: string,
+    request: { sessionId?: string; requestId?: string | number } = {},
+  ): TraceContext {
+    const correlationId =
+      request.requestId !== undefined
+        ? this.transportRequestIds.get(request.requestId)
+        : undefined;
+    if (correlationId) {
+      this.transportRequestIds.delete(request.requestId!);
+    }
+    return createTraceContext(operation, { ...request, correlationId });
+  }
+
+  /**
+   * Creates a progress notifier for the current tool call
+   *
+   * Progress is sent as MCP notifications/progress messages, which
+   * clients only accept when they supplied a progressToken. Without a
+   * token no notifier is returned and the operation runs silently.
+   *
+   * @param extra - Request context passed to the tool handler
+   * @returns Notifier, or undefined if the client did not ask
+   * @private
+   */
+  private getProgressNotifier(
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ):
+    | ((progress: number, total: number, message: string) => Promise<void>)
+    | undefined {
+    const progressToken = extra._meta?.progressToken;
+    if (progressToken === undefined) {
+      return undefined;
+    }
+
+    return (progress, total, message) =>
+      extra.sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message },
+      });
+  }
+
+  /**
+   * Creates an upload progress callback for the current tool call
+   *
+   * @param extra - Request context passed to the tool handler
+   * @returns Progress callback, or undefined if the client did not ask
+   * @private
+   */
+  private getProgressReporter(
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): UploadProgressCallback | undefined {
+    const notify = this.getProgressNotifier(extra);
+    return (
+      notify &&
+      ((progress) =>
+        notify(
+          progress.uploadedBytes,
+          progress.totalBytes,
+          `Uploading ${progress.attachment}`,
+        ))
+    );
+  }
+
+  /**
+   * Explains in a tool result that calendar times fell back to UTC
+   *
+   * @param zone - Zone the tool call used
+   * @returns Note, or undefined if the given or mailbox zone was used
+   * @private
+   */
+  private getTimeZoneNote(zone: CalendarTimeZone): string | undefined {
+    return (
+      zone.fallback &&
+      `No timeZone was given and ${zone.fallback}, so times are in UTC. Pass timeZone to use another zone.`
+    );
+  }
+
+  /**
+   * Builds tool content for a downloaded attachment
+   *
+   * CONTENT:
+   * - First item: JSON metadata plus extracted text, expanded item or
+   *   OneDrive link, depending on the attachment kind
+   * - Second item (file attachments): embedded resource with text
+   *   content for text formats and base64 blob content for binaries
+   *
+   * @private
+   */
+  private getAttachmentContent(
+    parentType: "message" | "event",
+    parentId: string,
+    attachment: GraphAttachment,
+    maxTextLength: number,
+  ): CallToolResult["content"] {
+    const kind = getAttachmentKind(attachment);
+    const summary: Record<string, unknown> = {
+      id: attachment.id,
+      name: attachment.name,
+      kind,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      isInline: attachment.isInline,
+    };
+
+    if (kind === "item") {
+      summary.item = describeItem(attachment, maxTextLength);
+      return [{ type: "text", text: JSON.stringify(summary, null, 2) }];
+    }
+    if (kind === "reference") {
+      summary.sourceUrl = attachment.sourceUrl;
+      return [{ type: "text", text: JSON.stringify(summary, null, 2) }];
+    }
+    if (!attachment.contentBytes) {
+      summary.note = `Attachment exceeds the ${MAX_DOWNLOAD_SIZE / 1024 / 1024} MB download limit; open it in Outlook instead.`;
+      return [{ type: "text", text: JSON.stringify(summary, null, 2) }];
+    }
+
+    const uri = `microsoft://${parentType}s/${encodeURIComponent(parentId)}/attachments/${encodeURIComponent(attachment.id)}`;
+    const mimeType = attachment.contentType || "application/octet-stream";
+    const isText = isTextAttachment(attachment);
+    const rawText = isText
+      ? new TextDecoder().decode(base64ToBytes(attachment.contentBytes))
+      : undefined;
+
+    /** Plain text formats are already readable as the resource itself */
+    const extracted = extractFileText(attachment);
+    if (extracted !== undefined && extracted !== rawText) {
+      const truncated = truncateBody(extracted, maxTextLength);
+      summary.extractedText = truncated.content;
+      summary.truncatedCharacters = truncated.truncatedCharacters;
+    }
+
+    return [
+      { type: "text", text: JSON.stringify(summary, null, 2) },
+      {
+        type: "resource",
+        resource:
+          rawText !== undefined
+            ? { uri, mimeType, text: rawText }
+            : { uri, mimeType, blob: attachment.contentBytes },
+      },
+    ];
+  }
+
+  /**
+   * Builds the preview returned before an inbox rule is created or changed
+   *
+   * Lists recent Inbox messages the rule would match and the Graph rule
+   * that confirm: true will apply.
+   *
+   * @private
+   */
+  private async getRulePreview(
+    graph: MicrosoftGraphClient,
+    accessToken: string,
+    rule: Omit<GraphMessageRule, "id">,
+  ): Promise<CallToolResult> {
+    const preview = await graph.previewInboxRule(accessToken, rule);
+    const unevaluated = UNEVALUATED_PREDICATES.filter(
+      (key) => rule.conditions?.[key] || rule.exceptions?.[key],
+    );
+
+    const result = {
+      preview: true,
+      rule,
+      evaluatedMessages: preview.evaluated,
+      matchingMessages: preview.matches.map((message) => ({
+        id: message.id,
+        subject: message.subject,
+        from: message.from?.emailAddress,
+        receivedDateTime: message.receivedDateTime,
+      })),
+      note: `Nothing was changed. Repeat the call with confirm: true to apply the rule. ${
+        canEvaluateConditions(rule.conditions)
+          ? `Matches are from the ${preview.evaluated} most recent Inbox messages; bodyContains only checks the first 255 characters${unevaluated.length > 0 ? ` and ${unevaluated.join(", ")} could not be evaluated` : ""}.`
+          : `The conditions use only ${unevaluated.join(", ")}, which cannot be evaluated, so no matches are listed.`
+      }`,
+    };
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+
+  /**
+   * Returns the batched profile, mailbox settings, calendars and teams snapshot
+   *
+   * Reuses a snapshot fetched within RESOURCE_SNAPSHOT_TTL_MS for the same
+   * access token, including one still in flight, so concurrent resource
+   * reads share a single $batch request. Failed fetches are not reused.
+   * The $batch request is traced under the read that started it.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param extra - Request context passed to the resource handler
+   * @returns Per-resource batch results
+   * @private
+   */
+  private getResourceSnapshot(
+    accessToken: string,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<ResourceSnapshot> {
+    const cached = this.resourceSnapshot;
+    if (
+      cached &&
+      cached.accessToken === accessToken &&
+      cached.expiresAt > Date.now()
+    ) {
+      return cached.promise;
+    }
+
+    const promise = this.graphClient
+      .withTrace(this.createTrace("resources/read", extra))
+      .getResourceSnapshot(accessToken);
+    const entry = {
+      accessToken,
+      expiresAt: Date.now() + RESOURCE_SNAPSHOT_TTL_MS,
+      promise,
+    };
+    this.resourceSnapshot = entry;
+
+    promise.catch(() => {
+      if (this.resourceSnapshot === entry) {
+        this.resourceSnapshot = undefined;
+      }
+    });
+
+    return promise;
+  }
+
+  /**
+   * Resolves a stable per-user key for Durable Object state
+   *
+   * Uses the authenticated user id when present, otherwise the object id
+   * (oid) claim of the Microsoft access token.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @returns User identifier for state partitioning
+   * @private
+   */
+  private getUserKey(accessToken: string): string {
+    return this.props?.id || getTokenObjectId(accessToken) || "default";
+  }
+
+  /**
+   * Runs one delta sync round and persists its resume link
+   *
+   * FLOW:
+   * 1. Load the stored link for this user and sync key (unless reset)
+   * 2. Fetch changes from Graph via the supplied delta fetcher
+   * 3. Classify items as added, changed or deleted
+   * 4. Store the deltaLink (round complete) or nextLink (more pending)
+   *
+   * Expired delta tokens (410 Gone) trigger an automatic initial sync.
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param syncKey - Identifies the synced collection (e.g. "messages:inbox")
+   * @param reset - Discard the stored position and start a new initial sync
+   * @param fetchDelta - Graph client call for the collection
+   * @returns Classified changes and whether more pages are pending
+   * @private
+   */
+  private async runDeltaSync(
+    accessToken: string,
+    syncKey: string,
+    reset: boolean,
+    fetchDelta: (link?: string) => Promise<DeltaSyncResult>,
+  ): Promise<DeltaSyncSummary> {
+    const userKey = this.getUserKey(accessToken);
+    const previous = reset
+      ? undefined
+      : this.state?.deltaSync?.[userKey]?.[syncKey];
+
+    let since: number | undefined;
+    let roundStartedAt = Date.now();
+    if (previous?.inProgress) {
+      since = previous.since;
+      roundStartedAt = previous.roundStartedAt;
+    } else if (previous) {
+      since = previous.roundStartedAt;
+    }
+
+    let result: DeltaSyncResult;
+    try {
+      result = await fetchDelta(previous?.link);
+    } catch (error) {
+      /** Graph answers 410 Gone once a stored delta token expires - start over */
+      if (previous && error instanceof GraphError && error.status === 410) {
+        return this.runDeltaSync(accessToken, syncKey, true, fetchDelta);
+      }
+      throw error;
+    }
+
+    const added: any[] = [];
+    const changed: any[] = [];
+    for (const item of result.changed) {
+      const createdAt = Date.parse(item.createdDateTime);
+      if (since === undefined || createdAt > since) {
+        added.push(item);
+      } else {
+        changed.push(item);
+      }
+    }
+
+    const link = result.nextLink || result.deltaLink;
+    if (link) {
+      const deltaSync = { ...this.state?.deltaSync };
+      deltaSync[userKey] = {
+        ...deltaSync[userKey],
+        [syncKey]: {
+          link,
+          inProgress: !!result.nextLink,
+          roundStartedAt,
+          since,
+        },
+      };
+      this.setState({ ...this.state, deltaSync });
+    }
+
+    return {
+      initialSync: since === undefined,
+      added,
+      changed,
+      deleted: result.removed,
+      hasMore: !!result.nextLink,
+    };
+  }
+
+  /**
+   * Fetches one page of a list tool and issues a cursor for the next
+   *
+   * FLOW:
+   * 1. Resolve the incoming cursor to its stored nextLink (if given)
+   * 2. Fetch the page via the supplied Graph client call
+   * 3. Store the new nextLink under a fresh cursor id
+   *
+   * @param accessToken - Microsoft Graph access token
+   * @param tool - Tool name the cursor is bound to
+   * @param cursor - Cursor from a previous call, if continuing
+   * @param fetchPage - Graph client call accepting an optional nextLink
+   * @returns Page items and nextCursor when more results exist
+   * @throws Error if the cursor is unknown, expired or from another tool
+   * @private
+   */
+  private async getPagedResult<T>(
+    accessToken: string,
+    tool: string,
+    cursor: string | undefined,
+    fetchPage: (nextLink?: string) => Promise<GraphPage<T>>,
+  ): Promise<PagedToolResult<T>> {
+    const userKey = this.getUserKey(accessToken);
+    let nextLink: string | undefined;
+
+    if (cursor) {
+      const stored = this.state?.cursors?.[cursor];
+      if (
+        !stored ||
+        stored.userKey !== userKey ||
+        stored.tool !== tool ||
+        stored.expiresAt < Date.now()
+      ) {
+        throw new Error(
+          `Invalid or expired cursor for ${tool}. Repeat the request without a cursor to start from the first page.`,
+        );
+      }
+      nextLink = stored.nextLink;
+    }
+
+    const page = await fetchPage(nextLink);
+    if (!page.nextLink) {
+      return { items: page.items };
+    }
+
+    const now = Date.now();
+    const nextCursor = crypto.randomUUID();
+    const cursors = Object.entries(this.state?.cursors || {})
+      .filter(([, entry]) => entry.expiresAt > now)
+      .sort(([, a], [, b]) => b.expiresAt - a.expiresAt)
+      .slice(0, MAX_STORED_CURSORS - 1);
+
+    this.setState({
+      ...this.state,
+      cursors: {
+        ...Object.fromEntries(cursors),
+        [nextCursor]: {
+          userKey,
+          tool,
+          nextLink: page.nextLink,
+          expiresAt: now + CURSOR_TTL_MS,
+        },
+      },
+    });
+
+    return { items: page.items, nextCursor };
+  }
+
   /**
    * Initializes MCP server and registers all available tools
    *
@@ -122,203 +839,2424 @@ export class MicrosoftMCPAgent extends McpAgent<Env, State, Props> {
    *
    * DO NOT move tool registration elsewhere - breaks MCP discovery
    *
+   * Tools are registered through registerTool so the scope registry can
+   * hide tools whose Graph permissions are not requested.
+   *
    * @override
    */
   async init() {
     // ============================================================================
     // EMAIL TOOLS - Microsoft Outlook Integration
     // ============================================================================
-    this.server.tool(
-      "sendEmail",
-      "Send an email via Outlook",
+    this.registerTool(
+      "sendEmail",
+      "Send an email via Outlook",
+      {
+        to: z
+          .union([z.string(), z.array(z.string()).min(1)])
+          .describe('Recipient address or list; "Name <address>" accepted'),
+        cc: z.array(z.string()).optional().describe("Cc recipients"),
+        bcc: z.array(z.string()).optional().describe("Bcc recipients"),
+        replyTo: z
+          .array(z.string())
+          .optional()
+          .describe("Addresses replies should go to instead of the sender"),
+        subject: z.string().describe("Email subject"),
+        body: z.string().describe("Email body content"),
+        contentType: z
+          .enum(["text", "html"])
+          .default("html")
+          .describe("Content type"),
+        importance: z
+          .enum(["low", "normal", "high"])
+          .optional()
+          .describe("Message importance"),
+        requestReadReceipt: z
+          .boolean()
+          .default(false)
+          .describe("Ask recipients for a read receipt"),
+        requestDeliveryReceipt: z
+          .boolean()
+          .default(false)
+          .describe("Ask for a delivery receipt"),
+        saveToSentItems: z
+          .boolean()
+          .default(true)
+          .describe("Keep a copy in Sent Items"),
+        attachments: attachmentsSchema,
+        mailbox: mailboxSchema,
+        onBehalf: z
+          .boolean()
+          .default(false)
+          .describe("Send on behalf of the mailbox instead of as the mailbox"),
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("sendEmail", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            args.onBehalf ? undefined : "Mail.Send.Shared",
+          );
+          await graph.sendEmail(
+            accessToken,
+            { ...args, mailbox },
+            this.getProgressReporter(extra),
+          );
+          const attachmentCount = args.attachments?.length || 0;
+          const recipients = [args.to, args.cc || [], args.bcc || []]
+            .flat()
+            .join(", ");
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  attachmentCount > 0
+                    ? `Email sent successfully to ${recipients} with ${attachmentCount} attachment(s)`
+                    : `Email sent successfully to ${recipients}`,
+              },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Send Email Tool Error",
+            error,
+            `Context: This tool sends emails via Microsoft 365 using the /me/sendMail endpoint.
+Requested: Send email to "${[args.to].flat().join(", ")}" with subject "${args.subject}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Send scope and the user has mailbox access. Attachments over 3 MB in total are uploaded to a draft first, which also requires Mail.ReadWrite.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    /**
+     * Replies and forwards - Graph derives subject, recipients and quoted
+     * body from the original, so the conversation thread stays intact
+     */
+    this.registerTool(
+      "replyToEmail",
+      "Reply to the sender of an Outlook message",
+      {
+        messageId: z.string().describe("ID of the message to respond to"),
+        comment: z
+          .string()
+          .optional()
+          .describe("Text or HTML placed above the quoted original message"),
+        to: z.array(z.string()).optional().describe("Additional To recipients"),
+        cc: z.array(z.string()).optional().describe("Additional Cc recipients"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("replyToEmail", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Send.Shared",
+          );
+          await graph.replyToEmail(accessToken, { ...args, mailbox });
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Reply sent successfully",
+              },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Reply Email Tool Error",
+            error,
+            `Context: This tool replies to an email via Microsoft 365 using the /me/messages/{id}/reply endpoint.
+Requested: Reply to message "${args.messageId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Send scope. Adding recipients to a reply creates a reply draft first, which also requires Mail.ReadWrite.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "replyAllToEmail",
+      "Reply to the sender and all recipients of an Outlook message",
+      {
+        messageId: z.string().describe("ID of the message to respond to"),
+        comment: z
+          .string()
+          .optional()
+          .describe("Text or HTML placed above the quoted original message"),
+        to: z.array(z.string()).optional().describe("Additional To recipients"),
+        cc: z.array(z.string()).optional().describe("Additional Cc recipients"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("replyAllToEmail", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Send.Shared",
+          );
+          await graph.replyAllToEmail(accessToken, { ...args, mailbox });
+          return {
+            content: [
+              {
+                type: "text",
+                text: "Reply to all sent successfully",
+              },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Reply All Email Tool Error",
+            error,
+            `Context: This tool replies to all recipients of an email via Microsoft 365 using the /me/messages/{id}/replyAll endpoint.
+Requested: Reply to all on message "${args.messageId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Send scope. Adding recipients to a reply creates a reply draft first, which also requires Mail.ReadWrite.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "forwardEmail",
+      "Forward an Outlook message with its attachments",
+      {
+        messageId: z.string().describe("ID of the message to forward"),
+        to: z.array(z.string()).min(1).describe("Recipient email addresses"),
+        cc: z
+          .array(z.string())
+          .optional()
+          .describe("Cc recipient email addresses"),
+        comment: z
+          .string()
+          .optional()
+          .describe("Text or HTML placed above the quoted original message"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("forwardEmail", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Send.Shared",
+          );
+          await graph.forwardEmail(accessToken, { ...args, mailbox });
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Email forwarded successfully to ${args.to.join(", ")}`,
+              },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Forward Email Tool Error",
+            error,
+            `Context: This tool forwards an email via Microsoft 365 using the /me/messages/{id}/forward endpoint.
+Requested: Forward message "${args.messageId}" to ${args.to.join(", ")}
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Send scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    /**
+     * Drafts - messages prepared for human review in Outlook; nothing is
+     * delivered until sendDraft is called or the user sends it manually
+     */
+    this.registerTool(
+      "createDraft",
+      "Create an Outlook draft for review instead of sending immediately",
+      {
+        subject: z.string().optional().describe("Email subject"),
+        body: z
+          .string()
+          .optional()
+          .describe(
+            "Email body; for reply drafts, text or HTML placed above the quote",
+          ),
+        contentType: z
+          .enum(["text", "html"])
+          .default("html")
+          .describe("Content type of body (new drafts only)"),
+        to: z.array(z.string()).optional().describe("To recipients"),
+        cc: z.array(z.string()).optional().describe("Cc recipients"),
+        bcc: z.array(z.string()).optional().describe("Bcc recipients"),
+        replyToMessageId: z
+          .string()
+          .optional()
+          .describe("Create a reply draft to this message"),
+        replyAll: z
+          .boolean()
+          .default(false)
+          .describe("Reply draft addresses all original recipients"),
+        attachments: attachmentsSchema,
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("createDraft", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.ReadWrite.Shared",
+          );
+          const draft = await graph.createDraft(
+            accessToken,
+            { ...args, mailbox },
+            this.getProgressReporter(extra),
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: draft.webLink
+                  ? `Draft created: ${draft.id}\nReview in Outlook: ${draft.webLink}`
+                  : `Draft created: ${draft.id}`,
+              },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Create Draft Tool Error",
+            error,
+            `Context: This tool creates drafts in Microsoft 365 using the /me/messages or /me/messages/{id}/createReply endpoint.
+Requested: ${args.replyToMessageId ? `Reply draft to message "${args.replyToMessageId}"` : `Draft with subject "${args.subject || ""}"`}
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.ReadWrite scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "updateDraft",
+      "Update the subject, body or recipients of an Outlook draft",
+      {
+        draftId: z.string().describe("ID of the draft"),
+        subject: z.string().optional().describe("New subject"),
+        body: z.string().optional().describe("New body, replaces the current"),
+        contentType: z
+          .enum(["text", "html"])
+          .default("html")
+          .describe("Content type of body"),
+        to: z
+          .array(z.string())
+          .optional()
+          .describe("To recipients, replaces the current list"),
+        cc: z
+          .array(z.string())
+          .optional()
+          .describe("Cc recipients, replaces the current list"),
+        bcc: z
+          .array(z.string())
+          .optional()
+          .describe("Bcc recipients, replaces the current list"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("updateDraft", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.ReadWrite.Shared",
+          );
+          const draft = await graph.updateDraft(accessToken, {
+            ...args,
+            mailbox,
+          });
+          return {
+            content: [{ type: "text", text: `Draft updated: ${draft.id}` }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Update Draft Tool Error",
+            error,
+            `Context: This tool updates drafts in Microsoft 365 using the /me/messages/{id} endpoint.
+Requested: Update draft "${args.draftId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.ReadWrite scope. Only messages that have not been sent can be updated.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "listDrafts",
+      "List Outlook drafts, most recently edited first",
+      {
+        count: z
+          .number()
+          .max(50)
+          .default(10)
+          .describe("Number of drafts per page"),
+        cursor: z
+          .string()
+          .optional()
+          .describe("nextCursor from a previous call to fetch the next page"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("listDrafts", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Read.Shared",
+          );
+          const drafts = await this.getPagedResult(
+            accessToken,
+            "listDrafts",
+            args.cursor,
+            (nextLink) =>
+              graph.listDrafts(accessToken, {
+                mailbox,
+                count: args.count,
+                nextLink,
+              }),
+          );
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(drafts, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "List Drafts Tool Error",
+            error,
+            `Context: This tool lists drafts from Microsoft 365 using the /me/mailfolders/drafts/messages endpoint.
+Requested: ${args.count} drafts
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "sendDraft",
+      "Send an existing Outlook draft",
+      {
+        draftId: z.string().describe("ID of the draft"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("sendDraft", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Send.Shared",
+          );
+          await graph.sendDraft(accessToken, args.draftId, mailbox);
+          return {
+            content: [{ type: "text", text: `Draft sent: ${args.draftId}` }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Send Draft Tool Error",
+            error,
+            `Context: This tool sends drafts in Microsoft 365 using the /me/messages/{id}/send endpoint.
+Requested: Send draft "${args.draftId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Send scope. A draft that was already sent or discarded no longer exists.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "deleteDraft",
+      "Discard an Outlook draft",
+      {
+        draftId: z.string().describe("ID of the draft"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("deleteDraft", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.ReadWrite.Shared",
+          );
+          await graph.deleteDraft(accessToken, args.draftId, mailbox);
+          return {
+            content: [
+              { type: "text", text: `Draft discarded: ${args.draftId}` },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Delete Draft Tool Error",
+            error,
+            `Context: This tool discards drafts in Microsoft 365 using the /me/messages/{id} endpoint.
+Requested: Discard draft "${args.draftId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.ReadWrite scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    /** Email retrieval - Microsoft 365 mailbox folder access */
+    this.registerTool(
+      "getEmails",
+      "Get emails from a folder, optionally filtered by sender, recipient, date, read state, attachments, importance, flag, category or Focused Inbox",
+      {
+        count: z
+          .number()
+          .int()
+          .positive()
+          .max(MAX_EMAIL_PAGE_SIZE)
+          .default(10)
+          .describe("Number of emails per page; use cursor for more"),
+        folder: z
+          .string()
+          .default("inbox")
+          .describe("Mail folder: well-known name, display name path or id"),
+        from: z.string().optional().describe("Sender email address"),
+        to: z.string().optional().describe("Recipient email address in To"),
+        receivedAfter: z
+          .string()
+          .optional()
+          .describe("ISO 8601 date or date-time, inclusive"),
+        receivedBefore: z
+          .string()
+          .optional()
+          .describe("ISO 8601 date or date-time, exclusive"),
+        unreadOnly: z.boolean().default(false).describe("Only unread emails"),
+        hasAttachments: z
+          .boolean()
+          .optional()
+          .describe("Only emails with (true) or without (false) attachments"),
+        importance: z.enum(["low", "normal", "high"]).optional(),
+        flagged: z
+          .boolean()
+          .optional()
+          .describe("Only flagged (true) or not flagged (false) emails"),
+        category: z.string().optional().describe("Category name"),
+        inbox: z
+          .enum(["focused", "other"])
+          .optional()
+          .describe("Focused Inbox tab"),
+        order: z
+          .enum(["newest", "oldest"])
+          .default("newest")
+          .describe("Sort by received time"),
+        cursor: z
+          .string()
+          .optional()
+          .describe("nextCursor from a previous call to fetch the next page"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("getEmails", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Read.Shared",
+          );
+          const emails = await this.getPagedResult(
+            accessToken,
+            "getEmails",
+            args.cursor,
+            (nextLink) =>
+              graph.getEmails(accessToken, {
+                mailbox,
+                count: args.count,
+                folder: args.folder,
+                filter: {
+                  from: args.from,
+                  to: args.to,
+                  receivedAfter: args.receivedAfter,
+                  receivedBefore: args.receivedBefore,
+                  unreadOnly: args.unreadOnly,
+                  hasAttachments: args.hasAttachments,
+                  importance: args.importance,
+                  flagged: args.flagged,
+                  category: args.category,
+                  inferenceClassification: args.inbox,
+                },
+                order: args.order,
+                nextLink,
+              }),
+          );
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(emails, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Email Tool Error",
+            error,
+            `Context: This tool retrieves emails from Microsoft 365 using the /me/mailfolders/{folder}/messages endpoint.
+Requested: ${args.count} emails from "${args.folder}" folder
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read scope. Dates must be ISO 8601 and addresses complete (user@domain). If Graph rejects the filter as too complex, drop one condition.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "getEmail",
+      "Get one email with its full body, recipients and attachment list",
+      {
+        messageId: z.string().describe("ID of the message"),
+        format: z
+          .enum(["markdown", "text", "html"])
+          .default("markdown")
+          .describe("Body format; HTML is cleaned of styles and tracking"),
+        maxLength: z
+          .number()
+          .int()
+          .positive()
+          .default(20000)
+          .describe("Maximum body length in characters"),
+        includeHeaders: z
+          .boolean()
+          .default(false)
+          .describe("Include internet message headers"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("getEmail", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Read.Shared",
+          );
+          const message = await graph.getEmail(accessToken, {
+            ...args,
+            mailbox,
+          });
+          const email = toEmailDetail(message, {
+            format: args.format,
+            maxLength: args.maxLength,
+          });
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(email, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Get Email Tool Error",
+            error,
+            `Context: This tool retrieves a single email from Microsoft 365 using the /me/messages/{id} endpoint.
+Requested: Message "${args.messageId}" as ${args.format}
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read scope. Message ids change when a message is moved to another folder.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "getConversation",
+      "Get a whole email thread in chronological order across all folders, including Sent Items, with quoted history removed",
+      {
+        messageId: z
+          .string()
+          .optional()
+          .describe("ID of any message in the thread"),
+        conversationId: z
+          .string()
+          .optional()
+          .describe("Conversation ID, used instead of messageId"),
+        format: z
+          .enum(["transcript", "json"])
+          .default("transcript")
+          .describe("Compact text transcript or structured messages"),
+        maxMessageLength: z
+          .number()
+          .int()
+          .positive()
+          .default(4000)
+          .describe("Maximum body length per message in characters"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("getConversation", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Read.Shared",
+          );
+          const messages = await graph.getConversation(accessToken, {
+            ...args,
+            mailbox,
+          });
+          const entries = messages.map((message) =>
+            toConversationEntry(message, args.maxMessageLength),
+          );
+          const subject = messages[0]?.subject;
+
+          const text =
+            args.format === "json"
+              ? JSON.stringify(
+                  {
+                    conversationId: messages[0]?.conversationId,
+                    subject,
+                    messages: entries,
+                  },
+                  null,
+                  2,
+                )
+              : formatConversationTranscript(subject, entries);
+          return { content: [{ type: "text", text }] };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Get Conversation Tool Error",
+            error,
+            `Context: This tool retrieves all messages of a conversation from Microsoft 365 using the /me/messages endpoint filtered by conversationId.
+Requested: ${args.conversationId ? `Conversation "${args.conversationId}"` : `Thread of message "${args.messageId}"`}
+Troubleshooting: Provide exactly one of messageId or conversationId. If you see permission errors, ensure the app registration has Mail.Read scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "searchEmails",
+      "Search emails",
+      {
+        query: z.string().describe("Search query"),
+        count: z
+          .number()
+          .max(50)
+          .default(10)
+          .describe("Number of results per page"),
+        cursor: z
+          .string()
+          .optional()
+          .describe("nextCursor from a previous call to fetch the next page"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("searchEmails", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Read.Shared",
+          );
+          const results = await this.getPagedResult(
+            accessToken,
+            "searchEmails",
+            args.cursor,
+            (nextLink) =>
+              graph.searchEmails(accessToken, {
+                mailbox,
+                query: args.query,
+                count: args.count,
+                nextLink,
+              }),
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Search Emails Tool Error",
+            error,
+            `Context: This tool searches emails in Microsoft 365 using the /me/messages search endpoint.
+Requested: Search for "${args.query}" with ${args.count} results
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read scope. For search syntax, use KQL (Keyword Query Language).`,
+            trace,
+          );
+        }
+      },
+    );
+
+    /** Attachments - messages and events share the same attachment model */
+    this.registerTool(
+      "listAttachments",
+      "List the attachments of an email or calendar event",
+      {
+        parentType: z
+          .enum(["message", "event"])
+          .default("message")
+          .describe("Whether parentId is a message or an event"),
+        parentId: z.string().describe("ID of the message or event"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("listAttachments", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Read.Shared",
+          );
+          const attachments = await graph.listAttachments(accessToken, {
+            ...args,
+            mailbox,
+          });
+          const items = attachments.map((attachment) => ({
+            id: attachment.id,
+            name: attachment.name,
+            kind: getAttachmentKind(attachment),
+            contentType: attachment.contentType,
+            size: attachment.size,
+            isInline: attachment.isInline,
+          }));
+
+          return {
+            content: [{ type: "text", text: JSON.stringify(items, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "List Attachments Tool Error",
+            error,
+            `Context: This tool lists attachments in Microsoft 365 using the /me/${args.parentType}s/{id}/attachments endpoint.
+Requested: Attachments of ${args.parentType} "${args.parentId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read (messages) or Calendars.Read (events) scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "getAttachment",
+      "Download an attachment of an email or calendar event, with extracted text where possible",
+      {
+        parentType: z
+          .enum(["message", "event"])
+          .default("message")
+          .describe("Whether parentId is a message or an event"),
+        parentId: z.string().describe("ID of the message or event"),
+        attachmentId: z.string().describe("ID from listAttachments"),
+        maxTextLength: z
+          .number()
+          .int()
+          .positive()
+          .default(20000)
+          .describe("Maximum length of extracted text in characters"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("getAttachment", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Read.Shared",
+          );
+          const attachment = await graph.getAttachment(
+            accessToken,
+            { ...args, mailbox },
+            MAX_DOWNLOAD_SIZE,
+          );
+          return {
+            content: this.getAttachmentContent(
+              args.parentType,
+              args.parentId,
+              attachment,
+              args.maxTextLength,
+            ),
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Get Attachment Tool Error",
+            error,
+            `Context: This tool downloads attachments from Microsoft 365 using the /me/${args.parentType}s/{id}/attachments/{attachmentId} endpoint.
+Requested: Attachment "${args.attachmentId}" of ${args.parentType} "${args.parentId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read (messages) or Calendars.Read (events) scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    /** Export - raw MIME for legal holds and handoffs */
+    this.registerTool(
+      "exportEmail",
+      "Export one email as a raw MIME (.eml) file with all headers and attachments",
+      {
+        messageId: z.string().describe("ID of the message"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("exportEmail", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Read.Shared",
+          );
+          const mime = await graph.getEmailMime(
+            accessToken,
+            args.messageId,
+            mailbox,
+          );
+          if (!mime) {
+            const summary = {
+              id: args.messageId,
+              note: `Message exceeds the ${MAX_EXPORT_SIZE / 1024 / 1024} MB export limit; save it from Outlook instead.`,
+            };
+            return {
+              content: [
+                { type: "text", text: JSON.stringify(summary, null, 2) },
+              ],
+            };
+          }
+
+          const { headers } = parseMimeMessage(mime);
+          const summary = {
+            id: args.messageId,
+            fileName: `${(headers.subject || "message").replace(/[\\/:*?"<>|\r\n]+/g, "_").slice(0, 100)}.eml`,
+            subject: headers.subject,
+            from: headers.from,
+            date: headers.date,
+            messageId: headers["message-id"],
+            size: mime.byteLength,
+          };
+
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(summary, null, 2) },
+              {
+                type: "resource",
+                resource: {
+                  uri: `microsoft://messages/${encodeURIComponent(args.messageId)}/mime`,
+                  mimeType: "message/rfc822",
+                  blob: bytesToBase64(mime),
+                },
+              },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Export Email Tool Error",
+            error,
+            `Context: This tool downloads the MIME content of an email using the /me/messages/{id}/$value endpoint.
+Requested: Message "${args.messageId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read scope. Message ids change when a message is moved to another folder.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "exportEmails",
+      "Export the emails of a folder or date range as one mbox file, oldest first, with progress notifications",
+      {
+        folder: z
+          .string()
+          .optional()
+          .describe(
+            "Mail folder: well-known name, display name path or id; omit to export from all folders",
+          ),
+        receivedAfter: z
+          .string()
+          .optional()
+          .describe("Only emails received at or after this ISO 8601 date"),
+        receivedBefore: z
+          .string()
+          .optional()
+          .describe("Only emails received before this ISO 8601 date"),
+        maxMessages: z
+          .number()
+          .int()
+          .positive()
+          .max(MAX_EXPORT_MESSAGES)
+          .default(100)
+          .describe("Maximum number of emails to export"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("exportEmails", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Read.Shared",
+          );
+          const notify = this.getProgressNotifier(extra);
+          const result = await graph.exportEmails(
+            accessToken,
+            { ...args, mailbox },
+            notify &&
+              ((progress) =>
+                notify(
+                  progress.processed,
+                  progress.total,
+                  `Exported ${progress.processed} of ${progress.total} emails`,
+                )),
+          );
+
+          const summary = {
+            exported: result.exported,
+            size: result.mbox.byteLength,
+            skipped: result.skipped.length > 0 ? result.skipped : undefined,
+            nextReceivedAfter: result.nextReceivedAfter,
+            note: result.nextReceivedAfter
+              ? `More emails match. Call again with receivedAfter: "${result.nextReceivedAfter}" to continue.`
+              : undefined,
+          };
+          const content: CallToolResult["content"] = [
+            { type: "text", text: JSON.stringify(summary, null, 2) },
+          ];
+          if (result.exported > 0) {
+            content.push({
+              type: "resource",
+              resource: {
+                uri: `microsoft://exports/${encodeURIComponent(args.folder || "all")}.mbox`,
+                mimeType: MBOX_MIME_TYPE,
+                blob: bytesToBase64(result.mbox),
+              },
+            });
+          }
+          return { content };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Export Emails Tool Error",
+            error,
+            `Context: This tool exports emails as mbox by listing messages and downloading each from /me/messages/{id}/$value.
+Requested: ${args.folder ? `Folder "${args.folder}"` : "All folders"}${args.receivedAfter ? ` from ${args.receivedAfter}` : ""}${args.receivedBefore ? ` before ${args.receivedBefore}` : ""}, up to ${args.maxMessages} emails
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read scope. Dates must be ISO 8601, e.g. 2024-06-01.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    /** Shared mailboxes - the mailbox argument accepts these addresses */
+    this.registerTool(
+      "listSharedMailboxes",
+      "List the shared mailboxes the mail tools can use via their mailbox argument",
+      {},
+      async (): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        try {
+          const mailboxes = await getSharedMailboxes(this.env);
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  mailboxes.length > 0
+                    ? JSON.stringify(mailboxes, null, 2)
+                    : "No shared mailboxes are configured. Mail tools work on your own mailbox only.",
+              },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "List Shared Mailboxes Tool Error",
+            error,
+            `Context: This tool reads the shared mailbox allow-list from CONFIG_KV.
+Requested: Allowed shared mailboxes
+Troubleshooting: Check that the CONFIG_KV binding is configured for this Worker.`,
+          );
+        }
+      },
+    );
+
+    /** Mail folders - names are resolved to ids by the Graph client */
+    this.registerTool(
+      "listMailFolders",
+      "List the mail folder tree with unread and total counts",
+      {
+        includeHidden: z
+          .boolean()
+          .default(false)
+          .describe("Include hidden folders"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("listMailFolders", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Read.Shared",
+          );
+          const folders = await graph.listMailFolders(
+            accessToken,
+            args.includeHidden,
+            mailbox,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(folders, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "List Mail Folders Tool Error",
+            error,
+            `Context: This tool lists mail folders in Microsoft 365 using the /me/mailfolders endpoint.
+Requested: Folder tree${args.includeHidden ? " including hidden folders" : ""}
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "createMailFolder",
+      "Create a mail folder",
+      {
+        displayName: z.string().min(1).describe("Name of the new folder"),
+        parentFolder: z
+          .string()
+          .optional()
+          .describe("Parent folder name, path or id; mailbox root if omitted"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("createMailFolder", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.ReadWrite.Shared",
+          );
+          const folder = await graph.createMailFolder(accessToken, {
+            ...args,
+            mailbox,
+          });
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Folder "${folder.displayName}" created: ${folder.id}`,
+              },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Create Mail Folder Tool Error",
+            error,
+            `Context: This tool creates mail folders in Microsoft 365 using the /me/mailfolders endpoint.
+Requested: Create "${args.displayName}"${args.parentFolder ? ` in "${args.parentFolder}"` : ""}
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.ReadWrite scope. Folder names must be unique within their parent.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "renameMailFolder",
+      "Rename a mail folder",
+      {
+        folder: z.string().describe("Folder name, path or id"),
+        displayName: z.string().min(1).describe("New folder name"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("renameMailFolder", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.ReadWrite.Shared",
+          );
+          const folder = await graph.renameMailFolder(
+            accessToken,
+            args.folder,
+            args.displayName,
+            mailbox,
+          );
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Folder renamed to "${folder.displayName}"`,
+              },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Rename Mail Folder Tool Error",
+            error,
+            `Context: This tool renames mail folders in Microsoft 365 using the /me/mailfolders/{id} endpoint.
+Requested: Rename "${args.folder}" to "${args.displayName}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.ReadWrite scope. Well-known folders such as Inbox cannot be renamed.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "deleteMailFolder",
+      "Delete a mail folder and the messages it contains",
+      {
+        folder: z.string().describe("Folder name, path or id"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("deleteMailFolder", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.ReadWrite.Shared",
+          );
+          await graph.deleteMailFolder(accessToken, args.folder, mailbox);
+          return {
+            content: [
+              { type: "text", text: `Folder "${args.folder}" deleted` },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Delete Mail Folder Tool Error",
+            error,
+            `Context: This tool deletes mail folders in Microsoft 365 using the /me/mailfolders/{id} endpoint.
+Requested: Delete "${args.folder}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.ReadWrite scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "moveEmails",
+      "Move emails to another mail folder",
+      {
+        messageIds: z
+          .array(z.string())
+          .min(1)
+          .max(100)
+          .describe("IDs of the messages to move"),
+        destinationFolder: z
+          .string()
+          .describe("Destination folder name, path or id"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("moveEmails", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.ReadWrite.Shared",
+          );
+          const results = await graph.moveEmails(accessToken, {
+            ...args,
+            mailbox,
+          });
+          return {
+            content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Move Emails Tool Error",
+            error,
+            `Context: This tool moves emails in Microsoft 365 using the /me/messages/{id}/move endpoint.
+Requested: Move ${args.messageIds.length} message(s) to "${args.destinationFolder}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.ReadWrite scope. Moved messages get new ids, returned as newMessageId.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "copyEmails",
+      "Copy emails to another mail folder",
+      {
+        messageIds: z
+          .array(z.string())
+          .min(1)
+          .max(100)
+          .describe("IDs of the messages to copy"),
+        destinationFolder: z
+          .string()
+          .describe("Destination folder name, path or id"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("copyEmails", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.ReadWrite.Shared",
+          );
+          const results = await graph.copyEmails(accessToken, {
+            ...args,
+            mailbox,
+          });
+          return {
+            content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Copy Emails Tool Error",
+            error,
+            `Context: This tool copies emails in Microsoft 365 using the /me/messages/{id}/copy endpoint.
+Requested: Copy ${args.messageIds.length} message(s) to "${args.destinationFolder}"
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.ReadWrite scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    /** Triage - bulk changes run as $batch with a result per message */
+    this.registerTool(
+      "updateEmails",
+      "Mark emails read or unread, flag them, change categories or importance",
+      {
+        messageIds: z
+          .array(z.string())
+          .min(1)
+          .max(100)
+          .describe("IDs of the messages to update"),
+        isRead: z.boolean().optional().describe("Mark as read or unread"),
+        flag: z
+          .object({
+            status: z
+              .enum(["notFlagged", "flagged", "complete"])
+              .describe("notFlagged clears the flag"),
+            dueDateTime: z
+              .string()
+              .optional()
+              .describe("Follow-up due date (ISO 8601)"),
+            startDateTime: z
+              .string()
+              .optional()
+              .describe(
+                "Follow-up start date, defaults to the due date; needs dueDateTime",
+              ),
+            timeZone: timeZoneSchema,
+          })
+          .optional()
+          .describe("Follow-up flag"),
+        addCategories: z
+          .array(z.string())
+          .optional()
+          .describe("Categories to add"),
+        removeCategories: z
+          .array(z.string())
+          .optional()
+          .describe("Categories to remove"),
+        importance: z
+          .enum(["low", "normal", "high"])
+          .optional()
+          .describe("Message importance"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("updateEmails", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.ReadWrite.Shared",
+          );
+          const zone =
+            args.flag?.status === "flagged" && args.flag.dueDateTime
+              ? await graph.resolveCalendarTimeZone(
+                  accessToken,
+                  args.flag.timeZone,
+                )
+              : undefined;
+          const results = await graph.updateEmails(accessToken, {
+            ...args,
+            flag: args.flag && { ...args.flag, timeZone: zone?.windows },
+            mailbox,
+          });
+          const note = zone && this.getTimeZoneNote(zone);
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(results, null, 2) },
+              ...(note ? [{ type: "text" as const, text: note }] : []),
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Update Emails Tool Error",
+            error,
+            `Context: This tool updates emails in Microsoft 365 using PATCH /me/messages/{id} through $batch.
+Requested: Update ${args.messageIds.length} message(s)
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.ReadWrite scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "deleteEmails",
+      "Move emails to Deleted Items",
+      {
+        messageIds: z
+          .array(z.string())
+          .min(1)
+          .max(100)
+          .describe("IDs of the messages to delete"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("deleteEmails", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.ReadWrite.Shared",
+          );
+          const results = await graph.deleteEmails(
+            accessToken,
+            args.messageIds,
+            mailbox,
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Delete Emails Tool Error",
+            error,
+            `Context: This tool moves emails to Deleted Items in Microsoft 365 using the /me/messages/{id}/move endpoint.
+Requested: Delete ${args.messageIds.length} message(s)
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.ReadWrite scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    /** Inbox rules - create and update preview matches until confirmed */
+    this.registerTool(
+      "listInboxRules",
+      "List Outlook inbox rules with their conditions and actions",
+      {},
+      async (_args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("listInboxRules", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const rules = await graph.listInboxRules(accessToken);
+          return {
+            content: [{ type: "text", text: JSON.stringify(rules, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "List Inbox Rules Tool Error",
+            error,
+            `Context: This tool lists inbox rules in Microsoft 365 using the /me/mailFolders/inbox/messageRules endpoint.
+Requested: All inbox rules
+Troubleshooting: If you see permission errors, ensure the app registration has MailboxSettings.Read scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "createInboxRule",
+      "Create an Outlook inbox rule. Without confirm: true, only previews which recent messages it would match",
+      {
+        displayName: z.string().min(1).describe("Rule name"),
+        conditions: ruleConditionsSchema.describe(
+          "All set conditions must match; list values match any of",
+        ),
+        actions: ruleActionsSchema.describe("What to do with matches"),
+        exceptions: ruleConditionsSchema
+          .optional()
+          .describe("Skip messages matching any of these"),
+        sequence: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Execution order, default after existing rules"),
+        isEnabled: z.boolean().default(true),
+        confirm: z
+          .boolean()
+          .default(false)
+          .describe("Create the rule; false returns a preview only"),
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("createInboxRule", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const { confirm, ...params } = args;
+          if (!confirm) {
+            const rule = await graph.buildInboxRule(accessToken, params);
+            return this.getRulePreview(graph, accessToken, rule);
+          }
+
+          const rule = await graph.createInboxRule(accessToken, params);
+          return {
+            content: [{ type: "text", text: JSON.stringify(rule, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Create Inbox Rule Tool Error",
+            error,
+            `Context: This tool creates inbox rules in Microsoft 365 using POST /me/mailFolders/inbox/messageRules.
+Requested: Rule "${args.displayName}"${args.confirm ? "" : " (preview)"}
+Troubleshooting: If you see permission errors, ensure the app registration has MailboxSettings.ReadWrite scope. Folders must exist; create them with createMailFolder first.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "updateInboxRule",
+      "Change, enable or disable an Outlook inbox rule. Changes other than disabling or renaming are previewed until confirm: true",
+      {
+        ruleId: z.string().describe("ID from listInboxRules"),
+        displayName: z.string().min(1).optional(),
+        conditions: ruleConditionsSchema
+          .optional()
+          .describe("Replaces all conditions"),
+        actions: ruleActionsSchema.optional().describe("Replaces all actions"),
+        exceptions: ruleConditionsSchema
+          .optional()
+          .describe("Replaces all exceptions"),
+        sequence: z.number().int().positive().optional(),
+        isEnabled: z.boolean().optional().describe("Enable or disable"),
+        confirm: z
+          .boolean()
+          .default(false)
+          .describe("Apply the change; false returns a preview only"),
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("updateInboxRule", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const { confirm, ...params } = args;
+          /** Disabling, renaming and reordering cannot start matching new mail */
+          const changesMatching =
+            !!params.conditions ||
+            !!params.exceptions ||
+            !!params.actions ||
+            params.isEnabled === true;
+
+          if (!confirm && changesMatching) {
+            const [existing, changes] = await Promise.all([
+              graph.getInboxRule(accessToken, params.ruleId),
+              graph.buildInboxRule(accessToken, params),
+            ]);
+            const { id: _id, ...current } = existing;
+            return this.getRulePreview(graph, accessToken, {
+              ...current,
+              ...changes,
+            });
+          }
+
+          const rule = await graph.updateInboxRule(accessToken, params);
+          return {
+            content: [{ type: "text", text: JSON.stringify(rule, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Update Inbox Rule Tool Error",
+            error,
+            `Context: This tool updates inbox rules in Microsoft 365 using PATCH /me/mailFolders/inbox/messageRules/{id}.
+Requested: Rule "${args.ruleId}"${args.confirm ? "" : " (preview)"}
+Troubleshooting: If you see permission errors, ensure the app registration has MailboxSettings.ReadWrite scope. Rules with isReadOnly: true were created by another client and cannot be changed through Graph.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "deleteInboxRule",
+      "Delete an Outlook inbox rule",
+      {
+        ruleId: z.string().describe("ID from listInboxRules"),
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("deleteInboxRule", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          await graph.deleteInboxRule(accessToken, args.ruleId);
+          return {
+            content: [{ type: "text", text: "Inbox rule deleted" }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Delete Inbox Rule Tool Error",
+            error,
+            `Context: This tool deletes inbox rules in Microsoft 365 using DELETE /me/mailFolders/inbox/messageRules/{id}.
+Requested: Rule "${args.ruleId}"
+Troubleshooting: If you see permission errors, ensure the app registration has MailboxSettings.ReadWrite scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    /** Mailbox settings - automatic replies, time zone, working hours */
+    this.registerTool(
+      "getMailboxSettings",
+      "Get automatic replies (out of office), time zone, language, date and time formats and working hours",
+      {
+        bypassCache: z
+          .boolean()
+          .default(false)
+          .describe("Skip cached results and fetch fresh data from Graph"),
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("getMailboxSettings", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const settings = await graph.getMailboxSettings(
+            accessToken,
+            args.bypassCache,
+          );
+          const replies = settings.automaticRepliesSetting;
+          const result = {
+            ...settings,
+            automaticRepliesSetting: replies && {
+              ...replies,
+              internalReplyMessage: replies.internalReplyMessage
+                ? htmlToMarkdown(replies.internalReplyMessage)
+                : replies.internalReplyMessage,
+              externalReplyMessage: replies.externalReplyMessage
+                ? htmlToMarkdown(replies.externalReplyMessage)
+                : replies.externalReplyMessage,
+            },
+          };
+          return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Get Mailbox Settings Tool Error",
+            error,
+            `Context: This tool retrieves mailbox settings from Microsoft 365 using the /me/mailboxSettings endpoint.
+Requested: Mailbox settings
+Troubleshooting: If you see permission errors, ensure the app registration has MailboxSettings.Read scope.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "setAutomaticReplies",
+      "Turn automatic replies (out of office) on or off, or schedule them for a time window, with separate internal and external messages",
+      {
+        status: z
+          .enum(["disabled", "alwaysEnabled", "scheduled"])
+          .describe("scheduled sends replies only between start and end"),
+        internalMessage: z
+          .string()
+          .optional()
+          .describe("Reply to senders in your organization (text or HTML)"),
+        externalMessage: z
+          .string()
+          .optional()
+          .describe("Reply to external senders (text or HTML)"),
+        externalAudience: z
+          .enum(["none", "contactsOnly", "all"])
+          .optional()
+          .describe("External senders who get a reply"),
+        startDateTime: z
+          .string()
+          .optional()
+          .describe(
+            "Start of the window, ISO 8601, e.g. 2024-07-01T00:00 (local time in timeZone) or 2024-07-01T00:00:00+02:00",
+          ),
+        endDateTime: z
+          .string()
+          .optional()
+          .describe("End of the window, ISO 8601, e.g. 2024-07-08T00:00"),
+        timeZone: timeZoneSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("setAutomaticReplies", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const zone =
+            args.status === "scheduled"
+              ? await graph.resolveCalendarTimeZone(accessToken, args.timeZone)
+              : undefined;
+          const setting = await graph.setAutomaticReplies(accessToken, {
+            ...args,
+            timeZone: zone?.windows,
+          });
+          const note = zone && this.getTimeZoneNote(zone);
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify({ ...setting, note }, null, 2),
+              },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Automatic Replies Tool Error",
+            error,
+            `Context: This tool changes automatic replies in Microsoft 365 using PATCH /me/mailboxSettings.
+Requested: Status "${args.status}"${args.status === "scheduled" ? ` from ${args.startDateTime} to ${args.endDateTime}` : ""}
+Troubleshooting: If you see permission errors, ensure the app registration has MailboxSettings.ReadWrite scope. Scheduled replies need startDateTime and endDateTime.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "updateMailboxSettings",
+      "Change mailbox time zone, language, date and time formats or working hours",
+      {
+        timeZone: z
+          .string()
+          .optional()
+          .describe(
+            "Time zone, e.g. 'W. Europe Standard Time' or 'Europe/Berlin'",
+          ),
+        language: z.string().optional().describe("Locale, e.g. en-US"),
+        dateFormat: z.string().optional().describe("e.g. dd/MM/yyyy"),
+        timeFormat: z.string().optional().describe("e.g. HH:mm"),
+        workingHours: z
+          .object({
+            daysOfWeek: z
+              .array(
+                z.enum([
+                  "monday",
+                  "tuesday",
+                  "wednesday",
+                  "thursday",
+                  "friday",
+                  "saturday",
+                  "sunday",
+                ]),
+              )
+              .optional(),
+            startTime: z.string().optional().describe("HH:mm"),
+            endTime: z.string().optional().describe("HH:mm"),
+            timeZone: z.string().optional(),
+          })
+          .optional()
+          .describe("Omitted fields keep their current value"),
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("updateMailboxSettings", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const settings = await graph.updateMailboxSettings(accessToken, args);
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(settings, null, 2) },
+            ],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Update Mailbox Settings Tool Error",
+            error,
+            `Context: This tool changes mailbox settings in Microsoft 365 using PATCH /me/mailboxSettings.
+Requested: ${Object.keys(args).join(", ") || "no changes"}
+Troubleshooting: If you see permission errors, ensure the app registration has MailboxSettings.ReadWrite scope. Time zones must be Windows or IANA names supported by Exchange.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "syncEmails",
+      "Get emails added, changed or deleted since the previous sync",
+      {
+        folder: z
+          .string()
+          .default("inbox")
+          .describe("Mail folder: well-known name, display name path or id"),
+        reset: z
+          .boolean()
+          .default(false)
+          .describe("Discard sync state and start a full initial sync"),
+        mailbox: mailboxSchema,
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("syncEmails", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const mailbox = await resolveSharedMailbox(
+            this.env,
+            args.mailbox,
+            "Mail.Read.Shared",
+          );
+          const changes = await this.runDeltaSync(
+            accessToken,
+            mailbox
+              ? `messages:${mailbox.toLowerCase()}:${args.folder.toLowerCase()}`
+              : `messages:${args.folder.toLowerCase()}`,
+            args.reset,
+            (link) =>
+              graph.getEmailsDelta(accessToken, {
+                mailbox,
+                folder: args.folder,
+                link,
+              }),
+          );
+          return {
+            content: [{ type: "text", text: JSON.stringify(changes, null, 2) }],
+          };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Sync Emails Tool Error",
+            error,
+            `Context: This tool tracks mailbox changes using the /me/mailfolders/{folder}/messages/delta endpoint.
+Requested: Changes in "${args.folder}" folder${args.reset ? " (reset)" : ""}
+Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read scope. If the sync state has expired, call again with reset set to true.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    // ============================================================================
+    // CALENDAR TOOLS - Microsoft 365 Calendar Integration
+    // ============================================================================
+    this.registerTool(
+      "getCalendarEvents",
+      "Get calendar events",
       {
-        to: z.string().describe("Recipient email address"),
-        subject: z.string().describe("Email subject"),
-        body: z.string().describe("Email body content"),
-        contentType: z
-          .enum(["text", "html"])
-          .default("html")
-          .describe("Content type"),
+        days: z
+          .number()
+          .int()
+          .positive()
+          .max(30)
+          .default(7)
+          .describe("Days ahead"),
+        timeZone: timeZoneSchema,
+        cursor: z
+          .string()
+          .optional()
+          .describe("nextCursor from a previous call to fetch the next page"),
       },
-      async (args): Promise<CallToolResult> => {
+      async (args, extra): Promise<CallToolResult> => {
         const accessToken = this.props?.microsoftAccessToken;
         if (!accessToken) {
           return this.getAuthErrorResponse();
         }
 
+        const trace = this.createTrace("getCalendarEvents", extra);
+        const graph = this.graphClient.withTrace(trace);
+
         try {
-          await this.graphClient.sendEmail(accessToken, args);
+          const zone = await graph.resolveCalendarTimeZone(
+            accessToken,
+            args.timeZone,
+          );
+          const events = await this.getPagedResult(
+            accessToken,
+            "getCalendarEvents",
+            args.cursor,
+            (nextLink) =>
+              graph.getCalendarEvents(accessToken, {
+                days: args.days,
+                timeZone: zone.windows,
+                nextLink,
+              }),
+          );
+          const note = this.getTimeZoneNote(zone);
           return {
             content: [
-              { type: "text", text: `Email sent successfully to ${args.to}` },
+              {
+                type: "text",
+                text: JSON.stringify({ ...events, note }, null, 2),
+              },
             ],
           };
         } catch (error: any) {
-          const errorMessage = error?.message || String(error);
-          const contextualError = `Send Email Tool Error: ${errorMessage}
-          
-Context: This tool sends emails via Microsoft 365 using the /me/sendMail endpoint.
-Requested: Send email to "${args.to}" with subject "${args.subject}"
-Troubleshooting: If you see permission errors, ensure the app registration has Mail.Send scope and the user has mailbox access.`;
-
-          return {
-            content: [{ type: "text", text: contextualError }],
-            isError: true,
-          };
+          return this.getToolErrorResponse(
+            "Get Calendar Events Tool Error",
+            error,
+            `Context: This tool retrieves calendar events from Microsoft 365 using the /me/events endpoint.
+Requested: ${args.days} days of upcoming calendar events${args.timeZone ? ` in ${args.timeZone}` : ""}
+Troubleshooting: If you see permission errors, ensure the app registration has Calendars.Read scope and the user has calendar access.`,
+            trace,
+          );
         }
       },
     );
 
-    /** Email retrieval - Microsoft 365 mailbox folder access */
-    this.server.tool(
-      "getEmails",
-      "Get recent emails",
+    this.registerTool(
+      "createCalendarEvent",
+      "Create calendar event",
       {
-        count: z.number().max(50).default(10).describe("Number of emails"),
-        folder: z.string().default("inbox").describe("Mail folder"),
+        subject: z.string().describe("Event title"),
+        start: z
+          .string()
+          .describe(
+            "Start time (ISO 8601); without an offset it is local time in timeZone",
+          ),
+        end: z
+          .string()
+          .describe(
+            "End time (ISO 8601); without an offset it is local time in timeZone",
+          ),
+        timeZone: timeZoneSchema,
+        attendees: z.array(z.string()).optional().describe("Attendee emails"),
+        body: z.string().optional().describe("Event description"),
+        attachments: attachmentsSchema,
       },
-      async (args): Promise<CallToolResult> => {
+      async (args, extra): Promise<CallToolResult> => {
         const accessToken = this.props?.microsoftAccessToken;
         if (!accessToken) {
           return this.getAuthErrorResponse();
         }
 
-        try {
-          const emails = await this.graphClient.getEmails(accessToken, {
-            count: args.count,
-            folder: args.folder,
-          });
+        const trace = this.createTrace("createCalendarEvent", extra);
+        const graph = this.graphClient.withTrace(trace);
 
+        try {
+          const zone = await graph.resolveCalendarTimeZone(
+            accessToken,
+            args.timeZone,
+          );
+          const event = await graph.createCalendarEvent(
+            accessToken,
+            { ...args, timeZone: zone.windows },
+            this.getProgressReporter(extra),
+          );
+          const note = this.getTimeZoneNote(zone);
           return {
-            content: [{ type: "text", text: JSON.stringify(emails, null, 2) }],
+            content: [
+              {
+                type: "text",
+                text: `Event created: ${event.id} (${event.start?.dateTime} to ${event.end?.dateTime}, ${event.start?.timeZone})${note ? `\n${note}` : ""}`,
+              },
+            ],
           };
         } catch (error: any) {
-          const errorMessage = error?.message || String(error);
-          const contextualError = `Email Tool Error: ${errorMessage}
-          
-Context: This tool retrieves emails from Microsoft 365 using the /me/mailfolders/{folder}/messages endpoint.
-Requested: ${args.count} emails from "${args.folder}" folder
-Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read scope.`;
-
-          return {
-            content: [{ type: "text", text: contextualError }],
-            isError: true,
-          };
+          return this.getToolErrorResponse(
+            "Create Calendar Event Tool Error",
+            error,
+            `Context: This tool creates calendar events in Microsoft 365 using the /me/events endpoint.
+Requested: Create event "${args.subject}" from ${args.start} to ${args.end}${args.timeZone ? ` (${args.timeZone})` : ""}
+Troubleshooting: If you see permission errors, ensure the app registration has Calendars.ReadWrite scope. Check that dates are in valid ISO 8601 format and timeZone is an IANA (Europe/Berlin) or Windows (W. Europe Standard Time) name.`,
+            trace,
+          );
         }
       },
     );
 
-    this.server.tool(
-      "searchEmails",
-      "Search emails",
+    this.registerTool(
+      "updateCalendarEvent",
+      "Change the subject, time, location, description or attendees of an event you organize; attendees are notified",
       {
-        query: z.string().describe("Search query"),
-        count: z.number().max(50).default(10).describe("Number of results"),
+        eventId: z.string().describe("ID of the event"),
+        subject: z.string().optional().describe("New event title"),
+        start: z
+          .string()
+          .optional()
+          .describe(
+            "New start time (ISO 8601); without end, the duration is kept",
+          ),
+        end: z.string().optional().describe("New end time (ISO 8601)"),
+        timeZone: timeZoneSchema,
+        location: z.string().optional().describe("New location"),
+        body: z.string().optional().describe("New event description (HTML)"),
+        addAttendees: z
+          .array(z.string())
+          .optional()
+          .describe("Attendee emails to invite"),
+        removeAttendees: z
+          .array(z.string())
+          .optional()
+          .describe("Attendee emails to remove"),
       },
-      async (args): Promise<CallToolResult> => {
+      async (args, extra): Promise<CallToolResult> => {
         const accessToken = this.props?.microsoftAccessToken;
         if (!accessToken) {
           return this.getAuthErrorResponse();
         }
 
+        const trace = this.createTrace("updateCalendarEvent", extra);
+        const graph = this.graphClient.withTrace(trace);
+
         try {
-          const results = await this.graphClient.searchEmails(accessToken, {
-            query: args.query,
-            count: args.count,
+          const zone = await graph.resolveCalendarTimeZone(
+            accessToken,
+            args.timeZone,
+          );
+          const event = await graph.updateCalendarEvent(accessToken, {
+            ...args,
+            timeZone: zone.windows,
           });
+          const note = this.getTimeZoneNote(zone);
           return {
-            content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
+            content: [
+              {
+                type: "text",
+                text: `Event updated: ${event.id} (${event.start?.dateTime} to ${event.end?.dateTime}, ${event.start?.timeZone})${note ? `\n${note}` : ""}`,
+              },
+            ],
           };
         } catch (error: any) {
-          const errorMessage = error?.message || String(error);
-          const contextualError = `Search Emails Tool Error: ${errorMessage}
-          
-Context: This tool searches emails in Microsoft 365 using the /me/messages search endpoint.
-Requested: Search for "${args.query}" with ${args.count} results
-Troubleshooting: If you see permission errors, ensure the app registration has Mail.Read scope. For search syntax, use KQL (Keyword Query Language).`;
+          return this.getToolErrorResponse(
+            "Update Calendar Event Tool Error",
+            error,
+            `Context: This tool updates calendar events using the /me/events/{id} endpoint.
+Requested: Update event "${args.eventId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Calendars.ReadWrite scope. Only the organizer can change a meeting; attendees should use declineCalendarEvent.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "cancelCalendarEvent",
+      "Cancel a meeting you organize and send attendees a cancellation with an optional message",
+      {
+        eventId: z.string().describe("ID of the event"),
+        comment: z
+          .string()
+          .optional()
+          .describe("Message included in the cancellation"),
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("cancelCalendarEvent", extra);
+        const graph = this.graphClient.withTrace(trace);
 
+        try {
+          await graph.cancelCalendarEvent(
+            accessToken,
+            args.eventId,
+            args.comment,
+          );
           return {
-            content: [{ type: "text", text: contextualError }],
-            isError: true,
+            content: [
+              { type: "text", text: `Event cancelled: ${args.eventId}` },
+            ],
           };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Cancel Calendar Event Tool Error",
+            error,
+            `Context: This tool cancels meetings using the /me/events/{id}/cancel endpoint.
+Requested: Cancel event "${args.eventId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Calendars.ReadWrite scope. Only the organizer can cancel a meeting; attendees should use declineCalendarEvent.`,
+            trace,
+          );
         }
       },
     );
 
-    // ============================================================================
-    // CALENDAR TOOLS - Microsoft 365 Calendar Integration
-    // ============================================================================
-    this.server.tool(
-      "getCalendarEvents",
-      "Get calendar events",
+    this.registerTool(
+      "declineCalendarEvent",
+      "Decline a meeting you were invited to, optionally with a message to the organizer",
       {
-        days: z.number().max(30).default(7).describe("Days ahead"),
+        eventId: z.string().describe("ID of the event"),
+        comment: z.string().optional().describe("Message to the organizer"),
+        sendResponse: z
+          .boolean()
+          .default(true)
+          .describe("Notify the organizer"),
       },
-      async (args): Promise<CallToolResult> => {
+      async (args, extra): Promise<CallToolResult> => {
         const accessToken = this.props?.microsoftAccessToken;
         if (!accessToken) {
           return this.getAuthErrorResponse();
         }
 
+        const trace = this.createTrace("declineCalendarEvent", extra);
+        const graph = this.graphClient.withTrace(trace);
+
         try {
-          const events = await this.graphClient.getCalendarEvents(accessToken, {
-            days: args.days,
-          });
+          await graph.declineCalendarEvent(
+            accessToken,
+            args.eventId,
+            args.comment,
+            args.sendResponse,
+          );
           return {
-            content: [{ type: "text", text: JSON.stringify(events, null, 2) }],
+            content: [
+              { type: "text", text: `Event declined: ${args.eventId}` },
+            ],
           };
         } catch (error: any) {
-          const errorMessage = error?.message || String(error);
-          const contextualError = `Get Calendar Events Tool Error: ${errorMessage}
-          
-Context: This tool retrieves calendar events from Microsoft 365 using the /me/events endpoint.
-Requested: ${args.days} days of upcoming calendar events
-Troubleshooting: If you see permission errors, ensure the app registration has Calendars.Read scope and the user has calendar access.`;
+          return this.getToolErrorResponse(
+            "Decline Calendar Event Tool Error",
+            error,
+            `Context: This tool declines meeting invitations using the /me/events/{id}/decline endpoint.
+Requested: Decline event "${args.eventId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Calendars.ReadWrite scope. Organizers cannot decline their own meetings; use cancelCalendarEvent.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "deleteCalendarEvent",
+      "Delete an event from your calendar; as organizer, attendees receive a cancellation",
+      {
+        eventId: z.string().describe("ID of the event"),
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("deleteCalendarEvent", extra);
+        const graph = this.graphClient.withTrace(trace);
 
+        try {
+          await graph.deleteCalendarEvent(accessToken, args.eventId);
           return {
-            content: [{ type: "text", text: contextualError }],
-            isError: true,
+            content: [{ type: "text", text: `Event deleted: ${args.eventId}` }],
           };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Delete Calendar Event Tool Error",
+            error,
+            `Context: This tool deletes calendar events using the /me/events/{id} endpoint.
+Requested: Delete event "${args.eventId}"
+Troubleshooting: If you see permission errors, ensure the app registration has Calendars.ReadWrite scope. Attendees should decline invitations with declineCalendarEvent instead of deleting them.`,
+            trace,
+          );
         }
       },
     );
 
-    this.server.tool(
-      "createCalendarEvent",
-      "Create calendar event",
+    this.registerTool(
+      "forwardCalendarEvent",
+      "Forward a meeting invitation to other people",
       {
-        subject: z.string().describe("Event title"),
-        start: z.string().describe("Start time (ISO 8601)"),
-        end: z.string().describe("End time (ISO 8601)"),
-        attendees: z.array(z.string()).optional().describe("Attendee emails"),
-        body: z.string().optional().describe("Event description"),
+        eventId: z.string().describe("ID of the event"),
+        to: z.array(z.string()).min(1).describe("Recipient emails"),
+        comment: z.string().optional().describe("Message above the invitation"),
       },
-      async (args): Promise<CallToolResult> => {
+      async (args, extra): Promise<CallToolResult> => {
         const accessToken = this.props?.microsoftAccessToken;
         if (!accessToken) {
           return this.getAuthErrorResponse();
         }
 
+        const trace = this.createTrace("forwardCalendarEvent", extra);
+        const graph = this.graphClient.withTrace(trace);
+
         try {
-          const event = await this.graphClient.createCalendarEvent(
+          await graph.forwardCalendarEvent(
             accessToken,
-            args,
+            args.eventId,
+            args.to,
+            args.comment,
           );
           return {
-            content: [{ type: "text", text: `Event created: ${event.id}` }],
+            content: [
+              {
+                type: "text",
+                text: `Invitation forwarded to ${args.to.join(", ")}`,
+              },
+            ],
           };
         } catch (error: any) {
-          const errorMessage = error?.message || String(error);
-          const contextualError = `Create Calendar Event Tool Error: ${errorMessage}
-          
-Context: This tool creates calendar events in Microsoft 365 using the /me/events endpoint.
-Requested: Create event "${args.subject}" from ${args.start} to ${args.end}
-Troubleshooting: If you see permission errors, ensure the app registration has Calendars.ReadWrite scope. Check that dates are in valid ISO 8601 format.`;
+          return this.getToolErrorResponse(
+            "Forward Calendar Event Tool Error",
+            error,
+            `Context: This tool forwards meeting invitations using the /me/events/{id}/forward endpoint.
+Requested: Forward event "${args.eventId}" to ${args.to.join(", ")}
+Troubleshooting: If you see permission errors, ensure the app registration has Calendars.ReadWrite scope. Recipient addresses must be valid email addresses.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "syncCalendarEvents",
+      "Get calendar events added, changed or deleted since the previous sync",
+      {
+        days: z
+          .number()
+          .int()
+          .positive()
+          .max(90)
+          .default(30)
+          .describe("Days ahead tracked, fixed when the sync starts"),
+        reset: z
+          .boolean()
+          .default(false)
+          .describe("Discard sync state and start a full initial sync"),
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
 
+        const trace = this.createTrace("syncCalendarEvents", extra);
+        const graph = this.graphClient.withTrace(trace);
+
+        try {
+          const changes = await this.runDeltaSync(
+            accessToken,
+            `events:${args.days}`,
+            args.reset,
+            (link) =>
+              graph.getCalendarEventsDelta(accessToken, {
+                days: args.days,
+                link,
+              }),
+          );
           return {
-            content: [{ type: "text", text: contextualError }],
-            isError: true,
+            content: [{ type: "text", text: JSON.stringify(changes, null, 2) }],
           };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Sync Calendar Events Tool Error",
+            error,
+            `Context: This tool tracks calendar changes using the /me/calendarView/delta endpoint.
+Requested: Changes in the next ${args.days} days${args.reset ? " (reset)" : ""}
+Troubleshooting: If you see permission errors, ensure the app registration has Calendars.Read scope. If the sync state has expired, call again with reset set to true.`,
+            trace,
+          );
         }
       },
     );
@@ -327,7 +3265,7 @@ Troubleshooting: If you see permission errors, ensure the app registration has C
     // TEAMS TOOLS - Microsoft Teams Integration
     // ============================================================================
 
-    this.server.tool(
+    this.registerTool(
       "sendTeamsMessage",
       "Send Teams message",
       {
@@ -335,32 +3273,32 @@ Troubleshooting: If you see permission errors, ensure the app registration has C
         channelId: z.string().describe("Channel ID"),
         message: z.string().describe("Message content"),
       },
-      async (args): Promise<CallToolResult> => {
+      async (args, extra): Promise<CallToolResult> => {
         const accessToken = this.props?.microsoftAccessToken;
         if (!accessToken) {
           return this.getAuthErrorResponse();
         }
 
+        const trace = this.createTrace("sendTeamsMessage", extra);
+        const graph = this.graphClient.withTrace(trace);
+
         try {
-          await this.graphClient.sendTeamsMessage(accessToken, args);
+          await graph.sendTeamsMessage(accessToken, args);
           return { content: [{ type: "text", text: "Teams message sent" }] };
         } catch (error: any) {
-          const errorMessage = error?.message || String(error);
-          const contextualError = `Send Teams Message Tool Error: ${errorMessage}
-          
-Context: This tool sends messages to Teams channels using the /teams/{teamId}/channels/{channelId}/messages endpoint.
+          return this.getToolErrorResponse(
+            "Send Teams Message Tool Error",
+            error,
+            `Context: This tool sends messages to Teams channels using the /teams/{teamId}/channels/{channelId}/messages endpoint.
 Requested: Send message to team "${args.teamId}" in channel "${args.channelId}"
-Troubleshooting: If you see permission errors, ensure the app registration has ChannelMessage.Send scope and the user has access to the specified team/channel.`;
-
-          return {
-            content: [{ type: "text", text: contextualError }],
-            isError: true,
-          };
+Troubleshooting: If you see permission errors, ensure the app registration has ChannelMessage.Send scope and the user has access to the specified team/channel.`,
+            trace,
+          );
         }
       },
     );
 
-    this.server.tool(
+    this.registerTool(
       "createTeamsMeeting",
       "Create Teams meeting",
       {
@@ -369,34 +3307,31 @@ Troubleshooting: If you see permission errors, ensure the app registration has C
         endTime: z.string().describe("End time (ISO 8601)"),
         attendees: z.array(z.string()).optional().describe("Attendee emails"),
       },
-      async (args): Promise<CallToolResult> => {
+      async (args, extra): Promise<CallToolResult> => {
         const accessToken = this.props?.microsoftAccessToken;
         if (!accessToken) {
           return this.getAuthErrorResponse();
         }
 
+        const trace = this.createTrace("createTeamsMeeting", extra);
+        const graph = this.graphClient.withTrace(trace);
+
         try {
-          const meeting = await this.graphClient.createTeamsMeeting(
-            accessToken,
-            args,
-          );
+          const meeting = await graph.createTeamsMeeting(accessToken, args);
           return {
             content: [
               { type: "text", text: `Meeting created: ${meeting.joinWebUrl}` },
             ],
           };
         } catch (error: any) {
-          const errorMessage = error?.message || String(error);
-          const contextualError = `Create Teams Meeting Tool Error: ${errorMessage}
-          
-Context: This tool creates Teams meetings using the /me/onlineMeetings endpoint.
+          return this.getToolErrorResponse(
+            "Create Teams Meeting Tool Error",
+            error,
+            `Context: This tool creates Teams meetings using the /me/onlineMeetings endpoint.
 Requested: Create meeting "${args.subject}" from ${args.startTime} to ${args.endTime}
-Troubleshooting: If you see permission errors, ensure the app registration has OnlineMeetings.ReadWrite scope. Check that times are in valid ISO 8601 format.`;
-
-          return {
-            content: [{ type: "text", text: contextualError }],
-            isError: true,
-          };
+Troubleshooting: If you see permission errors, ensure the app registration has OnlineMeetings.ReadWrite scope. Check that times are in valid ISO 8601 format.`,
+            trace,
+          );
         }
       },
     );
@@ -406,19 +3341,34 @@ Troubleshooting: If you see permission errors, ensure the app registration has O
     // CONTACT TOOLS - Microsoft 365 People API
     // ============================================================================
 
-    this.server.tool(
+    this.registerTool(
       "getContacts",
       "Get contacts",
       {
-        count: z.number().max(100).default(50).describe("Number of contacts"),
+        count: z
+          .number()
+          .max(100)
+          .default(50)
+          .describe("Number of contacts per page"),
         search: z.string().optional().describe("Search term"),
+        cursor: z
+          .string()
+          .optional()
+          .describe("nextCursor from a previous call to fetch the next page"),
+        bypassCache: z
+          .boolean()
+          .default(false)
+          .describe("Skip cached results and fetch fresh data from Graph"),
       },
-      async (args): Promise<CallToolResult> => {
+      async (args, extra): Promise<CallToolResult> => {
         const accessToken = this.props?.microsoftAccessToken;
         if (!accessToken) {
           return this.getAuthErrorResponse();
         }
 
+        const trace = this.createTrace("getContacts", extra);
+        const graph = this.graphClient.withTrace(trace);
+
         try {
           // Debug: Decode the access token to see what scopes we actually have
           try {
@@ -431,26 +3381,71 @@ Troubleshooting: If you see permission errors, ensure the app registration has O
             /** Token decode failure - invalid or expired token */
           }
 
-          const contacts = await this.graphClient.getContacts(accessToken, {
-            count: args.count,
-            search: args.search,
-          });
+          const contacts = await this.getPagedResult(
+            accessToken,
+            "getContacts",
+            args.cursor,
+            (nextLink) =>
+              graph.getContacts(accessToken, {
+                count: args.count,
+                search: args.search,
+                nextLink,
+                bypassCache: args.bypassCache,
+              }),
+          );
           return {
             content: [
               { type: "text", text: JSON.stringify(contacts, null, 2) },
             ],
           };
         } catch (error: any) {
-          const errorMessage = error?.message || String(error);
-          const contextualError = `Contacts Tool Error: ${errorMessage}
-          
-Context: This tool retrieves contacts from Microsoft 365 using the /me/people endpoint.
-Troubleshooting: If you see permission errors, the Microsoft app registration may need additional scopes or admin consent.`;
+          return this.getToolErrorResponse(
+            "Contacts Tool Error",
+            error,
+            `Context: This tool retrieves contacts from Microsoft 365 using the /me/people endpoint.
+Troubleshooting: If you see permission errors, the Microsoft app registration may need additional scopes or admin consent.`,
+            trace,
+          );
+        }
+      },
+    );
+
+    this.registerTool(
+      "syncContacts",
+      "Get personal contacts added, changed or deleted since the previous sync",
+      {
+        reset: z
+          .boolean()
+          .default(false)
+          .describe("Discard sync state and start a full initial sync"),
+      },
+      async (args, extra): Promise<CallToolResult> => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return this.getAuthErrorResponse();
+        }
+
+        const trace = this.createTrace("syncContacts", extra);
+        const graph = this.graphClient.withTrace(trace);
 
+        try {
+          const changes = await this.runDeltaSync(
+            accessToken,
+            "contacts",
+            args.reset,
+            (link) => graph.getContactsDelta(accessToken, { link }),
+          );
           return {
-            content: [{ type: "text", text: contextualError }],
-            isError: true,
+            content: [{ type: "text", text: JSON.stringify(changes, null, 2) }],
           };
+        } catch (error: any) {
+          return this.getToolErrorResponse(
+            "Sync Contacts Tool Error",
+            error,
+            `Context: This tool tracks personal contact changes using the /me/contacts/delta endpoint.
+Troubleshooting: If you see permission errors, ensure the app registration has Contacts.Read scope. If the sync state has expired, call again with reset set to true.`,
+            trace,
+          );
         }
       },
     );
@@ -460,7 +3455,7 @@ Troubleshooting: If you see permission errors, the Microsoft app registration ma
      * Returns authentication guidance when no valid tokens present
      * Automatically exposed when props are empty (unauthenticated state)
      */
-    this.server.tool(
+    this.registerTool(
       "authenticate",
       "Get authentication URL for Microsoft 365",
       {},
@@ -476,8 +3471,8 @@ Troubleshooting: If you see permission errors, the Microsoft app registration ma
       },
     );
 
-    /** Register MCP resources for user profile, calendars, and teams data access */
-    this.server.resource("profile", "microsoft://profile", async () => {
+    /** Register MCP resources for user profile, mailbox settings, calendars, and teams data access */
+    this.server.resource("profile", "microsoft://profile", async (_, extra) => {
       const accessToken = this.props?.microsoftAccessToken;
       if (!accessToken) {
         return {
@@ -496,13 +3491,17 @@ Troubleshooting: If you see permission errors, the Microsoft app registration ma
       }
 
       try {
-        const profile = await this.graphClient.getUserProfile(accessToken);
+        const { profile } = await this.getResourceSnapshot(accessToken, extra);
+        if (profile.error) {
+          throw profile.error;
+        }
+
         return {
           contents: [
             {
               uri: "microsoft://profile",
               mimeType: "application/json",
-              text: JSON.stringify(profile, null, 2),
+              text: JSON.stringify(profile.body, null, 2),
             },
           ],
         };
@@ -530,61 +3529,132 @@ Troubleshooting: If you see permission errors, the Microsoft app registration ma
     // MCP RESOURCES - Expose Microsoft 365 data as resources
     // ============================================================================
 
-    this.server.resource("calendars", "microsoft://calendars", async () => {
-      const accessToken = this.props?.microsoftAccessToken;
-      if (!accessToken) {
-        return {
-          contents: [
-            {
-              uri: "microsoft://calendars",
-              mimeType: "application/json",
-              text: JSON.stringify(
-                {
-                  error: "Authentication required",
-                  authenticated: false,
-                  calendars: [],
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
+    this.server.resource(
+      "mailbox-settings",
+      "microsoft://mailbox-settings",
+      async (_, extra) => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return {
+            contents: [
+              {
+                uri: "microsoft://mailbox-settings",
+                mimeType: "application/json",
+                text: JSON.stringify(
+                  { error: "Authentication required", authenticated: false },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
 
-      try {
-        const calendars = await this.graphClient.getCalendars(accessToken);
-        return {
-          contents: [
-            {
-              uri: "microsoft://calendars",
-              mimeType: "application/json",
-              text: JSON.stringify(calendars, null, 2),
-            },
-          ],
-        };
-      } catch (error: any) {
-        return {
-          contents: [
-            {
-              uri: "microsoft://calendars",
-              mimeType: "application/json",
-              text: JSON.stringify(
-                {
-                  error: error.message || "Failed to fetch calendars",
-                  authenticated: true,
-                  calendars: [],
-                },
-                null,
-                2,
-              ),
-            },
-          ],
-        };
-      }
-    });
+        try {
+          const { mailboxSettings } = await this.getResourceSnapshot(
+            accessToken,
+            extra,
+          );
+          if (mailboxSettings.error) {
+            throw mailboxSettings.error;
+          }
+
+          return {
+            contents: [
+              {
+                uri: "microsoft://mailbox-settings",
+                mimeType: "application/json",
+                text: JSON.stringify(mailboxSettings.body, null, 2),
+              },
+            ],
+          };
+        } catch (error: any) {
+          return {
+            contents: [
+              {
+                uri: "microsoft://mailbox-settings",
+                mimeType: "application/json",
+                text: JSON.stringify(
+                  {
+                    error: error.message || "Failed to fetch mailbox settings",
+                    authenticated: true,
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+      },
+    );
+
+    this.server.resource(
+      "calendars",
+      "microsoft://calendars",
+      async (_, extra) => {
+        const accessToken = this.props?.microsoftAccessToken;
+        if (!accessToken) {
+          return {
+            contents: [
+              {
+                uri: "microsoft://calendars",
+                mimeType: "application/json",
+                text: JSON.stringify(
+                  {
+                    error: "Authentication required",
+                    authenticated: false,
+                    calendars: [],
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+
+        try {
+          const { calendars } = await this.getResourceSnapshot(
+            accessToken,
+            extra,
+          );
+          if (calendars.error) {
+            throw calendars.error;
+          }
+
+          return {
+            contents: [
+              {
+                uri: "microsoft://calendars",
+                mimeType: "application/json",
+                text: JSON.stringify(calendars.body, null, 2),
+              },
+            ],
+          };
+        } catch (error: any) {
+          return {
+            contents: [
+              {
+                uri: "microsoft://calendars",
+                mimeType: "application/json",
+                text: JSON.stringify(
+                  {
+                    error: error.message || "Failed to fetch calendars",
+                    authenticated: true,
+                    calendars: [],
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+      },
+    );
 
-    this.server.resource("teams", "microsoft://teams", async () => {
+    this.server.resource("teams", "microsoft://teams", async (_, extra) => {
       const accessToken = this.props?.microsoftAccessToken;
       if (!accessToken) {
         return {
@@ -607,13 +3677,17 @@ Troubleshooting: If you see permission errors, the Microsoft app registration ma
       }
 
       try {
-        const teams = await this.graphClient.getTeams(accessToken);
+        const { teams } = await this.getResourceSnapshot(accessToken, extra);
+        if (teams.error) {
+          throw teams.error;
+        }
+
         return {
           contents: [
             {
               uri: "microsoft://teams",
               mimeType: "application/json",
-              text: JSON.stringify(teams, null, 2),
+              text: JSON.stringify(teams.body, null, 2),
             },
           ],
         };
@@ -650,7 +3724,7 @@ Troubleshooting: If you see permission errors, the Microsoft app registration ma
    * - Empty props during discovery is INTENTIONAL behavior
    */
   async fetch(request: Request): Promise<Response> {
-    const _requestId = Math.random().toString(36).substring(7);
+    const requestId = crypto.randomUUID();
 
     const body = await request.clone().text();
 
@@ -665,6 +3739,36 @@ Troubleshooting: If you see permission errors, the Microsoft app registration ma
       /** Non-JSON body - SSE or WebSocket transport */
     }
 
+    /** Tool calls and resource reads reuse requestId (see createTrace) */
+    for (const message of [jsonRpcRequest].flat()) {
+      if (
+        message?.id !== undefined &&
+        TRACED_METHODS.includes(message.method)
+      ) {
+        this.transportRequestIds.set(message.id, requestId);
+      }
+    }
+    /** Drop ids of requests that never reached a handler */
+    while (this.transportRequestIds.size > MAX_PENDING_TRACES) {
+      this.transportRequestIds.delete(
+        this.transportRequestIds.keys().next().value!,
+      );
+    }
+
+    /**
+     * Transport-level request log
+     * requestId is also the correlation ID of tool calls and resource
+     * reads in this request. Messages delivered over an established
+     * SSE/WebSocket stream get a fresh correlation ID per call instead.
+     */
+    logEvent("info", "mcp_request", {
+      requestId,
+      jsonRpcId: jsonRpcRequest?.id,
+      method: jsonRpcRequest?.method,
+      mcpMode: request.headers.get("X-MCP-Mode") || undefined,
+      authenticated: !!this.props?.microsoftAccessToken,
+    });
+
     /**
      * MCP discovery methods - MUST be accessible without authentication
      *
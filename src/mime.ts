@@ -0,0 +1,217 @@
+/**
+ * MIME Parsing - Read RFC 5322 / RFC 2045 messages such as .eml attachments
+ *
+ * SCOPE:
+ * - Header unfolding and RFC 2047 encoded words
+ * - Nested multipart bodies
+ * - base64, quoted-printable, 7bit and 8bit transfer encodings
+ * - Charset decoding through TextDecoder, falling back to UTF-8
+ *
+ * Only what is needed to show a message as text is extracted: headers,
+ * the first text/plain and text/html parts, and attachment file names.
+ */
+
+/** Parsed message reduced to its readable parts */
+export interface ParsedMimeMessage {
+  /** Header values keyed by lowercase name; repeated headers keep the first */
+  headers: Record<string, string>;
+  text?: string;
+  html?: string;
+  /** File names of non-text parts */
+  attachments: string[];
+}
+
+interface MimeEntity {
+  headers: Record<string, string>;
+  /** Body as a binary string, one character per byte */
+  body: string;
+}
+
+/**
+ * Parse a MIME message
+ *
+ * @param bytes - Raw message, e.g. decoded .eml attachment content
+ * @returns Headers, text bodies and attachment names
+ */
+export function parseMimeMessage(bytes: Uint8Array): ParsedMimeMessage {
+  const root = parseEntity(bytesToBinary(bytes));
+  const result: ParsedMimeMessage = { headers: root.headers, attachments: [] };
+  collectParts(root, result, 0);
+  return result;
+}
+
+/**
+ * Decode RFC 2047 encoded words in a header value
+ *
+ * @param value - Raw header value, e.g. "=?utf-8?B?SGVsbG8=?="
+ * @returns Decoded text
+ */
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?)/gi, "$1")
+    .replace(
+      /=\?([^?]+)\?([bq])\?([^?]*)\?=/gi,
+      (_, charset: string, encoding: string, text: string) => {
+        const binary =
+          encoding.toLowerCase() === "b"
+            ? safeAtob(text)
+            : decodeQuotedPrintable(text.replace(/_/g, " "));
+        return decodeCharset(binary, charset);
+      },
+    );
+}
+
+/** Maximum multipart nesting followed, guards against hostile input */
+const MAX_DEPTH = 10;
+
+/** @private */
+function parseEntity(raw: string): MimeEntity {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  const headerBlock = separator ? raw.slice(0, separator.index) : raw;
+  const body = separator
+    ? raw.slice(separator.index + separator[0].length)
+    : "";
+
+  const headers: Record<string, string> = {};
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      const name = line.slice(0, colon).trim().toLowerCase();
+      if (!(name in headers)) {
+        headers[name] = decodeHeaderValue(line.slice(colon + 1).trim());
+      }
+    }
+  }
+
+  return { headers, body };
+}
+
+/** @private */
+function collectParts(
+  entity: MimeEntity,
+  result: ParsedMimeMessage,
+  depth: number,
+): void {
+  const { type, params } = parseContentType(entity.headers["content-type"]);
+  const disposition = entity.headers["content-disposition"] || "";
+  const filename =
+    getHeaderParam(disposition, "filename") || params.name || undefined;
+
+  if (type.startsWith("multipart/") && params.boundary) {
+    if (depth >= MAX_DEPTH) {
+      return;
+    }
+    for (const part of splitMultipart(entity.body, params.boundary)) {
+      collectParts(parseEntity(part), result, depth + 1);
+    }
+    return;
+  }
+
+  const isAttachment = disposition.toLowerCase().startsWith("attachment");
+  if (!isAttachment && type === "text/plain" && result.text === undefined) {
+    result.text = decodeEntityBody(entity, params.charset);
+  } else if (
+    !isAttachment &&
+    type === "text/html" &&
+    result.html === undefined
+  ) {
+    result.html = decodeEntityBody(entity, params.charset);
+  } else if (filename) {
+    result.attachments.push(filename);
+  }
+}
+
+/** @private */
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  for (const chunk of body.split(delimiter).slice(1)) {
+    if (chunk.startsWith("--")) {
+      break;
+    }
+    parts.push(chunk.replace(/^[ \t]*\r?\n/, "").replace(/\r?\n$/, ""));
+  }
+  return parts;
+}
+
+/** @private */
+function decodeEntityBody(entity: MimeEntity, charset = "utf-8"): string {
+  const encoding = (
+    entity.headers["content-transfer-encoding"] || ""
+  ).toLowerCase();
+
+  let binary = entity.body;
+  if (encoding === "base64") {
+    binary = safeAtob(binary.replace(/\s/g, ""));
+  } else if (encoding === "quoted-printable") {
+    binary = decodeQuotedPrintable(binary);
+  }
+  return decodeCharset(binary, charset);
+}
+
+/** @private */
+function parseContentType(value = "text/plain"): {
+  type: string;
+  params: Record<string, string>;
+} {
+  const [type, ...rest] = value.split(";");
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const eq = param.indexOf("=");
+    if (eq > 0) {
+      params[param.slice(0, eq).trim().toLowerCase()] = param
+        .slice(eq + 1)
+        .trim()
+        .replace(/^"|"$/g, "");
+    }
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+/** @private */
+function getHeaderParam(value: string, name: string): string | undefined {
+  return parseContentType(value).params[name];
+}
+
+/** @private */
+function decodeQuotedPrintable(text: string): string {
+  return text
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9a-f]{2})/gi, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16)),
+    );
+}
+
+/** @private */
+function decodeCharset(binary: string, charset: string): string {
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0) & 0xff);
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    /** Unsupported charset - UTF-8 is right for most modern mail */
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+/** @private */
+function safeAtob(base64: string): string {
+  try {
+    return atob(base64);
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Convert bytes to a binary string, one character per byte
+ *
+ * @param bytes - Raw content
+ * @returns String with char codes 0-255
+ */
+export function bytesToBinary(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+}
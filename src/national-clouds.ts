@@ -0,0 +1,111 @@
+/**
+ * National Cloud Configuration - Microsoft Graph and Entra ID endpoints per cloud
+ *
+ * SUPPORTED CLOUDS (MICROSOFT_CLOUD):
+ * - global: Microsoft Graph global service (default)
+ * - usgov: US Government L4 (GCC High)
+ * - usgovdod: US Government L5 (DoD)
+ * - china: Microsoft Graph China operated by 21Vianet
+ *
+ * CONSISTENCY REQUIREMENT:
+ * Tokens issued by one cloud's authority are only accepted by that cloud's
+ * Graph host, and scopes must name that Graph host as their resource.
+ * Every OAuth and Graph URL is therefore derived from the same entry here.
+ */
+
+import { Env } from "./index";
+
+export type MicrosoftCloud = "global" | "usgov" | "usgovdod" | "china";
+
+export interface CloudEndpoints {
+  /** Microsoft Graph host, also the resource prefix for scopes */
+  graphHost: string;
+  /** Microsoft Entra ID authority host for authorize and token endpoints */
+  authorityHost: string;
+}
+
+/**
+ * Endpoint table from Microsoft's national cloud deployment documentation
+ * GCC (moderate) tenants use the global endpoints.
+ */
+export const CLOUD_ENDPOINTS: Record<MicrosoftCloud, CloudEndpoints> = {
+  global: {
+    graphHost: "https://graph.microsoft.com",
+    authorityHost: "https://login.microsoftonline.com",
+  },
+  usgov: {
+    graphHost: "https://graph.microsoft.us",
+    authorityHost: "https://login.microsoftonline.us",
+  },
+  usgovdod: {
+    graphHost: "https://dod-graph.microsoft.us",
+    authorityHost: "https://login.microsoftonline.us",
+  },
+  china: {
+    graphHost: "https://microsoftgraph.chinacloudapi.cn",
+    authorityHost: "https://login.chinacloudapi.cn",
+  },
+};
+
+/** OpenID Connect scopes are not tied to a resource and are never prefixed */
+const OIDC_SCOPES = ["openid", "profile", "email", "offline_access"];
+
+/**
+ * Resolve the configured cloud's endpoints
+ *
+ * @param env - Cloudflare Worker environment bindings
+ * @returns Graph and authority hosts for MICROSOFT_CLOUD (default: global)
+ * @throws Error if MICROSOFT_CLOUD names an unsupported cloud
+ */
+export function getCloudEndpoints(env: Env): CloudEndpoints {
+  const cloud = (env.MICROSOFT_CLOUD || "global").trim().toLowerCase();
+
+  if (!Object.hasOwn(CLOUD_ENDPOINTS, cloud)) {
+    throw new Error(
+      `Invalid MICROSOFT_CLOUD "${env.MICROSOFT_CLOUD}". Supported values: ${Object.keys(CLOUD_ENDPOINTS).join(", ")}`,
+    );
+  }
+
+  return CLOUD_ENDPOINTS[cloud as MicrosoftCloud];
+}
+
+/**
+ * Build an Entra ID OAuth 2.0 endpoint URL for the configured cloud
+ *
+ * @param env - Cloudflare Worker environment bindings
+ * @param endpoint - "authorize" or "token"
+ * @returns Tenant-specific v2.0 endpoint URL
+ */
+export function getAuthorityUrl(
+  env: Env,
+  endpoint: "authorize" | "token",
+): string {
+  const { authorityHost } = getCloudEndpoints(env);
+  return `${authorityHost}/${env.MICROSOFT_TENANT_ID}/oauth2/v2.0/${endpoint}`;
+}
+
+/**
+ * Format Graph permission names as a scope string for the configured cloud
+ *
+ * Global cloud scopes stay bare ("Mail.Read") for compatibility with
+ * existing app registrations. National clouds require the Graph host as
+ * resource prefix ("https://graph.microsoft.us/Mail.Read").
+ *
+ * @param env - Cloudflare Worker environment bindings
+ * @param scopes - Space-separated permission names
+ * @returns Space-separated scope string for authorize and token requests
+ */
+export function formatCloudScopes(env: Env, scopes: string): string {
+  const endpoints = getCloudEndpoints(env);
+  if (endpoints === CLOUD_ENDPOINTS.global) {
+    return scopes;
+  }
+
+  return scopes
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((scope) =>
+      OIDC_SCOPES.includes(scope) ? scope : `${endpoints.graphHost}/${scope}`,
+    )
+    .join(" ");
+}
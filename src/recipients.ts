@@ -0,0 +1,69 @@
+/**
+ * Recipients - Validate tool-supplied addresses and map them to Graph recipients
+ *
+ * ACCEPTED FORMS:
+ * - Bare address: "jane@contoso.com"
+ * - Display name: "Jane Doe <jane@contoso.com>"
+ *
+ * Validation is deliberately shallow (one @, no whitespace, dotted domain).
+ * It catches typos and prompt artefacts before Graph is called; Exchange
+ * remains the authority on whether a mailbox exists.
+ */
+
+import { GraphRecipient } from "./graph-types";
+
+const ADDRESS_PATTERN =
+  /^[^\s@<>()[\],;:"]+@[^\s@<>()[\],;:"]+\.[^\s@<>()[\],;:".]+$/;
+const NAMED_ADDRESS_PATTERN = /^\s*"?([^"<]*?)"?\s*<([^<>]+)>\s*$/;
+
+/**
+ * Check whether a string is a plausible email address
+ *
+ * @param address - Bare email address
+ * @returns true if the address can be passed to Graph
+ */
+export function isValidEmailAddress(address: string): boolean {
+  return ADDRESS_PATTERN.test(address);
+}
+
+/**
+ * Parse and validate one recipient
+ *
+ * @param value - Bare address or "Name <address>"
+ * @param field - Parameter name used in the error message (e.g. "cc")
+ * @returns Graph recipient
+ * @throws Error if the address is not valid
+ */
+export function toGraphRecipient(value: string, field: string): GraphRecipient {
+  const named = NAMED_ADDRESS_PATTERN.exec(value);
+  const name = named?.[1].trim();
+  const address = (named ? named[2] : value).trim();
+
+  if (!isValidEmailAddress(address)) {
+    throw new Error(`Invalid email address in ${field}: "${value}"`);
+  }
+
+  return {
+    emailAddress: name ? { name, address } : { address },
+  };
+}
+
+/**
+ * Parse and validate a recipient list
+ *
+ * @param values - Addresses; a single string is treated as one recipient
+ * @param field - Parameter name used in error messages
+ * @returns Graph recipients in input order
+ * @throws Error on the first invalid address
+ */
+export function toGraphRecipients(
+  values: string | string[] | undefined,
+  field: string,
+): GraphRecipient[] {
+  if (values === undefined) {
+    return [];
+  }
+  return (Array.isArray(values) ? values : [values]).map((value) =>
+    toGraphRecipient(value, field),
+  );
+}
@@ -0,0 +1,316 @@
+/**
+ * Scope Registry - Single source of truth for Microsoft Graph permissions
+ *
+ * DRIVES:
+ * - OAuth scope string for authorize, token exchange and refresh requests
+ * - scopesSupported advertised by the OAuth provider metadata
+ * - 403 diagnostics and GraphError requiredScopes/adminConsentScopes
+ * - Which MCP tools are registered
+ *
+ * CONFIGURATION:
+ * MICROSOFT_EXCLUDED_SCOPES removes delegated permissions from the request,
+ * e.g. "People.Read.All Team.ReadBasic.All" for tenants that do not grant
+ * admin consent. Tools that need an excluded scope are not registered, so
+ * clients never see a tool that can only fail with 403.
+ *
+ * Add a new tool or endpoint here before calling it from the Graph client.
+ */
+
+import { Env } from "./index";
+import { formatCloudScopes } from "./national-clouds";
+
+/** Delegated permission metadata */
+export interface GraphScopeInfo {
+  /** Tenant administrator must consent before users can grant it */
+  adminConsent: boolean;
+}
+
+/**
+ * Scope requirement of a Graph endpoint
+ *
+ * STRUCTURE:
+ * - scopes: Any one of these grants access (least privileged first)
+ * - description: Human-readable resource name for error messages
+ */
+export interface EndpointScopes {
+  scopes: string[];
+  description: string;
+}
+
+/** Endpoint requirement resolved for error reporting */
+export interface ResolvedEndpointScopes extends EndpointScopes {
+  /** Subset of scopes that require admin consent */
+  adminConsentScopes: string[];
+}
+
+/**
+ * Delegated Microsoft Graph permissions the server may request
+ * Admin consent flags follow the current tenant guidance for this app.
+ */
+export const GRAPH_SCOPES: Record<string, GraphScopeInfo> = {
+  "User.Read": { adminConsent: false },
+  "Mail.Read": { adminConsent: false },
+  "Mail.ReadWrite": { adminConsent: false },
+  "Mail.Send": { adminConsent: false },
+  "Mail.Read.Shared": { adminConsent: false },
+  "Mail.ReadWrite.Shared": { adminConsent: false },
+  "Mail.Send.Shared": { adminConsent: false },
+  "MailboxSettings.Read": { adminConsent: false },
+  "MailboxSettings.ReadWrite": { adminConsent: false },
+  "Calendars.Read": { adminConsent: false },
+  "Calendars.ReadWrite": { adminConsent: false },
+  "Contacts.Read": { adminConsent: false },
+  "Contacts.ReadWrite": { adminConsent: false },
+  "People.Read": { adminConsent: false },
+  "People.Read.All": { adminConsent: true },
+  "OnlineMeetings.ReadWrite": { adminConsent: true },
+  "ChannelMessage.Send": { adminConsent: false },
+  "Team.ReadBasic.All": { adminConsent: true },
+};
+
+/**
+ * Scopes that cannot be excluded
+ * User.Read is needed to sign in and offline_access to refresh tokens.
+ */
+const REQUIRED_SCOPES = ["User.Read"];
+const OIDC_SCOPES = ["offline_access"];
+
+/**
+ * Graph endpoint requirements
+ *
+ * Keys are URL fragments matched case-insensitively; the first match in
+ * declaration order wins, so list more specific fragments first.
+ */
+export const ENDPOINT_SCOPES: Record<string, EndpointScopes> = {
+  "/messagerules": {
+    scopes: ["MailboxSettings.Read", "MailboxSettings.ReadWrite"],
+    description: "inbox rules (changes need MailboxSettings.ReadWrite)",
+  },
+  /** Before /forward, which also matches event invitation forwards */
+  "/me/events": {
+    scopes: ["Calendars.ReadWrite"],
+    description: "calendar events",
+  },
+  "/createreply": {
+    scopes: ["Mail.ReadWrite"],
+    description: "reply drafts",
+  },
+  "/reply": {
+    scopes: ["Mail.Send"],
+    description: "reply to emails",
+  },
+  "/forward": {
+    scopes: ["Mail.Send"],
+    description: "forward emails",
+  },
+  "/move": {
+    scopes: ["Mail.ReadWrite"],
+    description: "move emails",
+  },
+  "/copy": {
+    scopes: ["Mail.ReadWrite"],
+    description: "copy emails",
+  },
+  "/send": {
+    scopes: ["Mail.Send"],
+    description: "send emails",
+  },
+  "/me/mailboxsettings": {
+    scopes: ["MailboxSettings.Read", "MailboxSettings.ReadWrite"],
+    description: "mailbox settings (changes need MailboxSettings.ReadWrite)",
+  },
+  "/me/people": {
+    scopes: ["People.Read", "People.Read.All"],
+    description: "contacts from directory and personal contacts",
+  },
+  "/me/contacts": {
+    scopes: ["Contacts.Read", "Contacts.ReadWrite"],
+    description: "personal contacts",
+  },
+  "/me/messages": {
+    scopes: ["Mail.Read", "Mail.ReadWrite"],
+    description: "email messages",
+  },
+  "/me/mailfolder": {
+    scopes: ["Mail.Read", "Mail.ReadWrite"],
+    description: "email messages",
+  },
+  "/me/calendarview": {
+    scopes: ["Calendars.Read", "Calendars.ReadWrite"],
+    description: "calendar events",
+  },
+  "/me/calendars": {
+    scopes: ["Calendars.Read", "Calendars.ReadWrite"],
+    description: "calendars",
+  },
+  "/me/joinedteams": {
+    scopes: ["Team.ReadBasic.All"],
+    description: "joined Teams",
+  },
+  "/teams/": {
+    scopes: ["ChannelMessage.Send", "Team.ReadBasic.All"],
+    description: "Teams messages",
+  },
+  "/me/onlinemeetings": {
+    scopes: ["OnlineMeetings.ReadWrite"],
+    description: "Teams meetings",
+  },
+};
+
+/**
+ * Requirements of shared mailbox endpoints (/users/{address}/...)
+ *
+ * Checked before ENDPOINT_SCOPES for URLs containing "/users/". The
+ * descriptions name the Exchange permission as well, because a 403 on a
+ * shared mailbox is as often a missing mailbox permission as a scope.
+ */
+export const SHARED_ENDPOINT_SCOPES: Record<string, EndpointScopes> = {
+  "/createreply": {
+    scopes: ["Mail.ReadWrite.Shared"],
+    description:
+      "reply drafts in shared mailboxes (the user also needs Full Access to the mailbox)",
+  },
+  "/reply": {
+    scopes: ["Mail.Send.Shared"],
+    description:
+      "reply from shared mailboxes (the user also needs Send As permission on the mailbox)",
+  },
+  "/forward": {
+    scopes: ["Mail.Send.Shared"],
+    description:
+      "forward from shared mailboxes (the user also needs Send As permission on the mailbox)",
+  },
+  "/send": {
+    scopes: ["Mail.Send.Shared"],
+    description:
+      "send as shared mailboxes (the user also needs Send As permission on the mailbox)",
+  },
+  "/messages": {
+    scopes: ["Mail.Read.Shared", "Mail.ReadWrite.Shared"],
+    description:
+      "shared mailbox messages (the user also needs Full Access or folder permissions on the mailbox)",
+  },
+  "/mailfolders": {
+    scopes: ["Mail.Read.Shared", "Mail.ReadWrite.Shared"],
+    description:
+      "shared mailbox folders (the user also needs Full Access or folder permissions on the mailbox)",
+  },
+};
+
+/**
+ * Scopes each MCP tool needs - all listed scopes are required
+ * Tools absent from this map need no Graph permission (e.g. authenticate).
+ */
+export const TOOL_SCOPES: Record<string, string[]> = {
+  sendEmail: ["Mail.Send"],
+  replyToEmail: ["Mail.Send"],
+  replyAllToEmail: ["Mail.Send"],
+  forwardEmail: ["Mail.Send"],
+  createDraft: ["Mail.ReadWrite"],
+  updateDraft: ["Mail.ReadWrite"],
+  listDrafts: ["Mail.Read"],
+  sendDraft: ["Mail.Send"],
+  deleteDraft: ["Mail.ReadWrite"],
+  getEmails: ["Mail.Read"],
+  getEmail: ["Mail.Read"],
+  getConversation: ["Mail.Read"],
+  exportEmail: ["Mail.Read"],
+  exportEmails: ["Mail.Read"],
+  listMailFolders: ["Mail.Read"],
+  createMailFolder: ["Mail.ReadWrite"],
+  renameMailFolder: ["Mail.ReadWrite"],
+  deleteMailFolder: ["Mail.ReadWrite"],
+  moveEmails: ["Mail.ReadWrite"],
+  copyEmails: ["Mail.ReadWrite"],
+  updateEmails: ["Mail.ReadWrite"],
+  deleteEmails: ["Mail.ReadWrite"],
+  listInboxRules: ["MailboxSettings.Read"],
+  createInboxRule: ["MailboxSettings.ReadWrite", "Mail.Read"],
+  updateInboxRule: ["MailboxSettings.ReadWrite", "Mail.Read"],
+  deleteInboxRule: ["MailboxSettings.ReadWrite"],
+  getMailboxSettings: ["MailboxSettings.Read"],
+  updateMailboxSettings: ["MailboxSettings.ReadWrite"],
+  setAutomaticReplies: ["MailboxSettings.ReadWrite"],
+  listAttachments: ["Mail.Read", "Calendars.Read"],
+  getAttachment: ["Mail.Read", "Calendars.Read"],
+  searchEmails: ["Mail.Read"],
+  syncEmails: ["Mail.Read"],
+  getCalendarEvents: ["Calendars.Read"],
+  createCalendarEvent: ["Calendars.ReadWrite"],
+  updateCalendarEvent: ["Calendars.ReadWrite"],
+  cancelCalendarEvent: ["Calendars.ReadWrite"],
+  declineCalendarEvent: ["Calendars.ReadWrite"],
+  deleteCalendarEvent: ["Calendars.ReadWrite"],
+  forwardCalendarEvent: ["Calendars.ReadWrite"],
+  syncCalendarEvents: ["Calendars.Read"],
+  sendTeamsMessage: ["ChannelMessage.Send"],
+  createTeamsMeeting: ["OnlineMeetings.ReadWrite"],
+  getContacts: ["People.Read"],
+  syncContacts: ["Contacts.Read"],
+};
+
+/**
+ * Delegated scopes requested from Microsoft Entra ID
+ *
+ * @param env - Cloudflare Worker environment bindings
+ * @returns Registry scopes minus MICROSOFT_EXCLUDED_SCOPES, plus offline_access
+ */
+export function getEnabledScopes(env: Env): string[] {
+  const excluded = (env.MICROSOFT_EXCLUDED_SCOPES || "")
+    .split(/[\s,]+/)
+    .filter((scope) => scope && !REQUIRED_SCOPES.includes(scope));
+
+  return [
+    ...Object.keys(GRAPH_SCOPES).filter((scope) => !excluded.includes(scope)),
+    ...OIDC_SCOPES,
+  ];
+}
+
+/**
+ * Scope string for authorize, token exchange and refresh requests
+ *
+ * @param env - Cloudflare Worker environment bindings
+ * @returns Space-separated scopes formatted for the configured cloud
+ */
+export function getScopeString(env: Env): string {
+  return formatCloudScopes(env, getEnabledScopes(env).join(" "));
+}
+
+/**
+ * Check whether every scope a tool needs is enabled
+ *
+ * @param env - Cloudflare Worker environment bindings
+ * @param tool - MCP tool name
+ * @returns true if the tool should be registered
+ */
+export function isToolEnabled(env: Env, tool: string): boolean {
+  const enabled = getEnabledScopes(env);
+  return (TOOL_SCOPES[tool] || []).every((scope) => enabled.includes(scope));
+}
+
+/**
+ * Find the scope requirement for a Graph URL
+ *
+ * @param url - Absolute or relative Graph URL
+ * @returns Requirement with admin consent subset, undefined if unmapped
+ */
+export function getEndpointScopes(
+  url: string,
+): ResolvedEndpointScopes | undefined {
+  const endpoint = url.toLowerCase();
+  const registry = endpoint.includes("/users/")
+    ? SHARED_ENDPOINT_SCOPES
+    : ENDPOINT_SCOPES;
+  const pattern = Object.keys(registry).find((key) => endpoint.includes(key));
+  if (!pattern) {
+    return undefined;
+  }
+
+  const entry = registry[pattern];
+  return {
+    ...entry,
+    adminConsentScopes: entry.scopes.filter(
+      (scope) => GRAPH_SCOPES[scope]?.adminConsent,
+    ),
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Shared Mailboxes - Admin allow-list of mailboxes the mail tools may target
+ *
+ * CONFIGURATION:
+ * CONFIG_KV key "shared_mailboxes" holds a JSON array of addresses or
+ * { address, displayName } objects. Without it, mailbox arguments are
+ * rejected and every mail tool works on the signed-in user's mailbox.
+ *
+ * ACCESS:
+ * The allow-list only limits what the server offers. Exchange still
+ * decides access: reading needs Full Access (or folder permissions) on
+ * the mailbox plus Mail.Read.Shared, sending as the mailbox needs Send As
+ * plus Mail.Send.Shared, sending on behalf needs Send on Behalf.
+ */
+
+import { Env } from "./index";
+import { getEnabledScopes } from "./scope-registry";
+import { logEvent } from "./tracing";
+
+/** Mailbox offered to the mail tools */
+export interface SharedMailbox {
+  address: string;
+  displayName?: string;
+}
+
+/** CONFIG_KV key of the allow-list */
+export const SHARED_MAILBOXES_KEY = "shared_mailboxes";
+
+/**
+ * Read the shared mailbox allow-list
+ *
+ * @param env - Cloudflare Worker environment bindings
+ * @returns Configured mailboxes; empty if unset or malformed
+ */
+export async function getSharedMailboxes(env: Env): Promise<SharedMailbox[]> {
+  const raw = await env.CONFIG_KV.get(SHARED_MAILBOXES_KEY);
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const entries: unknown = JSON.parse(raw);
+    if (!Array.isArray(entries)) {
+      throw new Error("Expected a JSON array");
+    }
+    return entries
+      .map((entry) =>
+        typeof entry === "string" ? { address: entry } : (entry ?? {}),
+      )
+      .filter(
+        (entry): entry is SharedMailbox =>
+          typeof entry.address === "string" && entry.address.includes("@"),
+      )
+      .map((entry) => ({
+        address: entry.address.trim(),
+        displayName: entry.displayName,
+      }));
+  } catch (error: any) {
+    /** A broken allow-list disables shared access instead of failing tools */
+    logEvent("warn", "shared_mailboxes_invalid", {
+      key: SHARED_MAILBOXES_KEY,
+      message: error?.message || String(error),
+    });
+    return [];
+  }
+}
+
+/**
+ * Validate a mailbox argument against the allow-list and enabled scopes
+ *
+ * @param env - Cloudflare Worker environment bindings
+ * @param mailbox - Requested mailbox address, undefined for the user's own
+ * @param scope - Delegated scope the operation needs, e.g. "Mail.Read.Shared"
+ * @returns Allow-listed address, undefined for the user's own mailbox
+ * @throws Error if the mailbox is not allow-listed or the scope is excluded
+ */
+export async function resolveSharedMailbox(
+  env: Env,
+  mailbox: string | undefined,
+  scope?: string,
+): Promise<string | undefined> {
+  if (!mailbox?.trim()) {
+    return undefined;
+  }
+
+  const mailboxes = await getSharedMailboxes(env);
+  const match = mailboxes.find(
+    (entry) => entry.address.toLowerCase() === mailbox.trim().toLowerCase(),
+  );
+  if (!match) {
+    throw new Error(
+      mailboxes.length > 0
+        ? `Mailbox "${mailbox}" is not an allowed shared mailbox. Allowed: ${mailboxes.map((entry) => entry.address).join(", ")}`
+        : `Shared mailbox access is not configured. An administrator must list allowed mailboxes under "${SHARED_MAILBOXES_KEY}" in CONFIG_KV.`,
+    );
+  }
+
+  if (scope && !getEnabledScopes(env).includes(scope)) {
+    throw new Error(
+      `Shared mailbox access needs the ${scope} permission, which is excluded by MICROSOFT_EXCLUDED_SCOPES.`,
+    );
+  }
+  return match.address;
+}
@@ -0,0 +1,348 @@
+/**
+ * Time Zones - Convert between IANA and Windows zone names for Graph
+ *
+ * GRAPH CONSTRAINTS:
+ * - dateTimeTimeZone values are local wall-clock times plus a zone name
+ * - Windows names ("Pacific Standard Time") are accepted everywhere;
+ *   IANA names only in some places, so Windows names are sent when known
+ * - Prefer: outlook.timezone="..." makes reads return that zone
+ *
+ * Offsets are computed with Intl, which only understands IANA names, so
+ * every zone is resolved to both forms.
+ *
+ * Windows to IANA follows the CLDR windowsZones "001" (primary) mapping.
+ */
+
+/** Zone name pair; windows falls back to the IANA name when unmapped */
+export interface ResolvedTimeZone {
+  windows: string;
+  iana: string;
+}
+
+/** Windows zone name to primary IANA zone (CLDR windowsZones) */
+const WINDOWS_TO_IANA: Record<string, string> = {
+  "Dateline Standard Time": "Etc/GMT+12",
+  "UTC-11": "Etc/GMT+11",
+  "Aleutian Standard Time": "America/Adak",
+  "Hawaiian Standard Time": "Pacific/Honolulu",
+  "Marquesas Standard Time": "Pacific/Marquesas",
+  "Alaskan Standard Time": "America/Anchorage",
+  "UTC-09": "Etc/GMT+9",
+  "Pacific Standard Time (Mexico)": "America/Tijuana",
+  "UTC-08": "Etc/GMT+8",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "US Mountain Standard Time": "America/Phoenix",
+  "Mountain Standard Time (Mexico)": "America/Mazatlan",
+  "Mountain Standard Time": "America/Denver",
+  "Yukon Standard Time": "America/Whitehorse",
+  "Central America Standard Time": "America/Guatemala",
+  "Central Standard Time": "America/Chicago",
+  "Easter Island Standard Time": "Pacific/Easter",
+  "Central Standard Time (Mexico)": "America/Mexico_City",
+  "Canada Central Standard Time": "America/Regina",
+  "SA Pacific Standard Time": "America/Bogota",
+  "Eastern Standard Time (Mexico)": "America/Cancun",
+  "Eastern Standard Time": "America/New_York",
+  "Haiti Standard Time": "America/Port-au-Prince",
+  "Cuba Standard Time": "America/Havana",
+  "US Eastern Standard Time": "America/Indiana/Indianapolis",
+  "Turks And Caicos Standard Time": "America/Grand_Turk",
+  "Paraguay Standard Time": "America/Asuncion",
+  "Atlantic Standard Time": "America/Halifax",
+  "Venezuela Standard Time": "America/Caracas",
+  "Central Brazilian Standard Time": "America/Cuiaba",
+  "SA Western Standard Time": "America/La_Paz",
+  "Pacific SA Standard Time": "America/Santiago",
+  "Newfoundland Standard Time": "America/St_Johns",
+  "Tocantins Standard Time": "America/Araguaina",
+  "E. South America Standard Time": "America/Sao_Paulo",
+  "SA Eastern Standard Time": "America/Cayenne",
+  "Argentina Standard Time": "America/Argentina/Buenos_Aires",
+  "Greenland Standard Time": "America/Nuuk",
+  "Montevideo Standard Time": "America/Montevideo",
+  "Magallanes Standard Time": "America/Punta_Arenas",
+  "Saint Pierre Standard Time": "America/Miquelon",
+  "Bahia Standard Time": "America/Bahia",
+  "UTC-02": "Etc/GMT+2",
+  "Azores Standard Time": "Atlantic/Azores",
+  "Cape Verde Standard Time": "Atlantic/Cape_Verde",
+  UTC: "UTC",
+  "GMT Standard Time": "Europe/London",
+  "Greenwich Standard Time": "Atlantic/Reykjavik",
+  "Sao Tome Standard Time": "Africa/Sao_Tome",
+  "Morocco Standard Time": "Africa/Casablanca",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "Romance Standard Time": "Europe/Paris",
+  "Central European Standard Time": "Europe/Warsaw",
+  "W. Central Africa Standard Time": "Africa/Lagos",
+  "Jordan Standard Time": "Asia/Amman",
+  "GTB Standard Time": "Europe/Bucharest",
+  "Middle East Standard Time": "Asia/Beirut",
+  "Egypt Standard Time": "Africa/Cairo",
+  "E. Europe Standard Time": "Europe/Chisinau",
+  "Syria Standard Time": "Asia/Damascus",
+  "West Bank Standard Time": "Asia/Hebron",
+  "South Africa Standard Time": "Africa/Johannesburg",
+  "FLE Standard Time": "Europe/Kiev",
+  "Israel Standard Time": "Asia/Jerusalem",
+  "South Sudan Standard Time": "Africa/Juba",
+  "Kaliningrad Standard Time": "Europe/Kaliningrad",
+  "Sudan Standard Time": "Africa/Khartoum",
+  "Libya Standard Time": "Africa/Tripoli",
+  "Namibia Standard Time": "Africa/Windhoek",
+  "Arabic Standard Time": "Asia/Baghdad",
+  "Turkey Standard Time": "Europe/Istanbul",
+  "Arab Standard Time": "Asia/Riyadh",
+  "Belarus Standard Time": "Europe/Minsk",
+  "Russian Standard Time": "Europe/Moscow",
+  "E. Africa Standard Time": "Africa/Nairobi",
+  "Volgograd Standard Time": "Europe/Volgograd",
+  "Iran Standard Time": "Asia/Tehran",
+  "Arabian Standard Time": "Asia/Dubai",
+  "Astrakhan Standard Time": "Europe/Astrakhan",
+  "Azerbaijan Standard Time": "Asia/Baku",
+  "Russia Time Zone 3": "Europe/Samara",
+  "Mauritius Standard Time": "Indian/Mauritius",
+  "Saratov Standard Time": "Europe/Saratov",
+  "Georgian Standard Time": "Asia/Tbilisi",
+  "Caucasus Standard Time": "Asia/Yerevan",
+  "Afghanistan Standard Time": "Asia/Kabul",
+  "West Asia Standard Time": "Asia/Tashkent",
+  "Ekaterinburg Standard Time": "Asia/Yekaterinburg",
+  "Pakistan Standard Time": "Asia/Karachi",
+  "Qyzylorda Standard Time": "Asia/Qyzylorda",
+  "India Standard Time": "Asia/Kolkata",
+  "Sri Lanka Standard Time": "Asia/Colombo",
+  "Nepal Standard Time": "Asia/Kathmandu",
+  "Central Asia Standard Time": "Asia/Bishkek",
+  "Bangladesh Standard Time": "Asia/Dhaka",
+  "Omsk Standard Time": "Asia/Omsk",
+  "Myanmar Standard Time": "Asia/Yangon",
+  "SE Asia Standard Time": "Asia/Bangkok",
+  "Altai Standard Time": "Asia/Barnaul",
+  "W. Mongolia Standard Time": "Asia/Hovd",
+  "North Asia Standard Time": "Asia/Krasnoyarsk",
+  "N. Central Asia Standard Time": "Asia/Novosibirsk",
+  "Tomsk Standard Time": "Asia/Tomsk",
+  "China Standard Time": "Asia/Shanghai",
+  "North Asia East Standard Time": "Asia/Irkutsk",
+  "Singapore Standard Time": "Asia/Singapore",
+  "W. Australia Standard Time": "Australia/Perth",
+  "Taipei Standard Time": "Asia/Taipei",
+  "Ulaanbaatar Standard Time": "Asia/Ulaanbaatar",
+  "Aus Central W. Standard Time": "Australia/Eucla",
+  "Transbaikal Standard Time": "Asia/Chita",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "North Korea Standard Time": "Asia/Pyongyang",
+  "Korea Standard Time": "Asia/Seoul",
+  "Yakutsk Standard Time": "Asia/Yakutsk",
+  "Cen. Australia Standard Time": "Australia/Adelaide",
+  "AUS Central Standard Time": "Australia/Darwin",
+  "E. Australia Standard Time": "Australia/Brisbane",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+  "West Pacific Standard Time": "Pacific/Port_Moresby",
+  "Tasmania Standard Time": "Australia/Hobart",
+  "Vladivostok Standard Time": "Asia/Vladivostok",
+  "Lord Howe Standard Time": "Australia/Lord_Howe",
+  "Bougainville Standard Time": "Pacific/Bougainville",
+  "Russia Time Zone 10": "Asia/Srednekolymsk",
+  "Magadan Standard Time": "Asia/Magadan",
+  "Norfolk Standard Time": "Pacific/Norfolk",
+  "Sakhalin Standard Time": "Asia/Sakhalin",
+  "Central Pacific Standard Time": "Pacific/Guadalcanal",
+  "Russia Time Zone 11": "Asia/Kamchatka",
+  "New Zealand Standard Time": "Pacific/Auckland",
+  "UTC+12": "Etc/GMT-12",
+  "Fiji Standard Time": "Pacific/Fiji",
+  "Chatham Islands Standard Time": "Pacific/Chatham",
+  "UTC+13": "Etc/GMT-13",
+  "Tonga Standard Time": "Pacific/Tongatapu",
+  "Samoa Standard Time": "Pacific/Apia",
+  "Line Islands Standard Time": "Pacific/Kiritimati",
+};
+
+/** Common IANA zones that are not the primary zone of their Windows name */
+const IANA_TO_WINDOWS: Record<string, string> = {
+  "America/Toronto": "Eastern Standard Time",
+  "America/Detroit": "Eastern Standard Time",
+  "America/Vancouver": "Pacific Standard Time",
+  "America/Edmonton": "Mountain Standard Time",
+  "America/Winnipeg": "Central Standard Time",
+  "America/Lima": "SA Pacific Standard Time",
+  "Europe/Dublin": "GMT Standard Time",
+  "Europe/Lisbon": "GMT Standard Time",
+  "Europe/Amsterdam": "W. Europe Standard Time",
+  "Europe/Rome": "W. Europe Standard Time",
+  "Europe/Vienna": "W. Europe Standard Time",
+  "Europe/Zurich": "W. Europe Standard Time",
+  "Europe/Stockholm": "W. Europe Standard Time",
+  "Europe/Oslo": "W. Europe Standard Time",
+  "Europe/Madrid": "Romance Standard Time",
+  "Europe/Brussels": "Romance Standard Time",
+  "Europe/Copenhagen": "Romance Standard Time",
+  "Europe/Prague": "Central Europe Standard Time",
+  "Europe/Belgrade": "Central Europe Standard Time",
+  "Europe/Zagreb": "Central European Standard Time",
+  "Europe/Athens": "GTB Standard Time",
+  "Europe/Helsinki": "FLE Standard Time",
+  "Europe/Kyiv": "FLE Standard Time",
+  "Europe/Riga": "FLE Standard Time",
+  "Europe/Vilnius": "FLE Standard Time",
+  "Europe/Tallinn": "FLE Standard Time",
+  "Europe/Sofia": "FLE Standard Time",
+  "Asia/Calcutta": "India Standard Time",
+  "Asia/Hong_Kong": "China Standard Time",
+  "Asia/Kuala_Lumpur": "Singapore Standard Time",
+  "Asia/Manila": "Singapore Standard Time",
+  "Asia/Jakarta": "SE Asia Standard Time",
+  "Asia/Ho_Chi_Minh": "SE Asia Standard Time",
+  "Asia/Qatar": "Arab Standard Time",
+  "Australia/Melbourne": "AUS Eastern Standard Time",
+  "Australia/Canberra": "AUS Eastern Standard Time",
+  "Etc/UTC": "UTC",
+  GMT: "UTC",
+};
+
+/**
+ * Resolve a Windows or IANA zone name to both forms
+ *
+ * @param zone - e.g. "Pacific Standard Time" or "America/Los_Angeles"
+ * @returns Windows and IANA names
+ * @throws Error if the zone is unknown to both tables and Intl
+ */
+export function resolveTimeZone(zone: string): ResolvedTimeZone {
+  const name = zone.trim();
+  const windows = Object.keys(WINDOWS_TO_IANA).find(
+    (key) => key.toLowerCase() === name.toLowerCase(),
+  );
+  if (windows) {
+    return { windows, iana: WINDOWS_TO_IANA[windows] };
+  }
+
+  const iana = canonicalizeIana(name);
+  if (!iana) {
+    throw new Error(
+      `Unknown time zone "${zone}". Use an IANA name such as "Europe/Berlin" or a Windows name such as "W. Europe Standard Time"`,
+    );
+  }
+  return { windows: findWindowsName(iana) || iana, iana };
+}
+
+/**
+ * Convert an ISO 8601 input to a wall-clock time in a zone
+ *
+ * Inputs without an offset are taken as local time in the zone and only
+ * normalized. Inputs with "Z" or "+02:00" are converted, so the instant
+ * the caller meant is kept.
+ *
+ * @param value - e.g. "2024-06-03T09:00", "2024-06-03T09:00:00+02:00"
+ * @param iana - Target IANA zone
+ * @param field - Parameter name used in error messages
+ * @returns "YYYY-MM-DDTHH:mm:ss" for a dateTimeTimeZone value
+ * @throws Error if the value is not an ISO 8601 date or date-time, or
+ *         names a day or time that does not exist
+ */
+export function toZonedDateTime(
+  value: string,
+  iana: string,
+  field: string,
+): string {
+  const match =
+    /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i.exec(
+      value.trim(),
+    );
+  const [, date, hours = "00", minutes = "00", seconds = "00", offset] =
+    match || [];
+  if (
+    !match ||
+    !isCalendarDate(date) ||
+    Number(hours) > 23 ||
+    Number(minutes) > 59 ||
+    Number(seconds) > 59 ||
+    (offset && !/^(Z|[+-](0\d|1[0-4]):?[0-5]\d)$/i.test(offset))
+  ) {
+    throw new Error(
+      `Invalid date in ${field}: "${value}". Use ISO 8601, e.g. 2024-06-03T09:00 or 2024-06-03T09:00:00+02:00`,
+    );
+  }
+  if (!offset) {
+    return `${date}T${hours}:${minutes}:${seconds}`;
+  }
+
+  const instant = new Date(
+    `${date}T${hours}:${minutes}:${seconds}${offset.toUpperCase() === "Z" ? "Z" : offset.replace(/^([+-]\d{2})(\d{2})$/, "$1:$2")}`,
+  );
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: iana,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value]),
+  );
+  return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}`;
+}
+
+/**
+ * Move a wall-clock date-time by a duration
+ * Plain calendar arithmetic; DST transitions in between are not applied.
+ *
+ * @param dateTime - "YYYY-MM-DDTHH:mm:ss"
+ * @param milliseconds - Duration to add
+ * @returns "YYYY-MM-DDTHH:mm:ss"
+ */
+export function shiftDateTime(dateTime: string, milliseconds: number): string {
+  return new Date(Date.parse(`${dateTime}Z`) + milliseconds)
+    .toISOString()
+    .slice(0, 19);
+}
+
+/**
+ * Whether "YYYY-MM-DD" names a real day
+ * Date.parse rolls over instead, e.g. "2024-02-30" becomes March 1.
+ * @private
+ */
+function isCalendarDate(date: string): boolean {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return (
+    !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === date
+  );
+}
+
+/**
+ * Canonical IANA name as known to Intl, undefined if unknown
+ * @private
+ */
+function canonicalizeIana(zone: string): string | undefined {
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+    }).resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Windows name of an IANA zone, comparing canonical forms so aliases
+ * such as "Asia/Kolkata" and "Asia/Calcutta" match
+ * @private
+ */
+function findWindowsName(iana: string): string | undefined {
+  for (const [name, windows] of Object.entries(IANA_TO_WINDOWS)) {
+    if (canonicalizeIana(name) === iana) {
+      return windows;
+    }
+  }
+  return Object.keys(WINDOWS_TO_IANA).find(
+    (windows) => canonicalizeIana(WINDOWS_TO_IANA[windows]) === iana,
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * Request Tracing - Correlation IDs and structured logs for Graph calls
+ *
+ * CORRELATION FLOW:
+ * 1. Each MCP request gets a UUID when it reaches the agent (logged as
+ *    mcp_request); tool calls and resource reads it carries reuse it as
+ *    their TraceContext correlation ID. Messages that arrive over an
+ *    established SSE/WebSocket stream get a fresh UUID instead.
+ * 2. MicrosoftGraphClient sends it as client-request-id on every Graph call
+ *    (including retries, $batch and upload chunks)
+ * 3. Every Graph attempt is logged as one JSON line with timing, request-id,
+ *    x-ms-ags-diagnostic and throttle headers
+ * 4. Tool error text repeats the correlation ID so users can report it
+ *
+ * Microsoft support can locate a call from either the client-request-id
+ * (our correlation ID) or the request-id Graph returns.
+ *
+ * LOG FORMAT:
+ * Single-line JSON on console, indexed by Workers Logs and `wrangler tail`.
+ * Query strings are never logged because they can contain search terms.
+ */
+
+/** Identifies one MCP request across all Graph calls it triggers */
+export interface TraceContext {
+  correlationId: string;
+  /** Tool or resource that started the request */
+  operation: string;
+  /** MCP transport session id, if known */
+  sessionId?: string;
+  /** JSON-RPC id of the MCP request */
+  mcpRequestId?: string | number;
+}
+
+/** Diagnostics of a single Graph call, attached to GraphError */
+export interface GraphCallDiagnostics {
+  clientRequestId?: string;
+  requestId?: string;
+  /** x-ms-ags-diagnostic header: serving data center and role */
+  agsDiagnostic?: string;
+  durationMs?: number;
+  /** Throttling headers present on the response */
+  throttle?: Record<string, string>;
+}
+
+/**
+ * Response headers describing throttling state
+ * Retry-After is sent on 429/503; x-ms-throttle-* on Outlook and
+ * Teams workloads when a request is close to or over a limit.
+ */
+const THROTTLE_HEADERS = [
+  "retry-after",
+  "x-ms-throttle-limit-percentage",
+  "x-ms-throttle-scope",
+  "x-ms-throttle-information",
+  "x-ms-resource-unit",
+];
+
+/**
+ * Create a trace context
+ *
+ * @param operation - Tool or resource name
+ * @param request - MCP session and JSON-RPC ids from the handler context,
+ *                  plus the transport request id when known
+ * @returns New trace context; a fresh UUID without correlationId
+ */
+export function createTraceContext(
+  operation: string,
+  request: {
+    sessionId?: string;
+    requestId?: string | number;
+    correlationId?: string;
+  } = {},
+): TraceContext {
+  return {
+    correlationId: request.correlationId || crypto.randomUUID(),
+    operation,
+    sessionId: request.sessionId,
+    mcpRequestId: request.requestId,
+  };
+}
+
+/**
+ * Collect throttle headers from a response
+ *
+ * @param getHeader - Header lookup (Headers.get or a $batch header lookup)
+ * @returns Lowercase header map, or undefined if none were present
+ */
+export function getThrottleHeaders(
+  getHeader: (name: string) => string | null,
+): Record<string, string> | undefined {
+  const throttle: Record<string, string> = {};
+  for (const name of THROTTLE_HEADERS) {
+    const value = getHeader(name);
+    if (value) {
+      throttle[name] = value;
+    }
+  }
+  return Object.keys(throttle).length > 0 ? throttle : undefined;
+}
+
+/**
+ * Format diagnostics for human-readable error text
+ *
+ * @param diagnostics - Graph call diagnostics
+ * @returns Text such as "request-id: abc, duration: 120ms", or "" if empty
+ */
+export function formatDiagnostics(diagnostics: GraphCallDiagnostics): string {
+  const parts: string[] = [];
+  if (diagnostics.requestId) parts.push(`request-id: ${diagnostics.requestId}`);
+  if (diagnostics.agsDiagnostic) {
+    parts.push(`x-ms-ags-diagnostic: ${diagnostics.agsDiagnostic}`);
+  }
+  if (diagnostics.durationMs !== undefined) {
+    parts.push(`duration: ${diagnostics.durationMs}ms`);
+  }
+  for (const [name, value] of Object.entries(diagnostics.throttle || {})) {
+    parts.push(`${name}: ${value}`);
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Write a structured log line
+ *
+ * @param level - Severity; maps to console.log, console.warn or console.error
+ * @param event - Stable event name (e.g. "graph_request")
+ * @param fields - Event fields; undefined values are omitted
+ */
+export function logEvent(
+  level: "info" | "warn" | "error",
+  event: string,
+  fields: Record<string, unknown>,
+): void {
+  const line = JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level,
+    event,
+    ...fields,
+  });
+
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
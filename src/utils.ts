@@ -139,3 +139,29 @@ export async function fetchUpstreamAuthToken(params: {
   /** Successfully obtained access token - return for storage in OAuth Provider props */
   return [data.access_token, null];
 }
+
+/**
+ * Extract the user object id (oid claim) from a Microsoft access token
+ *
+ * Used to partition per-user state and cache entries. The token is not
+ * validated here - Microsoft Graph validates it on every request - so the
+ * claim must only be used as a partition key, never for authorization.
+ *
+ * @param accessToken - Microsoft Graph access token (JWT)
+ * @returns oid claim, or null for opaque or malformed tokens
+ */
+export function getTokenObjectId(accessToken: string): string | null {
+  try {
+    const tokenParts = accessToken.split(".");
+    if (tokenParts.length < 2) {
+      return null;
+    }
+
+    const payload = JSON.parse(
+      atob(tokenParts[1].replace(/-/g, "+").replace(/_/g, "/")),
+    );
+    return typeof payload.oid === "string" ? payload.oid : null;
+  } catch {
+    return null;
+  }
+}
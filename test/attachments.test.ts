@@ -0,0 +1,214 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  base64ToBytes,
+  bytesToBase64,
+  getAttachmentUrlHosts,
+  MAX_ATTACHMENT_SIZE,
+  resolveAttachment,
+  resolveAttachments,
+} from "../src/attachments";
+import { Env } from "../src/index";
+
+const decoder = new TextDecoder();
+const hosts = ["contoso.com"];
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("resolveAttachment", () => {
+  it("decodes base64 data: URIs and takes their content type", async () => {
+    const attachment = await resolveAttachment({
+      name: "note.txt",
+      uri: `data:text/plain;base64,${btoa("Hello")}`,
+    });
+    expect(decoder.decode(attachment.bytes)).toBe("Hello");
+    expect(attachment.contentType).toBe("text/plain");
+  });
+
+  it("decodes percent-encoded data: URIs and prefers the given type", async () => {
+    const attachment = await resolveAttachment({
+      name: "note.csv",
+      contentType: "text/csv",
+      uri: "data:text/plain,a%2Cb%0A1%2C2",
+    });
+    expect(decoder.decode(attachment.bytes)).toBe("a,b\n1,2");
+    expect(attachment.contentType).toBe("text/csv");
+  });
+
+  it("defaults to application/octet-stream", async () => {
+    const attachment = await resolveAttachment({
+      name: "blob",
+      contentBytes: btoa("x"),
+    });
+    expect(attachment.contentType).toBe("application/octet-stream");
+    expect(attachment.isInline).toBe(false);
+  });
+
+  it.each([
+    [{ name: "a" }, /exactly one of contentBytes or uri/],
+    [
+      { name: "a", contentBytes: "eA==", uri: "data:,x" },
+      /exactly one of contentBytes or uri/,
+    ],
+    [{ name: "a", uri: "http://example.com/a" }, /must be a data: URI/],
+    [{ name: "a", uri: "data:text/plain;base64" }, /Malformed data: URI/],
+    [{ name: "a", contentBytes: "not base64!" }, /not valid base64/],
+  ])("rejects invalid input (%#)", async (input, error) => {
+    await expect(resolveAttachment(input)).rejects.toThrow(error);
+  });
+
+  it("rejects downloads whose declared size is too large", async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response("x", {
+          headers: { "Content-Length": String(200 * 1024 * 1024) },
+        }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(
+      resolveAttachment(
+        { name: "big.iso", uri: "https://contoso.com/big" },
+        undefined,
+        hosts,
+      ),
+    ).rejects.toThrow(/big\.iso" is 200\.0 MB/);
+  });
+
+  it("aborts downloads without Content-Length at the limit", async () => {
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(4));
+      },
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(body)),
+    );
+
+    await expect(
+      resolveAttachment(
+        { name: "a.bin", uri: "https://contoso.com/a" },
+        10,
+        hosts,
+      ),
+    ).rejects.toThrow(/a\.bin" is over 0\.0 MB/);
+    expect(pulled).toBeLessThan(5);
+  });
+
+  it("rejects decoded content over the per-file limit", async () => {
+    await expect(
+      resolveAttachment({ name: "a.txt", contentBytes: btoa("12345") }, 4),
+    ).rejects.toThrow(/a\.txt" is 0\.0 MB/);
+  });
+
+  it("reports failed downloads", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("", { status: 404 })),
+    );
+
+    await expect(
+      resolveAttachment(
+        { name: "a.pdf", uri: "https://contoso.com/a.pdf" },
+        undefined,
+        hosts,
+      ),
+    ).rejects.toThrow(/Failed to download attachment "a.pdf": HTTP 404/);
+  });
+});
+
+describe("URL downloads", () => {
+  it("only fetches allowed hosts", async () => {
+    const fetchMock = vi.fn(async () => new Response("x"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await expect(
+      resolveAttachment({ name: "a", uri: "https://contoso.com/a" }),
+    ).rejects.toThrow(/unless ATTACHMENT_URL_HOSTS lists their host/);
+    await expect(
+      resolveAttachment(
+        { name: "a", uri: "https://169.254.169.254/a" },
+        undefined,
+        hosts,
+      ),
+    ).rejects.toThrow(/host 169\.254\.169\.254 is not allowed/);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await resolveAttachment(
+      { name: "a", uri: "https://CONTOSO.com/a" },
+      undefined,
+      hosts,
+    );
+    expect(fetchMock).toHaveBeenCalledWith("https://CONTOSO.com/a", {
+      redirect: "manual",
+    });
+  });
+
+  it("does not follow redirects", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(null, {
+            status: 302,
+            headers: { Location: "https://example.com/a" },
+          }),
+      ),
+    );
+
+    await expect(
+      resolveAttachment(
+        { name: "a", uri: "https://contoso.com/a" },
+        undefined,
+        hosts,
+      ),
+    ).rejects.toThrow(/HTTP 302 redirect, which is not followed/);
+  });
+
+  it("parses the host list", () => {
+    expect(
+      getAttachmentUrlHosts({
+        ATTACHMENT_URL_HOSTS: " Files.contoso.com, cdn.contoso.com ",
+      } as Env),
+    ).toEqual(["files.contoso.com", "cdn.contoso.com"]);
+    expect(getAttachmentUrlHosts({} as Env)).toEqual([]);
+  });
+});
+
+describe("resolveAttachments", () => {
+  it("limits the total of one operation to 50 MB", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(new Uint8Array(MAX_ATTACHMENT_SIZE - 1))),
+    );
+    const inputs = ["a", "b", "c"].map((name) => ({
+      name,
+      uri: `https://contoso.com/${name}`,
+    }));
+
+    await expect(resolveAttachments(inputs, hosts)).rejects.toThrow(
+      /"c" is over .* the 50 MB total for all attachments leaves 0\.0 MB/,
+    );
+  });
+
+  it("resolves in input order and accepts no attachments", async () => {
+    expect(await resolveAttachments(undefined)).toEqual([]);
+    const resolved = await resolveAttachments([
+      { name: "a", contentBytes: btoa("1") },
+      { name: "b", uri: "data:,2" },
+    ]);
+    expect(resolved.map((attachment) => attachment.name)).toEqual(["a", "b"]);
+  });
+});
+
+describe("base64", () => {
+  it("round-trips bytes and accepts base64url", () => {
+    const bytes = new Uint8Array([0xfb, 0xff, 0x00, 0x41]);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+    expect(base64ToBytes("-_8AQQ==")).toEqual(bytes);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  htmlToMarkdown,
+  htmlToText,
+  stripQuotedHistory,
+  textToHtml,
+  truncateBody,
+} from "../src/email-content";
+
+describe("stripQuotedHistory", () => {
+  it("cuts at an 'On ... wrote:' line", () => {
+    expect(
+      stripQuotedHistory(
+        "Thanks, works for me.\n\nOn Mon, Jan 1, 2024 at 9:00 AM Jane <jane@contoso.com> wrote:\n> Does Tuesday work?",
+      ),
+    ).toBe("Thanks, works for me.");
+  });
+
+  it("cuts at an Outlook header block", () => {
+    expect(
+      stripQuotedHistory(
+        "See below.\n\n---\n\n**From:** Jane Doe\n**Sent:** Monday, January 1, 2024\n**Subject:** Plan\n\nOld text",
+      ),
+    ).toBe("See below.");
+  });
+
+  it("cuts at an Original Message separator", () => {
+    expect(
+      stripQuotedHistory("Approved.\n-----Original Message-----\nOld text"),
+    ).toBe("Approved.");
+  });
+
+  it("drops a trailing run of quoted lines", () => {
+    expect(stripQuotedHistory("Agreed.\n\n> earlier\n> message")).toBe(
+      "Agreed.",
+    );
+  });
+
+  it("keeps a From: line that does not start a header block", () => {
+    const text = "From: the team, with thanks.\nSee you soon.";
+    expect(stripQuotedHistory(text)).toBe(text);
+  });
+
+  it("keeps quotes followed by new content", () => {
+    const text = "> Can you send it?\n\nAttached.";
+    expect(stripQuotedHistory(text)).toBe(text);
+  });
+});
+
+describe("htmlToMarkdown", () => {
+  it("converts headings, emphasis, links and lists", () => {
+    expect(
+      htmlToMarkdown(
+        '<h2>Agenda</h2><p>Please <b>review</b> the <a href="https://contoso.com/plan">plan</a>.</p><ul><li>Budget</li><li>Timeline</li></ul>',
+      ),
+    ).toBe(
+      "## Agenda\n\nPlease **review** the [plan](https://contoso.com/plan).\n\n- Budget\n- Timeline",
+    );
+  });
+
+  it("omits link targets that repeat the text", () => {
+    expect(
+      htmlToMarkdown(
+        '<a href="mailto:jane@contoso.com">jane@contoso.com</a> <a href="https://contoso.com">https://contoso.com</a>',
+      ),
+    ).toBe("jane@contoso.com https://contoso.com");
+  });
+
+  it("drops tracking pixels, hidden elements, styles and comments", () => {
+    expect(
+      htmlToMarkdown(
+        '<style>p{color:red}</style><!-- x --><p>Hello</p><div style="display:none">preheader</div><img src="https://t.example/p.gif" width="1" height="1"><img src="https://contoso.com/logo.png" alt="Logo">',
+      ),
+    ).toBe("Hello\n\n![Logo](https://contoso.com/logo.png)");
+  });
+
+  it("turns nested blockquotes into quote prefixes by depth", () => {
+    const lines = htmlToMarkdown(
+      "<p>Reply</p><blockquote><p>First</p><blockquote><p>Second</p></blockquote></blockquote><p>After</p>",
+    ).split("\n");
+    expect(lines[0]).toBe("Reply");
+    expect(lines).toContain("> First");
+    expect(lines).toContain("> > Second");
+    expect(lines[lines.length - 1]).toBe("After");
+  });
+
+  it("decodes named and numeric entities", () => {
+    expect(htmlToMarkdown("<p>R&amp;D &ndash; caf&#233; &#x2713;</p>")).toBe(
+      "R&D – café ✓",
+    );
+  });
+});
+
+describe("htmlToText", () => {
+  it("keeps paragraphs and reduces links to their text", () => {
+    expect(
+      htmlToText(
+        '<p>Hello <a href="https://contoso.com">team</a>,</p><p>Line one<br>Line two</p>',
+      ),
+    ).toBe("Hello team,\n\nLine one\nLine two");
+  });
+});
+
+describe("textToHtml", () => {
+  it("escapes text and keeps line breaks", () => {
+    expect(textToHtml("a < b & c\nnext")).toBe("a &lt; b &amp; c<br>next");
+  });
+
+  it("passes HTML through", () => {
+    expect(textToHtml("<p>Hi</p>")).toBe("<p>Hi</p>");
+  });
+});
+
+describe("truncateBody", () => {
+  it("cuts long bodies with a marker", () => {
+    expect(truncateBody("abcdef", 4)).toEqual({
+      content: "abcd\n\n[... 2 characters truncated]",
+      truncatedCharacters: 2,
+    });
+  });
+
+  it("leaves short bodies and unlimited lengths alone", () => {
+    expect(truncateBody("abc", 10)).toEqual({ content: "abc" });
+    expect(truncateBody("abc")).toEqual({ content: "abc" });
+  });
+});
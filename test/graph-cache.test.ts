@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { GraphCache } from "../src/graph-cache";
+import { MemoryKV } from "./memory-kv";
+
+function createCache() {
+  const kv = new MemoryKV();
+  return { kv, cache: new GraphCache(kv as unknown as KVNamespace) };
+}
+
+describe("getPolicy", () => {
+  it("matches paths case-insensitively and ignores the query", () => {
+    const { cache } = createCache();
+    expect(cache.getPolicy("/me/joinedTeams?$select=id")).toEqual({
+      group: "teams",
+      ttlSeconds: 600,
+    });
+    expect(cache.getPolicy("/me/")?.group).toBe("profile");
+  });
+
+  it("does not cache other endpoints", () => {
+    const { cache } = createCache();
+    expect(cache.getPolicy("/me/messages")).toBeUndefined();
+    expect(cache.getPolicy("/me/calendars/abc/events")).toBeUndefined();
+  });
+
+  it("disables caching without a KV binding", () => {
+    expect(new GraphCache().getPolicy("/me")).toBeUndefined();
+  });
+});
+
+describe("put and get", () => {
+  it("stores entries per user with a stale window of four TTLs", async () => {
+    const { kv, cache } = createCache();
+    const policy = cache.getPolicy("/me/calendars")!;
+
+    await cache.put("user-1", "/me/calendars", policy, ["a"], '"v1"');
+
+    const [key] = kv.entries.keys();
+    expect(key).toMatch(/^graph-cache:user-1:calendars:[0-9a-f]{64}$/);
+    expect(kv.entries.get(key)?.expirationTtl).toBe(1200);
+    expect(await cache.get("user-1", "/me/calendars", policy)).toMatchObject({
+      body: ["a"],
+      etag: '"v1"',
+    });
+    expect(await cache.get("user-2", "/me/calendars", policy)).toBeNull();
+  });
+});
+
+describe("invalidate", () => {
+  it("drops only the given groups of the given user", async () => {
+    const { cache } = createCache();
+    const calendars = cache.getPolicy("/me/calendars")!;
+    const profile = cache.getPolicy("/me")!;
+
+    await cache.put("user-1", "/me/calendars", calendars, []);
+    await cache.put("user-1", "/me", profile, {});
+    await cache.put("user-2", "/me/calendars", calendars, []);
+
+    await cache.invalidate("user-1", ["calendars"]);
+
+    expect(await cache.get("user-1", "/me/calendars", calendars)).toBeNull();
+    expect(await cache.get("user-1", "/me", profile)).not.toBeNull();
+    expect(
+      await cache.get("user-2", "/me/calendars", calendars),
+    ).not.toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { GraphMessage } from "../src/graph-types";
+import {
+  canEvaluateConditions,
+  hasPredicates,
+  matchesRule,
+  toGraphPredicates,
+  toGraphRuleActions,
+} from "../src/inbox-rules";
+
+const ME = ["me@contoso.com"];
+
+function message(overrides: Partial<GraphMessage> = {}): GraphMessage {
+  return {
+    id: "1",
+    subject: "Invoice 42 for March",
+    bodyPreview: "Please find the invoice attached.",
+    from: { emailAddress: { name: "Billing", address: "billing@vendor.com" } },
+    toRecipients: [{ emailAddress: { address: "Me@Contoso.com" } }],
+    ccRecipients: [],
+    hasAttachments: true,
+    ...overrides,
+  } as GraphMessage;
+}
+
+describe("toGraphPredicates", () => {
+  it("converts addresses and drops empty values and false flags", () => {
+    expect(
+      toGraphPredicates(
+        {
+          fromAddresses: ["Billing <billing@vendor.com>"],
+          subjectContains: ["invoice", " "],
+          bodyContains: [],
+          sentToMe: true,
+          hasAttachments: false,
+          importance: "high",
+        },
+        "conditions",
+      ),
+    ).toEqual({
+      fromAddresses: [
+        { emailAddress: { name: "Billing", address: "billing@vendor.com" } },
+      ],
+      subjectContains: ["invoice"],
+      sentToMe: true,
+      importance: "high",
+    });
+  });
+
+  it("names the field of an invalid address", () => {
+    expect(() =>
+      toGraphPredicates({ sentToAddresses: ["nobody"] }, "exceptions"),
+    ).toThrow(/exceptions\.sentToAddresses/);
+  });
+});
+
+describe("toGraphRuleActions", () => {
+  it("keeps set actions and converts forwarding addresses", () => {
+    expect(
+      toGraphRuleActions({
+        moveToFolder: "Receipts",
+        markAsRead: true,
+        delete: false,
+        assignCategories: [],
+        forwardTo: ["assistant@contoso.com"],
+      }),
+    ).toEqual({
+      moveToFolder: "Receipts",
+      markAsRead: true,
+      forwardTo: [{ emailAddress: { address: "assistant@contoso.com" } }],
+    });
+  });
+});
+
+describe("hasPredicates", () => {
+  it("ignores empty lists and false flags", () => {
+    expect(hasPredicates(undefined)).toBe(false);
+    expect(hasPredicates({ subjectContains: [], sentToMe: false })).toBe(false);
+    expect(hasPredicates({ hasAttachments: true })).toBe(true);
+  });
+});
+
+describe("matchesRule", () => {
+  it("matches nothing when no condition can be evaluated", () => {
+    const conditions = { headerContains: ["X-Spam: yes"] };
+    expect(canEvaluateConditions(conditions)).toBe(false);
+    expect(matchesRule(message(), conditions, undefined, ME)).toBe(false);
+    expect(
+      matchesRule(
+        message(),
+        { ...conditions, subjectContains: ["invoice"] },
+        undefined,
+        ME,
+      ),
+    ).toBe(true);
+    expect(matchesRule(message(), undefined, undefined, ME)).toBe(true);
+  });
+
+  it("ORs values within a predicate, case-insensitively", () => {
+    expect(
+      matchesRule(
+        message(),
+        { subjectContains: ["receipt", "INVOICE"] },
+        undefined,
+        ME,
+      ),
+    ).toBe(true);
+  });
+
+  it("ANDs predicates", () => {
+    const conditions = {
+      subjectContains: ["invoice"],
+      senderContains: ["billing"],
+      hasAttachments: true,
+    };
+    expect(matchesRule(message(), conditions, undefined, ME)).toBe(true);
+    expect(
+      matchesRule(
+        message({ hasAttachments: false }),
+        conditions,
+        undefined,
+        ME,
+      ),
+    ).toBe(false);
+  });
+
+  it("skips messages matching any exception", () => {
+    expect(
+      matchesRule(
+        message(),
+        {
+          fromAddresses: [{ emailAddress: { address: "BILLING@vendor.com" } }],
+        },
+        { bodyContains: ["nothing"], importance: "normal" },
+        ME,
+      ),
+    ).toBe(false);
+  });
+
+  it("distinguishes sent to, sent only to and cc", () => {
+    const ccMe = message({
+      toRecipients: [{ emailAddress: { address: "team@contoso.com" } }],
+      ccRecipients: [{ emailAddress: { address: "me@contoso.com" } }],
+    });
+    expect(matchesRule(message(), { sentOnlyToMe: true }, undefined, ME)).toBe(
+      true,
+    );
+    expect(matchesRule(ccMe, { sentToMe: true }, undefined, ME)).toBe(false);
+    expect(matchesRule(ccMe, { sentCcMe: true }, undefined, ME)).toBe(true);
+    expect(
+      matchesRule(
+        ccMe,
+        {
+          sentToAddresses: [{ emailAddress: { address: "me@contoso.com" } }],
+        },
+        undefined,
+        ME,
+      ),
+    ).toBe(true);
+  });
+
+  it("matches recipientContains against names and addresses", () => {
+    expect(
+      matchesRule(
+        message({
+          toRecipients: [
+            { emailAddress: { name: "Finance Team", address: "fin@x.com" } },
+          ],
+        }),
+        { recipientContains: ["finance"] },
+        undefined,
+        ME,
+      ),
+    ).toBe(true);
+  });
+});
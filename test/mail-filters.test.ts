@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { buildEmailQuery, escapeODataString } from "../src/mail-filters";
+
+/** Decoded $filter and $orderby values of a query suffix */
+function parseQuery(query: string): { filter: string; orderBy: string } {
+  const params = new URLSearchParams(query.slice(1));
+  return {
+    filter: params.get("$filter") || "",
+    orderBy: params.get("$orderby") || "",
+  };
+}
+
+describe("escapeODataString", () => {
+  it("quotes values and doubles embedded quotes", () => {
+    expect(escapeODataString("plain")).toBe("'plain'");
+    expect(escapeODataString("O'Brien's")).toBe("'O''Brien''s'");
+  });
+});
+
+describe("buildEmailQuery", () => {
+  it("always leads with a receivedDateTime clause matching $orderby", () => {
+    expect(parseQuery(buildEmailQuery({}))).toEqual({
+      filter: "receivedDateTime ge 1900-01-01T00:00:00Z",
+      orderBy: "receivedDateTime desc",
+    });
+    expect(parseQuery(buildEmailQuery({}, "oldest")).orderBy).toBe(
+      "receivedDateTime asc",
+    );
+  });
+
+  it("normalizes dates to UTC", () => {
+    const { filter } = parseQuery(
+      buildEmailQuery({
+        receivedAfter: "2024-06-01",
+        receivedBefore: "2024-06-08T09:30:00+02:00",
+      }),
+    );
+    expect(filter).toBe(
+      "receivedDateTime ge 2024-06-01T00:00:00Z and receivedDateTime lt 2024-06-08T07:30:00Z",
+    );
+  });
+
+  it("lowercases addresses and escapes string literals", () => {
+    const { filter } = parseQuery(
+      buildEmailQuery({
+        from: " Jane@Contoso.com ",
+        to: "team@contoso.com",
+        category: "Client's",
+      }),
+    );
+    expect(filter).toContain("from/emailAddress/address eq 'jane@contoso.com'");
+    expect(filter).toContain(
+      "toRecipients/any(r:r/emailAddress/address eq 'team@contoso.com')",
+    );
+    expect(filter).toContain("categories/any(c:c eq 'Client''s')");
+  });
+
+  it("adds flag and state conditions", () => {
+    const { filter } = parseQuery(
+      buildEmailQuery({
+        unreadOnly: true,
+        hasAttachments: false,
+        importance: "high",
+        flagged: false,
+        inferenceClassification: "focused",
+      }),
+    );
+    expect(filter.split(" and ").slice(1)).toEqual([
+      "isRead eq false",
+      "hasAttachments eq false",
+      "importance eq 'high'",
+      "flag/flagStatus ne 'flagged'",
+      "inferenceClassification eq 'focused'",
+    ]);
+  });
+
+  it("encodes the query for use in a URL", () => {
+    const query = buildEmailQuery({ category: "R&D" });
+    expect(query).not.toContain(" ");
+    expect(query).toContain("R%26D");
+  });
+
+  it("rejects invalid dates and addresses before Graph is called", () => {
+    expect(() => buildEmailQuery({ receivedAfter: "yesterday" })).toThrow(
+      /Invalid date in receivedAfter/,
+    );
+    expect(() => buildEmailQuery({ from: "jane" })).toThrow(
+      /Invalid email address in from/,
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { joinMboxEntries, toMboxEntry } from "../src/mbox";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const date = new Date(Date.UTC(2024, 0, 1, 9, 5, 0));
+
+function entry(mime: string, sender?: string): string {
+  return decoder.decode(toMboxEntry(encoder.encode(mime), sender, date));
+}
+
+describe("toMboxEntry", () => {
+  it("starts with a From separator in asctime format", () => {
+    expect(entry("Subject: Hi\r\n\r\nBody", "jane@contoso.com")).toBe(
+      "From jane@contoso.com Mon Jan  1 09:05:00 2024\nSubject: Hi\n\nBody\n\n",
+    );
+  });
+
+  it("quotes From lines mboxrd style, including already quoted ones", () => {
+    const body = entry(
+      "Subject: Hi\r\n\r\nFrom here on\r\n>From before\r\n>>From older\r\nFromage\r\n From indented",
+      "jane@contoso.com",
+    );
+    expect(body.split("\n").slice(3, 8)).toEqual([
+      ">From here on",
+      ">>From before",
+      ">>>From older",
+      "Fromage",
+      " From indented",
+    ]);
+  });
+
+  it("falls back to MAILER-DAEMON and strips whitespace from the sender", () => {
+    expect(entry("Subject: Hi\r\n\r\nBody").split("\n")[0]).toBe(
+      "From MAILER-DAEMON Mon Jan  1 09:05:00 2024",
+    );
+    expect(entry("Subject: Hi\r\n\r\nBody", "a b@contoso.com")).toMatch(
+      /^From ab@contoso\.com /,
+    );
+  });
+
+  it("ends every entry with exactly one empty line", () => {
+    expect(entry("Subject: Hi\r\n\r\nBody\r\n\r\n\r\n", "x@y.z")).toMatch(
+      /Body\n\n$/,
+    );
+  });
+
+  it("passes 8bit content through unchanged", () => {
+    const mime = new Uint8Array([0x53, 0x3a, 0x20, 0xe9, 0x0a, 0x0a, 0xff]);
+    const result = toMboxEntry(mime, "x@y.z", date);
+    expect([...result.slice(-6)]).toEqual([0xe9, 0x0a, 0x0a, 0xff, 0x0a, 0x0a]);
+  });
+});
+
+describe("joinMboxEntries", () => {
+  it("concatenates entries in order", () => {
+    const first = toMboxEntry(encoder.encode("Subject: 1\n\nA"), "a@x.y", date);
+    const second = toMboxEntry(
+      encoder.encode("Subject: 2\n\nB"),
+      "b@x.y",
+      date,
+    );
+    const joined = decoder.decode(joinMboxEntries([first, second]));
+    expect(joined).toBe(decoder.decode(first) + decoder.decode(second));
+    expect(joined.match(/^From /gm)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,26 @@
+/** Minimal in-memory stand-in for a KV namespace binding */
+export class MemoryKV {
+  entries = new Map<string, { value: string; expirationTtl?: number }>();
+
+  async get(key: string, type?: "json") {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    return type === "json" ? JSON.parse(entry.value) : entry.value;
+  }
+
+  async put(key: string, value: string, options?: { expirationTtl?: number }) {
+    this.entries.set(key, { value, expirationTtl: options?.expirationTtl });
+  }
+
+  async list(options: { prefix: string }) {
+    return {
+      keys: [...this.entries.keys()]
+        .filter((name) => name.startsWith(options.prefix))
+        .map((name) => ({ name })),
+    };
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
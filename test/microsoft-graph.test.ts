@@ -0,0 +1,521 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Env } from "../src/index";
+import { MicrosoftGraphClient } from "../src/microsoft-graph";
+import { MemoryKV } from "./memory-kv";
+
+/** utils.ts re-exports the agent's Props, which loads the Workers-only base class */
+vi.mock("agents/mcp", () => ({ McpAgent: class {} }));
+
+const env = { GRAPH_API_VERSION: "v1.0" } as Env;
+
+function jsonResponse(
+  status: number,
+  body: unknown = {},
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+const email = { to: "jane@contoso.com", subject: "Hi", body: "Hello" };
+
+let fetchMock: ReturnType<typeof vi.fn>;
+let sleepMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  fetchMock = vi.fn();
+  vi.stubGlobal("fetch", fetchMock);
+  sleepMock = vi.fn().mockResolvedValue(undefined);
+  vi.spyOn(MicrosoftGraphClient.prototype as any, "sleep").mockImplementation(
+    sleepMock,
+  );
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("retries", () => {
+  it("retries a throttled GET and honours Retry-After seconds", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429, {}, { "Retry-After": "2" }))
+      .mockResolvedValueOnce(jsonResponse(200, { displayName: "Jane" }));
+
+    const profile = await new MicrosoftGraphClient(env).getUserProfile("t");
+
+    expect(profile.displayName).toBe("Jane");
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sleepMock).toHaveBeenCalledWith(2000);
+  });
+
+  it("caps Retry-After at 30 seconds", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(503, {}, { "Retry-After": "120" }))
+      .mockResolvedValueOnce(jsonResponse(200, {}));
+
+    await new MicrosoftGraphClient(env).getUserProfile("t");
+
+    expect(sleepMock).toHaveBeenCalledWith(30000);
+  });
+
+  it("backs off exponentially with jitter without Retry-After", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(504))
+      .mockResolvedValueOnce(jsonResponse(504))
+      .mockResolvedValueOnce(jsonResponse(200, {}));
+
+    await new MicrosoftGraphClient(env).getUserProfile("t");
+
+    const [first, second] = sleepMock.mock.calls.map(([ms]) => ms);
+    expect(first).toBeGreaterThanOrEqual(500);
+    expect(first).toBeLessThanOrEqual(1000);
+    expect(second).toBeGreaterThanOrEqual(1000);
+    expect(second).toBeLessThanOrEqual(2000);
+  });
+
+  it("retries network failures for idempotent methods", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError("connection reset"))
+      .mockResolvedValueOnce(jsonResponse(200, {}));
+
+    await new MicrosoftGraphClient(env).getUserProfile("t");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after three retries and reports the attempts", async () => {
+    fetchMock.mockImplementation(async () =>
+      jsonResponse(429, { error: { message: "Slow down" } }),
+    );
+
+    await expect(
+      new MicrosoftGraphClient(env).getUserProfile("t"),
+    ).rejects.toThrow(/attempts: 4/);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("retries a throttled POST", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429))
+      .mockResolvedValueOnce(new Response(null, { status: 202 }));
+
+    await new MicrosoftGraphClient(env).sendEmail("t", email);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not replay a POST after a 503 or a network failure", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(503));
+    await expect(
+      new MicrosoftGraphClient(env).sendEmail("t", email),
+    ).rejects.toThrow(/503/);
+
+    fetchMock.mockRejectedValueOnce(new TypeError("connection reset"));
+    await expect(
+      new MicrosoftGraphClient(env).sendEmail("t", email),
+    ).rejects.toThrow(/network error/);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(sleepMock).not.toHaveBeenCalled();
+  });
+
+  it("does not retry client errors", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(400, { error: { message: "Bad filter" } }),
+    );
+
+    await expect(
+      new MicrosoftGraphClient(env).getUserProfile("t"),
+    ).rejects.toThrow(/Bad filter/);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("batch", () => {
+  const sentIds = (call: number) =>
+    JSON.parse(fetchMock.mock.calls[call][1].body).requests.map(
+      (request: { id: string }) => request.id,
+    );
+
+  const answer = (...responses: { id: string; status: number; body?: any }[]) =>
+    jsonResponse(200, { responses });
+
+  it("sends dependencies before the requests that need them", async () => {
+    fetchMock.mockResolvedValueOnce(
+      answer({ id: "a", status: 201 }, { id: "b", status: 200 }),
+    );
+
+    await new MicrosoftGraphClient(env).batch("t", [
+      { id: "b", method: "GET", url: "/me", dependsOn: ["a"] },
+      { id: "a", method: "POST", url: "/me/events", body: {} },
+    ]);
+
+    const payload = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(sentIds(0)).toEqual(["a", "b"]);
+    expect(payload.requests[1].dependsOn).toEqual(["a"]);
+    expect(payload.requests[0].headers["Content-Type"]).toBe(
+      "application/json",
+    );
+  });
+
+  it("records an error for sub-requests missing from the response", async () => {
+    fetchMock.mockResolvedValueOnce(answer({ id: "a", status: 200 }));
+
+    const results = await new MicrosoftGraphClient(env).batch("t", [
+      { id: "a", method: "GET", url: "/me" },
+      { id: "b", method: "GET", url: "/me/calendars" },
+    ]);
+
+    expect(results.a.error).toBeUndefined();
+    expect(results.b).toMatchObject({ id: "b", status: 502 });
+    expect(results.b.error?.message).toMatch(/b got no response/);
+  });
+
+  it.each([
+    [
+      [
+        { id: "a", method: "GET", url: "/me" },
+        { id: "a", method: "GET", url: "/me" },
+      ],
+      /Duplicate batch request id/,
+    ],
+    [
+      [{ id: "a", method: "GET", url: "/me", dependsOn: ["x"] }],
+      /depends on unknown request: x/,
+    ],
+    [
+      [
+        { id: "a", method: "GET", url: "/me", dependsOn: ["b"] },
+        { id: "b", method: "GET", url: "/me", dependsOn: ["a"] },
+      ],
+      /Circular batch dependency/,
+    ],
+  ])("rejects invalid request sets (%#)", async (requests, error) => {
+    await expect(
+      new MicrosoftGraphClient(env).batch("t", requests),
+    ).rejects.toThrow(error);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("splits large inputs and skips requests whose dependency failed", async () => {
+    const requests = Array.from({ length: 21 }, (_, i) => ({
+      id: String(i),
+      method: "GET",
+      url: `/me/messages/${i}`,
+      dependsOn: i === 20 ? ["0"] : undefined,
+    }));
+
+    fetchMock.mockResolvedValueOnce(
+      answer(
+        { id: "0", status: 404, body: { error: { message: "Not found" } } },
+        ...requests
+          .slice(1, 20)
+          .map((request) => ({ id: request.id, status: 200 })),
+      ),
+    );
+
+    const results = await new MicrosoftGraphClient(env).batch("t", requests);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sentIds(0)).toHaveLength(20);
+    expect(results["0"].error?.message).toMatch(/Not found/);
+    expect(results["20"]).toMatchObject({ status: 424 });
+    expect(results["20"].error?.message).toMatch(/dependency 0 failed/);
+  });
+
+  it("resends throttled sub-requests in a follow-up batch", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        answer({ id: "a", status: 200 }, { id: "b", status: 429 }),
+      )
+      .mockResolvedValueOnce(answer({ id: "b", status: 200, body: { ok: 1 } }));
+
+    const results = await new MicrosoftGraphClient(env).batch("t", [
+      { id: "a", method: "GET", url: "/me" },
+      { id: "b", method: "GET", url: "/me/calendars" },
+    ]);
+
+    expect(sentIds(1)).toEqual(["b"]);
+    expect(results.b).toMatchObject({ status: 200, body: { ok: 1 } });
+    expect(sleepMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("response cache", () => {
+  /** Unsigned token carrying only the oid claim used as cache partition */
+  const token = `x.${btoa(JSON.stringify({ oid: "user-1" }))}.y`;
+
+  const cachedEnv = () =>
+    ({ ...env, CACHE_KV: new MemoryKV() }) as unknown as Env;
+
+  it("serves fresh entries without calling Graph", async () => {
+    const client = new MicrosoftGraphClient(cachedEnv());
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { displayName: "Jane" }));
+
+    await client.getUserProfile(token);
+    const profile = await client.getUserProfile(token);
+
+    expect(profile.displayName).toBe("Jane");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("revalidates stale entries with If-None-Match", async () => {
+    vi.useFakeTimers();
+    const client = new MicrosoftGraphClient(cachedEnv());
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse(200, { displayName: "Jane" }, { ETag: '"v1"' }),
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    await client.getUserProfile(token);
+    vi.advanceTimersByTime(16 * 60 * 1000);
+    const profile = await client.getUserProfile(token);
+
+    expect(profile.displayName).toBe("Jane");
+    expect(fetchMock.mock.calls[1][1].headers["If-None-Match"]).toBe('"v1"');
+  });
+
+  it("skips the cache lookup on bypassCache", async () => {
+    const client = new MicrosoftGraphClient(cachedEnv());
+    fetchMock.mockImplementation(async () => jsonResponse(200, {}));
+
+    await client.getUserProfile(token);
+    await client.getUserProfile(token, true);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache tokens without an oid claim", async () => {
+    const client = new MicrosoftGraphClient(cachedEnv());
+    fetchMock.mockImplementation(async () => jsonResponse(200, {}));
+
+    await client.getUserProfile("opaque");
+    await client.getUserProfile("opaque");
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("createDraft", () => {
+  it("sends a reply draft body as comment so the quote is kept", async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse(201, { id: "draft-1" }));
+
+    await new MicrosoftGraphClient(env).createDraft("t", {
+      replyToMessageId: "msg-1",
+      body: "<p>Looks good</p>",
+      contentType: "html",
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/me\/messages\/msg-1\/createReply$/);
+    expect(JSON.parse(init.body)).toEqual({ comment: "<p>Looks good</p>" });
+  });
+});
+
+describe("replies and forwards", () => {
+  it("sends HTML comments as comment so the quote is kept", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 202 }));
+
+    await new MicrosoftGraphClient(env).replyToEmail("t", {
+      messageId: "msg-1",
+      comment: "<p>Thanks!</p>",
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/me\/messages\/msg-1\/reply$/);
+    expect(JSON.parse(init.body)).toEqual({ comment: "<p>Thanks!</p>" });
+  });
+
+  it("adds forward recipients without a message body", async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 202 }));
+
+    await new MicrosoftGraphClient(env).forwardEmail("t", {
+      messageId: "msg-1",
+      to: ["jane@contoso.com"],
+      comment: "FYI",
+    });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      comment: "FYI",
+      message: {
+        toRecipients: [{ emailAddress: { address: "jane@contoso.com" } }],
+      },
+    });
+  });
+});
+
+describe("email export", () => {
+  const MB = 1024 * 1024;
+
+  /** Endless MIME body counting how many 1 MB chunks were pulled */
+  function endlessBody() {
+    const stream = {
+      pulled: 0,
+      body: new ReadableStream<Uint8Array>({
+        pull(controller) {
+          stream.pulled++;
+          controller.enqueue(new Uint8Array(MB));
+        },
+      }),
+    };
+    return stream;
+  }
+
+  it("aborts a MIME download at the export limit", async () => {
+    const stream = endlessBody();
+    fetchMock.mockResolvedValueOnce(new Response(stream.body));
+
+    const mime = await new MicrosoftGraphClient(env).getEmailMime("t", "m1");
+
+    expect(mime).toBeUndefined();
+    expect(stream.pulled).toBeLessThanOrEqual(12);
+  });
+
+  it("does not read a body whose Content-Length exceeds the limit", async () => {
+    const stream = endlessBody();
+    fetchMock.mockResolvedValueOnce(
+      new Response(stream.body, {
+        headers: { "Content-Length": String(20 * MB) },
+      }),
+    );
+
+    expect(
+      await new MicrosoftGraphClient(env).getEmailMime("t", "m1"),
+    ).toBeUndefined();
+    expect(stream.pulled).toBeLessThanOrEqual(1);
+  });
+
+  it("lists oversized messages as skipped and exports the rest", async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.includes("/m1/$value")) {
+        return new Response(endlessBody().body);
+      }
+      if (url.includes("/m2/$value")) {
+        return new Response("Subject: Small\r\n\r\nBody");
+      }
+      return jsonResponse(200, {
+        value: [
+          {
+            id: "m1",
+            subject: "Huge",
+            receivedDateTime: "2024-01-01T09:00:00Z",
+          },
+          {
+            id: "m2",
+            subject: "Small",
+            receivedDateTime: "2024-01-02T09:00:00Z",
+          },
+        ],
+      });
+    });
+
+    const result = await new MicrosoftGraphClient(env).exportEmails("t", {});
+
+    expect(result.exported).toBe(1);
+    expect(result.skipped).toEqual([{ id: "m1", subject: "Huge" }]);
+    expect(new TextDecoder().decode(result.mbox)).toContain("Subject: Small");
+  });
+
+  it("leaves messages sharing the resume timestamp for the next call", async () => {
+    const messages = [
+      ["m1", "2024-01-01T09:00:00Z"],
+      ["m2", "2024-01-02T09:00:00Z"],
+      ["m3", "2024-01-02T09:00:00Z"],
+      ["m4", "2024-01-02T09:00:00Z"],
+    ].map(([id, receivedDateTime]) => ({ id, receivedDateTime }));
+    fetchMock.mockImplementation(async (url: string) =>
+      url.includes("/$value")
+        ? new Response("Subject: x\r\n\r\nBody")
+        : jsonResponse(200, { value: messages }),
+    );
+    const client = new MicrosoftGraphClient(env);
+
+    const first = await client.exportEmails("t", { maxMessages: 3 });
+    expect(first.exported).toBe(1);
+    expect(first.nextReceivedAfter).toBe("2024-01-02T09:00:00Z");
+
+    messages.splice(0, 2);
+    const single = await client.exportEmails("t", { maxMessages: 1 });
+    expect(single.exported).toBe(1);
+  });
+});
+
+describe("calendar time zone", () => {
+  it("uses the mailbox time zone without a fallback", async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse(200, { timeZone: "W. Europe Standard Time" }),
+    );
+
+    expect(
+      await new MicrosoftGraphClient(env).resolveCalendarTimeZone("t"),
+    ).toEqual({ windows: "W. Europe Standard Time", iana: "Europe/Berlin" });
+  });
+
+  it("names the reason when it falls back to UTC", async () => {
+    const excluded = {
+      ...env,
+      MICROSOFT_EXCLUDED_SCOPES: "MailboxSettings.Read",
+    } as Env;
+    expect(
+      await new MicrosoftGraphClient(excluded).resolveCalendarTimeZone("t"),
+    ).toMatchObject({ windows: "UTC", fallback: /is excluded/ });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(200, { timeZone: "Mars" }));
+    expect(
+      await new MicrosoftGraphClient(env).resolveCalendarTimeZone("t"),
+    ).toMatchObject({
+      fallback: 'the mailbox time zone "Mars" is not recognized',
+    });
+
+    fetchMock.mockResolvedValueOnce(jsonResponse(404, {}));
+    expect(
+      await new MicrosoftGraphClient(env).resolveCalendarTimeZone("t"),
+    ).toMatchObject({ fallback: /could not be read/ });
+  });
+});
+
+describe("updateEmails", () => {
+  it("rejects a flag start date without a due date", async () => {
+    await expect(
+      new MicrosoftGraphClient(env).updateEmails("t", {
+        messageIds: ["m1"],
+        flag: { status: "flagged", startDateTime: "2024-06-03T09:00" },
+      }),
+    ).rejects.toThrow(/flag\.startDateTime needs flag\.dueDateTime/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("sends flag dates in the mailbox time zone", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        jsonResponse(200, { timeZone: "W. Europe Standard Time" }),
+      )
+      .mockResolvedValueOnce(
+        jsonResponse(200, { responses: [{ id: "0", status: 200 }] }),
+      );
+
+    await new MicrosoftGraphClient(env).updateEmails("t", {
+      messageIds: ["m1"],
+      flag: { status: "flagged", dueDateTime: "2024-06-03T07:00:00Z" },
+    });
+
+    const [request] = JSON.parse(fetchMock.mock.calls[1][1].body).requests;
+    expect(request.body.flag).toEqual({
+      flagStatus: "flagged",
+      startDateTime: {
+        dateTime: "2024-06-03T09:00:00",
+        timeZone: "W. Europe Standard Time",
+      },
+      dueDateTime: {
+        dateTime: "2024-06-03T09:00:00",
+        timeZone: "W. Europe Standard Time",
+      },
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Env } from "../src/index";
+import { MicrosoftMCPAgent } from "../src/microsoft-mcp-agent";
+
+/** The Workers runtime base class is replaced by an in-memory state holder */
+vi.mock("agents/mcp", () => ({
+  McpAgent: class {
+    props: unknown;
+    state: unknown;
+    setState(state: unknown) {
+      this.state = state;
+    }
+  },
+}));
+
+const env = { GRAPH_API_VERSION: "v1.0" } as Env;
+
+function createAgent(userId: string): any {
+  const agent: any = new MicrosoftMCPAgent({} as DurableObjectState, env);
+  agent.props = { id: userId, microsoftAccessToken: "t" };
+  return agent;
+}
+
+describe("getPagedResult", () => {
+  const firstPage = async (nextLink?: string) =>
+    nextLink
+      ? { items: ["c"] }
+      : { items: ["a", "b"], nextLink: "https://graph/next" };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("returns a cursor that continues from the stored link", async () => {
+    const agent = createAgent("user-1");
+    const first = await agent.getPagedResult(
+      "t",
+      "getEmails",
+      undefined,
+      firstPage,
+    );
+
+    expect(first.items).toEqual(["a", "b"]);
+    expect(JSON.stringify(first)).not.toContain("https://graph/next");
+
+    const fetchPage = vi.fn(firstPage);
+    const second = await agent.getPagedResult(
+      "t",
+      "getEmails",
+      first.nextCursor,
+      fetchPage,
+    );
+    expect(fetchPage).toHaveBeenCalledWith("https://graph/next");
+    expect(second).toEqual({ items: ["c"] });
+  });
+
+  it("rejects cursors issued for another tool or user", async () => {
+    const agent = createAgent("user-1");
+    const { nextCursor } = await agent.getPagedResult(
+      "t",
+      "getEmails",
+      undefined,
+      firstPage,
+    );
+
+    await expect(
+      agent.getPagedResult("t", "searchEmails", nextCursor, firstPage),
+    ).rejects.toThrow(/Invalid or expired cursor for searchEmails/);
+
+    agent.props = { id: "user-2", microsoftAccessToken: "t" };
+    await expect(
+      agent.getPagedResult("t", "getEmails", nextCursor, firstPage),
+    ).rejects.toThrow(/Invalid or expired cursor/);
+  });
+
+  it("rejects cursors after an hour", async () => {
+    const agent = createAgent("user-1");
+    const { nextCursor } = await agent.getPagedResult(
+      "t",
+      "getEmails",
+      undefined,
+      firstPage,
+    );
+
+    vi.advanceTimersByTime(60 * 60 * 1000 + 1);
+
+    await expect(
+      agent.getPagedResult("t", "getEmails", nextCursor, firstPage),
+    ).rejects.toThrow(/Invalid or expired cursor/);
+  });
+
+  it("keeps only the newest 50 cursors", async () => {
+    const agent = createAgent("user-1");
+    const cursors: string[] = [];
+    for (let i = 0; i < 51; i++) {
+      vi.advanceTimersByTime(1000);
+      const page = await agent.getPagedResult(
+        "t",
+        "getEmails",
+        undefined,
+        firstPage,
+      );
+      cursors.push(page.nextCursor);
+    }
+
+    expect(Object.keys(agent.state.cursors)).toHaveLength(50);
+    expect(agent.state.cursors[cursors[0]]).toBeUndefined();
+    expect(agent.state.cursors[cursors[50]]).toBeDefined();
+  });
+});
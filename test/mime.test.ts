@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  bytesToBinary,
+  decodeHeaderValue,
+  parseMimeMessage,
+} from "../src/mime";
+
+const encoder = new TextEncoder();
+
+describe("decodeHeaderValue", () => {
+  it("decodes base64 and quoted-printable encoded words", () => {
+    expect(decodeHeaderValue("=?utf-8?B?SGVsbG8=?=")).toBe("Hello");
+    expect(decodeHeaderValue("=?UTF-8?q?Caf=C3=A9_au_lait?=")).toBe(
+      "Café au lait",
+    );
+  });
+
+  it("decodes legacy charsets", () => {
+    expect(decodeHeaderValue("=?iso-8859-1?Q?Gr=FC=DFe?=")).toBe("Grüße");
+  });
+
+  it("joins adjacent encoded words but keeps surrounding text", () => {
+    expect(
+      decodeHeaderValue("Re: =?utf-8?B?SGVsbG8=?= =?utf-8?B?IFdvcmxk?= !"),
+    ).toBe("Re: Hello World !");
+  });
+
+  it("leaves plain values unchanged", () => {
+    expect(decodeHeaderValue("Quarterly report")).toBe("Quarterly report");
+  });
+});
+
+describe("parseMimeMessage", () => {
+  const message = [
+    "From: =?utf-8?Q?Ren=C3=A9e?= <renee@contoso.com>",
+    "Subject: Project",
+    " update",
+    "MIME-Version: 1.0",
+    'Content-Type: multipart/mixed; boundary="outer"',
+    "",
+    "--outer",
+    'Content-Type: multipart/alternative; boundary="inner"',
+    "",
+    "--inner",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: quoted-printable",
+    "",
+    "Budget is =E2=82=AC10k, see the att=",
+    "ached plan.",
+    "--inner",
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    btoa("<p>Budget</p>"),
+    "--inner--",
+    "--outer",
+    "Content-Type: application/pdf",
+    'Content-Disposition: attachment; filename="plan.pdf"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    "JVBERi0=",
+    "--outer--",
+    "",
+  ].join("\r\n");
+
+  it("unfolds and decodes headers", () => {
+    const parsed = parseMimeMessage(encoder.encode(message));
+    expect(parsed.headers.from).toBe("Renée <renee@contoso.com>");
+    expect(parsed.headers.subject).toBe("Project update");
+  });
+
+  it("extracts text and HTML bodies from nested multiparts", () => {
+    const parsed = parseMimeMessage(encoder.encode(message));
+    expect(parsed.text).toBe("Budget is €10k, see the attached plan.");
+    expect(parsed.html).toBe("<p>Budget</p>");
+    expect(parsed.attachments).toEqual(["plan.pdf"]);
+  });
+
+  it("treats a message without Content-Type as plain text", () => {
+    const parsed = parseMimeMessage(
+      encoder.encode("Subject: Hi\n\nHello there"),
+    );
+    expect(parsed.text).toBe("Hello there");
+    expect(parsed.html).toBeUndefined();
+  });
+});
+
+describe("bytesToBinary", () => {
+  it("maps each byte to one character", () => {
+    expect(bytesToBinary(new Uint8Array([0x48, 0x00, 0xff]))).toBe("H\u0000ÿ");
+  });
+
+  it("handles input larger than one conversion chunk", () => {
+    const bytes = new Uint8Array(0x8000 * 2 + 3).fill(0x41);
+    expect(bytesToBinary(bytes)).toBe("A".repeat(bytes.length));
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { Env } from "../src/index";
+import {
+  formatCloudScopes,
+  getAuthorityUrl,
+  getCloudEndpoints,
+} from "../src/national-clouds";
+
+function cloudEnv(cloud?: string): Env {
+  return { MICROSOFT_CLOUD: cloud, MICROSOFT_TENANT_ID: "tenant" } as Env;
+}
+
+describe("getCloudEndpoints", () => {
+  it("defaults to the global cloud", () => {
+    expect(getCloudEndpoints(cloudEnv()).graphHost).toBe(
+      "https://graph.microsoft.com",
+    );
+  });
+
+  it("ignores case and surrounding whitespace", () => {
+    expect(getCloudEndpoints(cloudEnv(" USGovDoD ")).graphHost).toBe(
+      "https://dod-graph.microsoft.us",
+    );
+  });
+
+  it("rejects unsupported clouds and lists the supported ones", () => {
+    expect(() => getCloudEndpoints(cloudEnv("germany"))).toThrow(
+      /Invalid MICROSOFT_CLOUD "germany". Supported values: global, usgov, usgovdod, china/,
+    );
+  });
+
+  it.each(["constructor", "__proto__", "toString"])(
+    "rejects the inherited property %s",
+    (cloud) => {
+      expect(() => getCloudEndpoints(cloudEnv(cloud))).toThrow(
+        /Invalid MICROSOFT_CLOUD/,
+      );
+    },
+  );
+});
+
+describe("getAuthorityUrl", () => {
+  it("builds tenant endpoints on the cloud's authority host", () => {
+    expect(getAuthorityUrl(cloudEnv("china"), "token")).toBe(
+      "https://login.chinacloudapi.cn/tenant/oauth2/v2.0/token",
+    );
+  });
+});
+
+describe("formatCloudScopes", () => {
+  it("keeps global scopes bare", () => {
+    expect(formatCloudScopes(cloudEnv(), "openid Mail.Read")).toBe(
+      "openid Mail.Read",
+    );
+  });
+
+  it("prefixes national cloud scopes except OpenID Connect ones", () => {
+    expect(
+      formatCloudScopes(cloudEnv("usgov"), "openid  Mail.Read offline_access"),
+    ).toBe("openid https://graph.microsoft.us/Mail.Read offline_access");
+  });
+});
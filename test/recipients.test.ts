@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { isValidEmailAddress, toGraphRecipients } from "../src/recipients";
+
+describe("isValidEmailAddress", () => {
+  it.each(["jane@contoso.com", "j.doe+news@mail.contoso.co.uk"])(
+    "accepts %s",
+    (address) => {
+      expect(isValidEmailAddress(address)).toBe(true);
+    },
+  );
+
+  it.each([
+    "jane",
+    "jane@contoso",
+    "jane@@contoso.com",
+    "jane doe@contoso.com",
+    "jane@contoso.com.",
+    "<jane@contoso.com>",
+  ])("rejects %s", (address) => {
+    expect(isValidEmailAddress(address)).toBe(false);
+  });
+});
+
+describe("toGraphRecipients", () => {
+  it("treats a single string as one recipient", () => {
+    expect(toGraphRecipients(" jane@contoso.com ", "to")).toEqual([
+      { emailAddress: { address: "jane@contoso.com" } },
+    ]);
+  });
+
+  it("parses display names, quoted or not, in input order", () => {
+    expect(
+      toGraphRecipients(
+        ['"Doe, Jane" <jane@contoso.com>', "Sam <sam@contoso.com>"],
+        "cc",
+      ),
+    ).toEqual([
+      { emailAddress: { name: "Doe, Jane", address: "jane@contoso.com" } },
+      { emailAddress: { name: "Sam", address: "sam@contoso.com" } },
+    ]);
+  });
+
+  it("omits an empty display name", () => {
+    expect(toGraphRecipients(["<jane@contoso.com>"], "bcc")).toEqual([
+      { emailAddress: { address: "jane@contoso.com" } },
+    ]);
+  });
+
+  it("returns no recipients for undefined", () => {
+    expect(toGraphRecipients(undefined, "cc")).toEqual([]);
+  });
+
+  it("names the field and value of an invalid address", () => {
+    expect(() =>
+      toGraphRecipients(["jane@contoso.com", "Sam <sam>"], "replyTo"),
+    ).toThrow('Invalid email address in replyTo: "Sam <sam>"');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { Env } from "../src/index";
+import {
+  getEnabledScopes,
+  getEndpointScopes,
+  getScopeString,
+  isToolEnabled,
+} from "../src/scope-registry";
+
+function scopeEnv(excluded?: string, cloud?: string): Env {
+  return {
+    MICROSOFT_EXCLUDED_SCOPES: excluded,
+    MICROSOFT_CLOUD: cloud,
+  } as Env;
+}
+
+describe("getEndpointScopes", () => {
+  it("matches absolute URLs case-insensitively", () => {
+    expect(
+      getEndpointScopes(
+        "https://graph.microsoft.com/v1.0/me/mailFolders/inbox/messages",
+      )?.scopes,
+    ).toEqual(["Mail.Read", "Mail.ReadWrite"]);
+  });
+
+  it("distinguishes calendar views from event writes", () => {
+    expect(
+      getEndpointScopes("/me/calendarView?startDateTime=x")?.scopes,
+    ).toEqual(["Calendars.Read", "Calendars.ReadWrite"]);
+    expect(getEndpointScopes("/me/events/AAMk=")?.scopes).toEqual([
+      "Calendars.ReadWrite",
+    ]);
+  });
+
+  it("matches message actions before the message collection", () => {
+    expect(getEndpointScopes("/me/messages/AAMk=/reply")?.scopes).toEqual([
+      "Mail.Send",
+    ]);
+    expect(getEndpointScopes("/me/messages/AAMk=/replyAll")?.scopes).toEqual([
+      "Mail.Send",
+    ]);
+    expect(getEndpointScopes("/me/messages/AAMk=/forward")?.scopes).toEqual([
+      "Mail.Send",
+    ]);
+    expect(
+      getEndpointScopes("/me/messages/AAMk=/createReplyAll")?.scopes,
+    ).toEqual(["Mail.ReadWrite"]);
+  });
+
+  it("matches event forwards before message forwards", () => {
+    expect(getEndpointScopes("/me/events/AAMk=/forward")?.scopes).toEqual([
+      "Calendars.ReadWrite",
+    ]);
+  });
+
+  it("lists the scopes that need admin consent", () => {
+    expect(getEndpointScopes("/me/people?$top=10")).toMatchObject({
+      scopes: ["People.Read", "People.Read.All"],
+      adminConsentScopes: ["People.Read.All"],
+    });
+  });
+
+  it("returns undefined for unmapped endpoints", () => {
+    expect(getEndpointScopes("/organization")).toBeUndefined();
+  });
+});
+
+describe("getEnabledScopes", () => {
+  it("drops excluded scopes but keeps required ones", () => {
+    const scopes = getEnabledScopes(
+      scopeEnv("People.Read.All, Team.ReadBasic.All User.Read"),
+    );
+    expect(scopes).not.toContain("People.Read.All");
+    expect(scopes).not.toContain("Team.ReadBasic.All");
+    expect(scopes).toContain("User.Read");
+    expect(scopes).toContain("offline_access");
+  });
+});
+
+describe("isToolEnabled", () => {
+  it("disables tools whose scopes are excluded", () => {
+    const env = scopeEnv("OnlineMeetings.ReadWrite");
+    expect(isToolEnabled(env, "createTeamsMeeting")).toBe(false);
+    expect(isToolEnabled(env, "sendEmail")).toBe(true);
+  });
+});
+
+describe("getScopeString", () => {
+  it("prefixes scopes with the national cloud's Graph host", () => {
+    const scopes = getScopeString(scopeEnv(undefined, "usgov")).split(" ");
+    expect(scopes).toContain("https://graph.microsoft.us/Mail.Read");
+    expect(scopes).toContain("offline_access");
+  });
+});
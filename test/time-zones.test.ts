@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  resolveTimeZone,
+  shiftDateTime,
+  toZonedDateTime,
+} from "../src/time-zones";
+
+describe("resolveTimeZone", () => {
+  it("maps Windows names to IANA, ignoring case", () => {
+    expect(resolveTimeZone("pacific standard time")).toEqual({
+      windows: "Pacific Standard Time",
+      iana: "America/Los_Angeles",
+    });
+  });
+
+  it("maps IANA names and aliases to Windows names", () => {
+    expect(resolveTimeZone("Europe/Berlin").windows).toBe(
+      "W. Europe Standard Time",
+    );
+    expect(resolveTimeZone("Asia/Calcutta").windows).toBe(
+      "India Standard Time",
+    );
+    expect(resolveTimeZone("UTC").windows).toBe("UTC");
+  });
+
+  it("rejects unknown zones", () => {
+    expect(() => resolveTimeZone("Mars/Olympus_Mons")).toThrow(
+      /Unknown time zone/,
+    );
+  });
+});
+
+describe("toZonedDateTime", () => {
+  it("keeps local times and normalizes them", () => {
+    expect(toZonedDateTime("2024-06-03T09:00", "Europe/Berlin", "start")).toBe(
+      "2024-06-03T09:00:00",
+    );
+    expect(toZonedDateTime("2024-06-03", "Europe/Berlin", "start")).toBe(
+      "2024-06-03T00:00:00",
+    );
+  });
+
+  it("converts offsets into the zone across the spring DST change", () => {
+    expect(
+      toZonedDateTime("2024-03-31T00:30:00Z", "Europe/Berlin", "start"),
+    ).toBe("2024-03-31T01:30:00");
+    expect(
+      toZonedDateTime("2024-03-31T01:30:00Z", "Europe/Berlin", "start"),
+    ).toBe("2024-03-31T03:30:00");
+  });
+
+  it("converts both instants of the repeated autumn hour", () => {
+    expect(
+      toZonedDateTime("2024-11-03T05:30:00Z", "America/New_York", "start"),
+    ).toBe("2024-11-03T01:30:00");
+    expect(
+      toZonedDateTime("2024-11-03T06:30:00Z", "America/New_York", "start"),
+    ).toBe("2024-11-03T01:30:00");
+  });
+
+  it("accepts offsets with and without a colon", () => {
+    expect(toZonedDateTime("2024-06-03T09:00:00+02:00", "UTC", "start")).toBe(
+      "2024-06-03T07:00:00",
+    );
+    expect(toZonedDateTime("2024-06-03T09:00-0530", "UTC", "start")).toBe(
+      "2024-06-03T14:30:00",
+    );
+  });
+
+  it.each([
+    "2024-02-30T09:00",
+    "2023-02-29",
+    "2024-13-01",
+    "2024-06-03T24:00",
+    "2024-06-03T09:60",
+    "2024-06-03T09:00+25:00",
+    "next monday",
+  ])("rejects %s", (value) => {
+    expect(() => toZonedDateTime(value, "UTC", "start")).toThrow(
+      /Invalid date in start/,
+    );
+  });
+
+  it("accepts leap days", () => {
+    expect(toZonedDateTime("2024-02-29T09:00", "UTC", "start")).toBe(
+      "2024-02-29T09:00:00",
+    );
+  });
+});
+
+describe("shiftDateTime", () => {
+  it("adds a duration with calendar rollover", () => {
+    expect(shiftDateTime("2024-01-31T23:30:00", 60 * 60 * 1000)).toBe(
+      "2024-02-01T00:30:00",
+    );
+  });
+});